@@ -151,7 +151,8 @@ wss.on('connection', (ws) => {
                             recordingMode: data.audioOnly ? RecordingMode.AUDIO_ONLY : RecordingMode.AUDIO_VIDEO,
                             // Enable blue color blank screen on pause (for video recordings)
                             insertBlankScreenOnPause: !data.audioOnly,
-                            blankScreenColor: '#0000FF' // Blue color
+                            blankScreenColor: '#0000FF', // Blue color
+                            pauseSlate: { text: 'Recording paused' }
                         });
 
                         // Store session
@@ -7,7 +7,10 @@ import {
     RecordingQuality,
     MediaProfile,
     LogLevel,
-    RecordingMode
+    RecordingMode,
+    OverlayPosition,
+    ShareType,
+    SourceType
 } from '../types';
 import * as os from 'os';
 import * as path from 'path';
@@ -21,7 +24,42 @@ export const DEFAULT_MANAGER_CONFIG = {
     logLevel: LogLevel.INFO,
     tempDir: path.join(os.tmpdir(), 'recordings'),
     preservePipelinesOnDisconnect: false,
-    maxReconnectionTimeMs: 30000 // 30 seconds
+    maxReconnectionTimeMs: 30000, // 30 seconds
+    journalDirName: 'journal'
+};
+
+/**
+ * Default admission control limits (0 = unlimited)
+ */
+export const DEFAULT_ADMISSION_CONFIG = {
+    maxSessions: 0,
+    maxSessionsPerKey: 0,
+    keyLimits: {} as Record<string, number>,
+    maxTotalBitrate: 0,
+    allowPreemption: true
+};
+
+/**
+ * Default playback options
+ */
+export const DEFAULT_PLAYBACK_OPTIONS = {
+    connectTimeoutMs: 30000
+};
+
+/**
+ * Default session timeouts (0 = disabled)
+ */
+export const DEFAULT_SESSION_TIMEOUTS = {
+    offerTimeoutMs: 0,
+    mediaTimeoutMs: 0,
+    pauseTimeoutMs: 0
+};
+
+/**
+ * Default TURN credential issuing options
+ */
+export const DEFAULT_TURN_CREDENTIAL_CONFIG = {
+    ttlSeconds: 86400 // 24 hours
 };
 
 /**
@@ -62,10 +100,99 @@ export const DEFAULT_SESSION_OPTIONS = {
     quality: RecordingQuality.HIGH,
     recordingMode: RecordingMode.AUDIO_VIDEO,
     hasAudio: true,
+    source: {
+        type: SourceType.WEBRTC
+    },
     insertBlankScreenOnPause: true,
-    blankScreenColor: 'black'
+    blankScreenColor: 'black',
+    pauseSlate: {},
+    overlay: null,
+    filters: [],
+    outputs: [],
+    maxViewers: 0,
+    statsIntervalMs: 5000,
+    adaptiveBitrate: null,
+    admissionKey: 'default',
+    priority: 0,
+    maxDurationMs: 0,
+    maxFileSizeBytes: 0,
+    limitWarningThreshold: 0.9,
+    countPausedTimeTowardsLimit: true,
+    segmentation: {
+        segmentDurationMs: 0,
+        segmentSizeBytes: 0
+    }
 };
 
+/**
+ * Default image overlay options
+ */
+export const DEFAULT_OVERLAY_OPTIONS = {
+    position: OverlayPosition.BOTTOM_RIGHT,
+    scale: 0.15,
+    opacity: 1,
+    margin: 0.02
+};
+
+/**
+ * Default adaptive bitrate options
+ */
+export const DEFAULT_ADAPTIVE_BITRATE_OPTIONS = {
+    degradeLossPercent: 5,
+    upgradeLossPercent: 1,
+    degradeAfter: 2,
+    upgradeAfter: 5,
+    stepFactor: 0.7,
+    audioOnlyFallback: true,
+    audioOnlyAfter: 3
+};
+
+/**
+ * Default picture-in-picture session options
+ */
+export const DEFAULT_PIP_OPTIONS = {
+    primaryShareType: ShareType.SCREEN,
+    secondaryShareType: ShareType.CAMERA,
+    corner: OverlayPosition.BOTTOM_RIGHT,
+    insetSize: 0.25,
+    insetMargin: 0.02
+};
+
+/**
+ * Default picture-in-picture inset border
+ */
+export const DEFAULT_PIP_BORDER = {
+    width: 4,
+    color: 'white' as const
+};
+
+/**
+ * Upper bounds of the network quality ratings 5 to 2, worse measurements are rated 1
+ */
+export const NETWORK_QUALITY_THRESHOLDS = {
+    /** Packet loss percentage */
+    packetLoss: [1, 3, 5, 10],
+    /** Round-trip time in milliseconds */
+    rtt: [150, 300, 500, 1000],
+    /** Jitter in milliseconds */
+    jitter: [20, 40, 80, 150]
+};
+
+/**
+ * Highest rating of a network quality measurement counted as poor in the session summary
+ */
+export const POOR_NETWORK_QUALITY_RATING = 2;
+
+/**
+ * Number of poor quality periods kept in the session summary
+ */
+export const MAX_WORST_QUALITY_PERIODS = 3;
+
+/**
+ * Interval in milliseconds at which session duration and file size limits are checked
+ */
+export const LIMIT_CHECK_INTERVAL_MS = 1000;
+
 /**
  * Default WebRTC endpoint options
  */
@@ -103,5 +230,6 @@ export const MEDIA_PROFILE_EXTENSIONS: Record<MediaProfile, string> = {
 export const RECORDING_MODE_PROFILES: Record<RecordingMode, MediaProfile> = {
     [RecordingMode.AUDIO_VIDEO]: MediaProfile.WEBM,
     [RecordingMode.AUDIO_ONLY]: MediaProfile.WEBM_AUDIO_ONLY,
-    [RecordingMode.VIDEO_ONLY]: MediaProfile.WEBM_VIDEO_ONLY
+    [RecordingMode.VIDEO_ONLY]: MediaProfile.WEBM_VIDEO_ONLY,
+    [RecordingMode.SPLIT_AUDIO_VIDEO]: MediaProfile.WEBM
 }; 
\ No newline at end of file
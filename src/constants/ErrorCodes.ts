@@ -24,6 +24,7 @@ export enum ErrorCode {
     SESSION_NOT_FOUND = 402,
     SESSION_NOT_READY = 403,
     SESSION_INVALID_STATE = 404,
+    SESSION_ADMISSION_REJECTED = 405,
 
     // Media errors (5xx)
     MEDIA_PIPELINE_ERROR = 500,
@@ -35,6 +36,7 @@ export enum ErrorCode {
     ENDPOINT_CREATION_FAILED = 506,
     ENDPOINT_NOT_READY = 507,
     ENDPOINT_RELEASE_ERROR = 508,
+    PLAYER_ERROR = 509,
 
     // Recording errors (6xx)
     RECORDING_START_ERROR = 600,
@@ -42,10 +44,12 @@ export enum ErrorCode {
     RECORDING_FILE_ERROR = 602,
     RECORDING_PAUSE_ERROR = 603,
     RESOURCE_RELEASE_ERROR = 604,
+    RECORDING_ROTATE_ERROR = 605,
 
     // WebRTC errors (7xx)
     WEBRTC_OFFER_ERROR = 700,
     WEBRTC_ANSWER_ERROR = 701,
     WEBRTC_ICE_ERROR = 702,
-    WEBRTC_CONNECTION_ERROR = 703
+    WEBRTC_CONNECTION_ERROR = 703,
+    WEBRTC_STATS_ERROR = 704
 } 
\ No newline at end of file
@@ -0,0 +1,215 @@
+/**
+ * AdaptiveBitrateController: Adapts a session's bitrate to its network quality
+ */
+
+import { Logger } from '../utils';
+import { AdaptiveBitrateOptions, NetworkQualityEvent } from '../types';
+
+/**
+ * Bitrate range of a WebRTC endpoint
+ */
+export interface BitrateRange {
+    /** Minimum bitrate in kbps */
+    minBitrate: number;
+    /** Maximum bitrate in kbps */
+    maxBitrate: number;
+}
+
+/**
+ * Quality the session should switch to
+ */
+export interface AdaptiveBitrateDecision extends BitrateRange {
+    /** Whether the slate replaces the recorded video */
+    audioOnly: boolean;
+}
+
+/**
+ * Decides from the network quality measurements when to step the bitrate down or up
+ *
+ * The bitrate steps down after `degradeAfter` consecutive poor measurements, high
+ * packet loss or a bandwidth below the current minimum, and up after `upgradeAfter`
+ * consecutive good ones. Measurements in between reset both counts, so a network
+ * that hovers around a threshold keeps its bitrate. Once the lowest step is still
+ * poor for `audioOnlyAfter` measurements, the video is given up until it recovers
+ */
+export class AdaptiveBitrateController {
+    private logger: Logger;
+    private options: Required<AdaptiveBitrateOptions>;
+    private floorBitrate: number;
+    /** Bitrate steps, highest first */
+    private levels: BitrateRange[] = [];
+    private levelIndex: number = 0;
+    private audioOnly: boolean = false;
+    /** Step and audio-only state before the last switch, restored by rollback() */
+    private previousLevelIndex: number = 0;
+    private previousAudioOnly: boolean = false;
+    private poorSamples: number = 0;
+    private goodSamples: number = 0;
+
+    /**
+     * Create a new AdaptiveBitrateController
+     *
+     * @param options Normalized adaptive bitrate options
+     * @param ceiling Bitrate range of the session, the highest step
+     * @param floorBitrate Lowest maximum bitrate in kbps, the minBitrate of the quality preset
+     * @param logger Logger instance
+     */
+    constructor(
+        options: Required<AdaptiveBitrateOptions>,
+        ceiling: BitrateRange,
+        floorBitrate: number,
+        logger: Logger
+    ) {
+        this.options = options;
+        this.floorBitrate = floorBitrate;
+        this.logger = logger.createChild({ name: 'AdaptiveBitrateController' });
+
+        this.setCeiling(ceiling);
+    }
+
+    /**
+     * Replace the highest step, e.g. after the bitrate was set by hand
+     * The controller starts over from the new range
+     *
+     * @param ceiling Bitrate range of the session
+     */
+    setCeiling(ceiling: BitrateRange): void {
+        this.levels = [{ ...ceiling }];
+
+        let factor = this.options.stepFactor;
+        while (Math.round(ceiling.maxBitrate * factor) > this.floorBitrate) {
+            this.levels.push(this.scale(ceiling, factor));
+            factor *= this.options.stepFactor;
+        }
+
+        if (ceiling.maxBitrate > this.floorBitrate) {
+            this.levels.push({
+                minBitrate: Math.min(Math.round(ceiling.minBitrate * factor), this.floorBitrate),
+                maxBitrate: this.floorBitrate
+            });
+        }
+
+        this.levelIndex = this.audioOnly ? this.levels.length - 1 : 0;
+        this.previousLevelIndex = this.levelIndex;
+        this.previousAudioOnly = this.audioOnly;
+        this.poorSamples = 0;
+        this.goodSamples = 0;
+
+        this.logger.debug('Bitrate steps computed', { levels: this.levels });
+    }
+
+    /**
+     * Take a measurement into account
+     *
+     * @param event Network quality measurement
+     * @returns The quality to switch to, or null to keep the current one
+     */
+    evaluate(event: NetworkQualityEvent): AdaptiveBitrateDecision | null {
+        const level = this.levels[this.levelIndex];
+        const isLowest = this.levelIndex === this.levels.length - 1;
+        // Recovering from audio only goes back to the lowest step, otherwise to the next one up
+        const target = this.audioOnly || this.levelIndex === 0 ? level : this.levels[this.levelIndex - 1];
+
+        if (event.packetLoss >= this.options.degradeLossPercent || event.bandwidth < level.minBitrate) {
+            this.goodSamples = 0;
+            this.poorSamples++;
+
+            if (!isLowest && this.poorSamples >= this.options.degradeAfter) {
+                return this.switchTo(this.levelIndex + 1, false, event);
+            }
+
+            if (isLowest && !this.audioOnly && this.options.audioOnlyFallback &&
+                this.poorSamples >= this.options.audioOnlyAfter) {
+                return this.switchTo(this.levelIndex, true, event);
+            }
+
+            return null;
+        }
+
+        if (event.packetLoss <= this.options.upgradeLossPercent && event.bandwidth >= target.minBitrate) {
+            this.poorSamples = 0;
+            this.goodSamples++;
+
+            if (this.goodSamples >= this.options.upgradeAfter) {
+                if (this.audioOnly) {
+                    return this.switchTo(this.levelIndex, false, event);
+                }
+
+                if (this.levelIndex > 0) {
+                    return this.switchTo(this.levelIndex - 1, false, event);
+                }
+            }
+
+            return null;
+        }
+
+        this.poorSamples = 0;
+        this.goodSamples = 0;
+        return null;
+    }
+
+    /**
+     * Undo the last switch after the session failed to apply it
+     * Counting starts over, so the switch is decided again if the network still calls for it
+     */
+    rollback(): void {
+        this.levelIndex = this.previousLevelIndex;
+        this.audioOnly = this.previousAudioOnly;
+        this.poorSamples = 0;
+        this.goodSamples = 0;
+
+        this.logger.info('Quality change rolled back', {
+            ...this.levels[this.levelIndex],
+            audioOnly: this.audioOnly
+        });
+    }
+
+    /**
+     * Check whether the video is currently given up
+     *
+     * @returns true if the slate replaces the recorded video
+     */
+    isAudioOnly(): boolean {
+        return this.audioOnly;
+    }
+
+    /**
+     * Move to a step and start counting again
+     *
+     * @param levelIndex Index of the step
+     * @param audioOnly Whether the video is given up
+     * @param event Measurement that caused the switch
+     * @returns Decision for the session
+     */
+    private switchTo(levelIndex: number, audioOnly: boolean, event: NetworkQualityEvent): AdaptiveBitrateDecision {
+        this.previousLevelIndex = this.levelIndex;
+        this.previousAudioOnly = this.audioOnly;
+        this.levelIndex = levelIndex;
+        this.audioOnly = audioOnly;
+        this.poorSamples = 0;
+        this.goodSamples = 0;
+
+        const decision = { ...this.levels[levelIndex], audioOnly };
+        this.logger.info('Adapting quality to network', {
+            ...decision,
+            packetLoss: event.packetLoss,
+            bandwidth: event.bandwidth
+        });
+
+        return decision;
+    }
+
+    /**
+     * Scale a bitrate range
+     *
+     * @param range Bitrate range
+     * @param factor Scale factor
+     * @returns Scaled range in whole kbps
+     */
+    private scale(range: BitrateRange, factor: number): BitrateRange {
+        return {
+            minBitrate: Math.round(range.minBitrate * factor),
+            maxBitrate: Math.round(range.maxBitrate * factor)
+        };
+    }
+}
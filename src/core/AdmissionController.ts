@@ -0,0 +1,224 @@
+/**
+ * AdmissionController: Enforces session quotas and bitrate budgets
+ */
+
+import { Logger } from '../utils';
+import { AdmissionControlConfig } from '../types';
+
+/**
+ * Resource usage of an admitted session
+ */
+export interface AdmissionTicket {
+    /** Session ID */
+    sessionId: string;
+    /** Admission key (e.g. tenant ID) */
+    key: string;
+    /** Session priority */
+    priority: number;
+    /** Reserved ingest bitrate in kbps */
+    bitrate: number;
+    /** Admission timestamp */
+    admittedAt: number;
+}
+
+/**
+ * Limit that caused a rejection
+ */
+export type AdmissionLimit = 'max-sessions' | 'max-sessions-per-key' | 'max-total-bitrate';
+
+/**
+ * Result of an admission request
+ */
+export interface AdmissionDecision {
+    /** Whether the session may be created */
+    admitted: boolean;
+    /** Sessions that must be stopped before the new one is admitted */
+    preempt: AdmissionTicket[];
+    /** Limit that caused the rejection (if rejected) */
+    limit?: AdmissionLimit;
+    /** Human readable rejection reason (if rejected) */
+    reason?: string;
+}
+
+/**
+ * Tracks admitted sessions and decides whether new sessions fit within the
+ * configured limits, preempting lower-priority sessions when allowed
+ */
+export class AdmissionController {
+    private logger: Logger;
+    private config: Required<AdmissionControlConfig>;
+    private tickets: Map<string, AdmissionTicket> = new Map();
+
+    /**
+     * Create a new AdmissionController
+     *
+     * @param config Normalized admission limits
+     * @param logger Logger instance
+     */
+    constructor(config: Required<AdmissionControlConfig>, logger: Logger) {
+        this.config = config;
+        this.logger = logger.createChild({ name: 'AdmissionController' });
+    }
+
+    /**
+     * Evaluate a session against the limits
+     * Nothing is reserved until admit() is called
+     *
+     * @param candidate Usage of the session to admit
+     * @param allowPreemption Whether lower-priority sessions may be preempted, if the configuration allows it (default: true)
+     * @returns Admission decision
+     */
+    evaluate(candidate: AdmissionTicket, allowPreemption: boolean = true): AdmissionDecision {
+        const active = [...this.tickets.values()];
+        const violation = this.findViolation(candidate, active);
+
+        if (!violation) {
+            return { admitted: true, preempt: [] };
+        }
+
+        if (!this.config.allowPreemption || !allowPreemption) {
+            return { admitted: false, preempt: [], ...violation };
+        }
+
+        // Lowest priority first; among equals, the most recently admitted loses the least work
+        const victims = active
+            .filter(ticket => ticket.priority < candidate.priority)
+            .sort((a, b) => a.priority - b.priority || b.admittedAt - a.admittedAt);
+
+        const preempt: AdmissionTicket[] = [];
+        let remaining = active;
+
+        for (const victim of victims) {
+            const currentViolation = this.findViolation(candidate, remaining);
+            if (!currentViolation) {
+                break;
+            }
+
+            if (!this.helps(victim, candidate, currentViolation.limit)) {
+                continue;
+            }
+
+            preempt.push(victim);
+            remaining = remaining.filter(ticket => ticket !== victim);
+        }
+
+        const finalViolation = this.findViolation(candidate, remaining);
+        if (finalViolation) {
+            return { admitted: false, preempt: [], ...finalViolation };
+        }
+
+        return { admitted: true, preempt };
+    }
+
+    /**
+     * Reserve resources for an admitted session
+     *
+     * @param ticket Session usage
+     */
+    admit(ticket: AdmissionTicket): void {
+        this.tickets.set(ticket.sessionId, ticket);
+        this.logger.debug('Session admitted', {
+            sessionId: ticket.sessionId,
+            activeSessions: this.tickets.size,
+            totalBitrate: this.getTotalBitrate()
+        });
+    }
+
+    /**
+     * Release the resources of a session
+     *
+     * @param sessionId Session ID
+     */
+    release(sessionId: string): void {
+        if (this.tickets.delete(sessionId)) {
+            this.logger.debug('Session admission released', { sessionId, activeSessions: this.tickets.size });
+        }
+    }
+
+    /**
+     * Get the total reserved ingest bitrate
+     *
+     * @returns Bitrate in kbps
+     */
+    getTotalBitrate(): number {
+        let total = 0;
+        for (const ticket of this.tickets.values()) {
+            total += ticket.bitrate;
+        }
+        return total;
+    }
+
+    /**
+     * Find the first limit the candidate would exceed
+     *
+     * @param candidate Session to admit
+     * @param active Sessions currently admitted
+     * @returns The violated limit or null
+     */
+    private findViolation(
+        candidate: AdmissionTicket,
+        active: AdmissionTicket[]
+    ): { limit: AdmissionLimit; reason: string } | null {
+        const { maxSessions, maxTotalBitrate } = this.config;
+
+        if (maxSessions > 0 && active.length + 1 > maxSessions) {
+            return {
+                limit: 'max-sessions',
+                reason: `Maximum of ${maxSessions} concurrent sessions reached`
+            };
+        }
+
+        const keyLimit = this.getKeyLimit(candidate.key);
+        if (keyLimit > 0) {
+            const keySessions = active.filter(ticket => ticket.key === candidate.key).length;
+            if (keySessions + 1 > keyLimit) {
+                return {
+                    limit: 'max-sessions-per-key',
+                    reason: `Maximum of ${keyLimit} concurrent sessions reached for key ${candidate.key}`
+                };
+            }
+        }
+
+        if (maxTotalBitrate > 0) {
+            const totalBitrate = active.reduce((sum, ticket) => sum + ticket.bitrate, 0);
+            if (totalBitrate + candidate.bitrate > maxTotalBitrate) {
+                return {
+                    limit: 'max-total-bitrate',
+                    reason: `Ingest bitrate budget of ${maxTotalBitrate} kbps exceeded ` +
+                        `(${totalBitrate} kbps in use, ${candidate.bitrate} kbps requested)`
+                };
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Check whether stopping a session frees capacity for a violated limit
+     *
+     * @param victim Session that would be stopped
+     * @param candidate Session to admit
+     * @param limit Violated limit
+     * @returns true if stopping the victim helps
+     */
+    private helps(victim: AdmissionTicket, candidate: AdmissionTicket, limit: AdmissionLimit): boolean {
+        switch (limit) {
+            case 'max-sessions-per-key':
+                return victim.key === candidate.key;
+            case 'max-total-bitrate':
+                return victim.bitrate > 0;
+            default:
+                return true;
+        }
+    }
+
+    /**
+     * Get the session limit for an admission key
+     *
+     * @param key Admission key
+     * @returns Limit (0 = unlimited)
+     */
+    private getKeyLimit(key: string): number {
+        return this.config.keyLimits[key] ?? this.config.maxSessionsPerKey;
+    }
+}
@@ -2,20 +2,30 @@
  * EndpointManager: Manages WebRTC and Recorder endpoints
  */
 
-import * as path from 'path';
-import { Logger } from '../utils';
+import { Logger, toMediaUri, isUrl, readImageSize, getFilterElementOptions, getSplitOutputs } from '../utils';
 import { MediaError } from '../errors';
-import { ErrorCode } from '../constants';
+import { ErrorCode, DEFAULT_QUALITY_SETTINGS } from '../constants';
 import {
     WebRtcEndpointOptions,
     RecorderEndpointOptions,
     MediaProfile,
     RecordingMode,
     WebRtcEndpoint,
-    RecorderEndpoint
+    RecorderEndpoint,
+    PlayerEndpoint,
+    PlayerEndpointOptions,
+    SourceOptions,
+    SourceType,
+    SlateElements,
+    OverlayOptions,
+    OverlayPosition,
+    OverlayElementOptions,
+    FilterSpec,
+    OutputOptions,
+    RecordingQuality
 } from '../types';
 import { MediaPipeline } from './MediaPipeline';
-import { DEFAULT_WEBRTC_OPTIONS, DEFAULT_RECORDER_OPTIONS } from '../constants';
+import { DEFAULT_WEBRTC_OPTIONS, DEFAULT_RECORDER_OPTIONS, DEFAULT_OVERLAY_OPTIONS } from '../constants';
 
 /**
  * Options for creating endpoints
@@ -29,12 +39,51 @@ export interface EndpointCreationOptions {
     filePath: string;
     /** Whether audio is expected */
     hasAudio: boolean;
+    /** Media source, a WebRTC endpoint unless a player source is given */
+    source?: SourceOptions;
+    /** Expected video width */
+    width: number;
+    /** Expected video height */
+    height: number;
+    /** Image overlay drawn over the recorded video */
+    overlay?: OverlayOptions | null;
+    /** Normalized media filters, in order */
+    filters?: FilterSpec[];
+    /** Normalized additional copies, each written by its own recorder */
+    outputs?: OutputOptions[];
     /** WebRTC endpoint options */
     webRtcOptions?: WebRtcEndpointOptions;
     /** Recorder endpoint options */
     recorderOptions?: Partial<RecorderEndpointOptions>;
 }
 
+/**
+ * Kurento IDs of the elements managed by an EndpointManager
+ */
+export interface EndpointIds {
+    webRtcEndpointId?: string;
+    /** Player of a session recording a file or stream instead of a WebRTC publisher */
+    playerEndpointId?: string;
+    recorderEndpointId?: string;
+    /** Recorder of the audio file of a split recording */
+    audioRecorderEndpointId?: string;
+    overlayId?: string;
+    /** Kurento IDs of the media filters by filter ID */
+    filterIds?: Record<string, string>;
+    /** PassThrough feeding the recorders of a session with additional outputs */
+    fanOutId?: string;
+    /** Recorders of the additional outputs, in order */
+    outputRecorderEndpointIds?: string[];
+}
+
+/**
+ * A media filter element in the chain between the WebRTC input and the recorder
+ */
+interface ActiveFilter {
+    spec: FilterSpec;
+    element: any;
+}
+
 /**
  * Manages WebRTC and Recorder endpoints
  */
@@ -42,10 +91,21 @@ export class EndpointManager {
     private logger: Logger;
     private pipeline: MediaPipeline;
     private webRtcEndpoint: WebRtcEndpoint | null = null;
+    /** Plays the input of a session recording a file or stream, there is no WebRTC endpoint then */
+    private playerEndpoint: PlayerEndpoint | null = null;
     private recorderEndpoint: RecorderEndpoint | null = null;
+    /** Records the audio file of a split recording, the main recorder then only records video */
+    private audioRecorderEndpoint: RecorderEndpoint | null = null;
+    /** Feeds the recorder and the recorders of the additional outputs with the same media */
+    private fanOut: any = null;
+    private outputRecorders: RecorderEndpoint[] = [];
+    private overlay: any = null;
+    private filters: ActiveFilter[] = [];
     private recordingMode: RecordingMode | null = null;
     private isRecording: boolean = false;
-    private blankScreenElement: any = null;
+    private isPaused: boolean = false;
+    private audioMuted: boolean = false;
+    private blankScreen: SlateElements | null = null;
 
     /**
      * Create a new EndpointManager
@@ -65,28 +125,77 @@ export class EndpointManager {
      * @returns Object with created endpoints
      */
     async createEndpoints(options: EndpointCreationOptions): Promise<{
-        webRtcEndpoint: WebRtcEndpoint;
+        webRtcEndpoint: WebRtcEndpoint | null;
+        playerEndpoint: PlayerEndpoint | null;
         recorderEndpoint: RecorderEndpoint;
     }> {
         this.logger.debug('Creating endpoints', options);
         this.recordingMode = options.recordingMode;
 
         try {
-            // Create WebRTC endpoint
-            const webRtcOptions = this.prepareWebRtcOptions(options);
-            this.webRtcEndpoint = await this.pipeline.createWebRtcEndpoint(webRtcOptions, 'webrtc');
-            this.logger.debug('WebRTC endpoint created');
+            if (options.source?.type === SourceType.PLAYER) {
+                // Create Player endpoint
+                const playerOptions = this.preparePlayerOptions(options.source);
+                this.playerEndpoint = await this.pipeline.createPlayerEndpoint(playerOptions, 'player');
+                this.logger.debug('Player endpoint created', { uri: playerOptions.uri });
+            } else {
+                // Create WebRTC endpoint
+                const webRtcOptions = this.prepareWebRtcOptions(options);
+                this.webRtcEndpoint = await this.pipeline.createWebRtcEndpoint(webRtcOptions, 'webrtc');
+                this.logger.debug('WebRTC endpoint created');
+            }
 
             // Create Recorder endpoint
             const recorderOptions = this.prepareRecorderOptions(options);
             this.recorderEndpoint = await this.pipeline.createRecorderEndpoint(recorderOptions, 'recorder');
             this.logger.debug('Recorder endpoint created');
 
-            // Connect WebRTC to Recorder based on recording mode
+            if (options.recordingMode === RecordingMode.SPLIT_AUDIO_VIDEO) {
+                this.audioRecorderEndpoint = await this.pipeline.createRecorderEndpoint(
+                    this.prepareRecorderOptions(options, 'AUDIO'),
+                    'recorder:audio'
+                );
+                this.logger.debug('Audio recorder endpoint created');
+            }
+
+            // Additional outputs get their own recorders behind a common PassThrough
+            if (options.outputs && options.outputs.length > 0) {
+                this.fanOut = await this.pipeline.createElement({ type: 'PassThrough' }, 'fan-out');
+
+                for (const [index, output] of options.outputs.entries()) {
+                    const recorder = await this.pipeline.createRecorderEndpoint(
+                        this.prepareRecorderOptions({
+                            ...options,
+                            filePath: output.filePath!,
+                            mediaProfile: output.mediaProfile
+                        }),
+                        this.getOutputRecorderId(index)
+                    );
+                    this.outputRecorders.push(recorder);
+                    await this.setOutputQuality(recorder, output.quality!);
+                }
+                this.logger.debug('Output recorder endpoints created', { count: this.outputRecorders.length });
+            }
+
+            // Create the media filters, they are chained in order per media type
+            for (const spec of options.filters ?? []) {
+                const element = await this.createFilterElement(spec);
+                this.filters.push({ spec, element });
+            }
+
+            // Create the image overlay in front of the recorder
+            if (options.overlay && options.recordingMode !== RecordingMode.AUDIO_ONLY) {
+                const overlayOptions = await this.prepareOverlayOptions(options, options.overlay);
+                this.overlay = await this.pipeline.createOverlay(overlayOptions, 'overlay');
+                this.logger.debug('Image overlay created');
+            }
+
+            // Connect the input to Recorder based on recording mode
             await this.connectEndpoints(options.recordingMode);
 
             return {
                 webRtcEndpoint: this.webRtcEndpoint,
+                playerEndpoint: this.playerEndpoint,
                 recorderEndpoint: this.recorderEndpoint
             };
         } catch (error: any) {
@@ -99,6 +208,138 @@ export class EndpointManager {
         }
     }
 
+    /**
+     * Attach to endpoints that already exist on the Kurento server
+     * Used to recover sessions after a restart of this process
+     *
+     * @param ids Kurento IDs of the endpoints; the recorder ID and the WebRTC or player ID are required
+     * @param recordingMode Recording mode the endpoints were connected with
+     * @param filters Media filters the endpoints were connected with, in order
+     * @returns Object with attached endpoints
+     */
+    async attachEndpoints(
+        ids: EndpointIds,
+        recordingMode: RecordingMode,
+        filters: FilterSpec[] = []
+    ): Promise<{
+        webRtcEndpoint: WebRtcEndpoint | null;
+        playerEndpoint: PlayerEndpoint | null;
+        recorderEndpoint: RecorderEndpoint;
+    }> {
+        this.logger.debug('Attaching to existing endpoints', { ...ids });
+        this.recordingMode = recordingMode;
+
+        if (ids.playerEndpointId) {
+            this.playerEndpoint = await this.pipeline.getMediaObject<PlayerEndpoint>(ids.playerEndpointId, 'player');
+        } else {
+            this.webRtcEndpoint = await this.pipeline.getMediaObject<WebRtcEndpoint>(ids.webRtcEndpointId!, 'webrtc');
+        }
+        this.recorderEndpoint = await this.pipeline.getMediaObject<RecorderEndpoint>(ids.recorderEndpointId!, 'recorder');
+
+        if (recordingMode === RecordingMode.SPLIT_AUDIO_VIDEO) {
+            if (!ids.audioRecorderEndpointId) {
+                throw new MediaError(
+                    'No audio recorder recorded for split recording',
+                    ErrorCode.ENDPOINT_NOT_READY
+                );
+            }
+
+            this.audioRecorderEndpoint = await this.pipeline.getMediaObject<RecorderEndpoint>(
+                ids.audioRecorderEndpointId,
+                'recorder:audio'
+            );
+        }
+
+        if (ids.fanOutId) {
+            this.fanOut = await this.pipeline.getMediaObject(ids.fanOutId, 'fan-out');
+        }
+
+        for (const [index, recorderId] of (ids.outputRecorderEndpointIds ?? []).entries()) {
+            this.outputRecorders.push(
+                await this.pipeline.getMediaObject<RecorderEndpoint>(recorderId, this.getOutputRecorderId(index))
+            );
+        }
+
+        if (ids.overlayId) {
+            this.overlay = await this.pipeline.getMediaObject(ids.overlayId, 'overlay');
+        }
+
+        for (const spec of filters) {
+            const elementId = ids.filterIds?.[spec.id!];
+            if (!elementId) {
+                throw new MediaError(
+                    `No element recorded for filter ${spec.id}`,
+                    ErrorCode.ENDPOINT_NOT_READY
+                );
+            }
+
+            const element = await this.pipeline.getMediaObject(elementId, this.getFilterElementId(spec));
+            this.filters.push({ spec, element });
+        }
+
+        // The recorder keeps running on the server, pick up its current state
+        const recorderState = await this.getRecordingState();
+        this.isRecording = recorderState === 'START' || recorderState === 'PAUSE';
+        this.isPaused = recorderState === 'PAUSE';
+
+        this.logger.info('Attached to existing endpoints', { recorderState });
+        return {
+            webRtcEndpoint: this.webRtcEndpoint,
+            playerEndpoint: this.playerEndpoint,
+            recorderEndpoint: this.recorderEndpoint
+        };
+    }
+
+    /**
+     * Pick up the endpoints again after the pipeline was re-bound to a new Kurento client
+     */
+    async rebindEndpoints(): Promise<void> {
+        if (this.playerEndpoint) {
+            this.playerEndpoint = this.pipeline.getElement('player') || null;
+        } else {
+            this.webRtcEndpoint = this.pipeline.getElement('webrtc') || null;
+        }
+        this.recorderEndpoint = this.pipeline.getElement('recorder') || null;
+
+        if (this.audioRecorderEndpoint) {
+            this.audioRecorderEndpoint = this.pipeline.getElement('recorder:audio') || null;
+        }
+
+        if (this.fanOut) {
+            this.fanOut = this.pipeline.getElement('fan-out') || null;
+        }
+
+        this.outputRecorders = this.outputRecorders.map(
+            (_, index) => this.pipeline.getElement(this.getOutputRecorderId(index))
+        );
+
+        if (this.overlay) {
+            this.overlay = this.pipeline.getElement('overlay') || null;
+        }
+
+        this.filters = this.filters.map(({ spec }) => ({
+            spec,
+            element: this.pipeline.getElement(this.getFilterElementId(spec))
+        }));
+
+        const missingAudioRecorder = this.recordingMode === RecordingMode.SPLIT_AUDIO_VIDEO && !this.audioRecorderEndpoint;
+        const missingOutput = (this.outputRecorders.length > 0 && !this.fanOut) ||
+            this.outputRecorders.some(recorder => !recorder);
+        if (!this.getInputEndpoint() || !this.recorderEndpoint || missingAudioRecorder || missingOutput ||
+            this.filters.some(filter => !filter.element)) {
+            throw new MediaError(
+                'Endpoints no longer exist on the server',
+                ErrorCode.ENDPOINT_NOT_READY
+            );
+        }
+
+        if (this.blankScreen) {
+            this.blankScreen = this.pipeline.getSlate('blank-screen');
+        }
+
+        this.logger.info('Endpoints re-bound to new client');
+    }
+
     /**
      * Start recording
      */
@@ -117,7 +358,7 @@ export class EndpointManager {
 
         try {
             this.logger.info('Starting recording');
-            await this.recorderEndpoint.record();
+            await Promise.all(this.getRecorders().map(recorder => recorder.record()));
             this.isRecording = true;
             this.logger.info('Recording started successfully');
         } catch (error: any) {
@@ -148,8 +389,9 @@ export class EndpointManager {
 
         try {
             this.logger.info('Stopping recording');
-            await this.recorderEndpoint.stop();
+            await Promise.all(this.getRecorders().map(recorder => recorder.stop()));
             this.isRecording = false;
+            this.isPaused = false;
             this.logger.info('Recording stopped successfully');
         } catch (error: any) {
             this.logger.error('Error stopping recording', { error });
@@ -161,6 +403,458 @@ export class EndpointManager {
         }
     }
 
+    /**
+     * Pause the recorder, nothing is written to the file until it is resumed
+     */
+    async pauseRecording(): Promise<void> {
+        if (!this.recorderEndpoint || !this.isRecording) {
+            throw new MediaError(
+                'Recording not active, cannot pause',
+                ErrorCode.RECORDING_PAUSE_ERROR
+            );
+        }
+
+        if (this.isPaused) {
+            this.logger.warn('Recorder already paused');
+            return;
+        }
+
+        try {
+            this.logger.info('Pausing recorder');
+            await Promise.all(this.getRecorders().map(recorder => recorder.pause()));
+            this.isPaused = true;
+            this.logger.info('Recorder paused');
+        } catch (error: any) {
+            this.logger.error('Error pausing recorder', { error });
+            throw new MediaError(
+                `Failed to pause recorder: ${error.message}`,
+                ErrorCode.RECORDING_PAUSE_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Resume a paused recorder
+     */
+    async resumeRecording(): Promise<void> {
+        if (!this.recorderEndpoint || !this.isRecording) {
+            throw new MediaError(
+                'Recording not active, cannot resume',
+                ErrorCode.RECORDING_PAUSE_ERROR
+            );
+        }
+
+        if (!this.isPaused) {
+            this.logger.warn('Recorder not paused, nothing to resume');
+            return;
+        }
+
+        try {
+            this.logger.info('Resuming recorder');
+            await Promise.all(this.getRecorders().map(recorder => recorder.record()));
+            this.isPaused = false;
+            this.logger.info('Recorder resumed');
+        } catch (error: any) {
+            this.logger.error('Error resuming recorder', { error });
+            throw new MediaError(
+                `Failed to resume recorder: ${error.message}`,
+                ErrorCode.RECORDING_PAUSE_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Remove the audio going to the recorder by disconnecting the AUDIO link
+     * Unlike other disconnections a failure is reported, so that audio the user
+     * asked to mute is never silently recorded
+     */
+    async muteAudio(): Promise<void> {
+        if (!this.getInputEndpoint() || !this.recorderEndpoint) {
+            throw new MediaError(
+                'Endpoints not created, cannot mute audio',
+                ErrorCode.MEDIA_CONNECTION_ERROR
+            );
+        }
+
+        if (this.audioMuted) {
+            return;
+        }
+
+        try {
+            this.logger.info('Disconnecting audio from recorder');
+            await this.getMediaSource('AUDIO').disconnect(this.getAudioSink(), 'AUDIO');
+            this.audioMuted = true;
+            this.logger.info('Audio disconnected from recorder');
+        } catch (error: any) {
+            this.logger.error('Error disconnecting audio from recorder', { error });
+            throw new MediaError(
+                `Failed to mute audio: ${error.message}`,
+                ErrorCode.MEDIA_CONNECTION_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Reconnect the audio going to the recorder after muteAudio()
+     */
+    async unmuteAudio(): Promise<void> {
+        if (!this.getInputEndpoint() || !this.recorderEndpoint) {
+            throw new MediaError(
+                'Endpoints not created, cannot unmute audio',
+                ErrorCode.MEDIA_CONNECTION_ERROR
+            );
+        }
+
+        if (!this.audioMuted) {
+            return;
+        }
+
+        this.logger.info('Reconnecting audio to recorder');
+        await this.pipeline.connect(this.getMediaSource('AUDIO'), this.getAudioSink(), 'AUDIO');
+        this.audioMuted = false;
+        this.logger.info('Audio reconnected to recorder');
+    }
+
+    /**
+     * Hand recording over to a new recorder writing to another file
+     * The new recorder is connected and started before the current one is stopped
+     * (make-before-break), so no media is lost between the two files
+     * 
+     * @param options Endpoint creation options for the new file
+     * @returns Timestamps at which the new recorder started and the old one stopped
+     */
+    async rotateRecorder(options: EndpointCreationOptions): Promise<{ started: number; stopped: number }> {
+        if (!this.getInputEndpoint() || !this.recorderEndpoint || !this.isRecording) {
+            throw new MediaError(
+                'Recording not active, cannot rotate recorder',
+                ErrorCode.RECORDING_ROTATE_ERROR
+            );
+        }
+
+        if (this.outputRecorders.length > 0) {
+            throw new MediaError(
+                'A recording with additional outputs cannot be rotated',
+                ErrorCode.RECORDING_ROTATE_ERROR
+            );
+        }
+
+        const previous = this.getRecorders();
+        let next: RecorderEndpoint | null = null;
+        let nextAudio: RecorderEndpoint | null = null;
+
+        try {
+            this.logger.info('Rotating recorder', { filePath: options.filePath });
+
+            next = await this.pipeline.createRecorderEndpoint(
+                this.prepareRecorderOptions(options),
+                'recorder-next'
+            );
+
+            // A split recording rotates its audio file along with the video file
+            if (this.audioRecorderEndpoint) {
+                nextAudio = await this.pipeline.createRecorderEndpoint(
+                    this.prepareRecorderOptions(options, 'AUDIO'),
+                    'recorder-next:audio'
+                );
+            }
+
+            const upcoming = nextAudio ? [next, nextAudio] : [next];
+            await this.connectSources(next, nextAudio ?? next);
+            await Promise.all(upcoming.map(recorder => recorder.record()));
+            const started = Date.now();
+
+            // A paused recording stays paused in the new file
+            if (this.isPaused) {
+                await Promise.all(upcoming.map(recorder => recorder.pause()));
+            }
+
+            // From here on the new file has everything, the old one can be closed
+            this.recorderEndpoint = next;
+            this.pipeline.removeElement('recorder-next');
+            this.pipeline.registerElement('recorder', next);
+
+            if (nextAudio) {
+                this.audioRecorderEndpoint = nextAudio;
+                this.pipeline.removeElement('recorder-next:audio');
+                this.pipeline.registerElement('recorder:audio', nextAudio);
+            }
+
+            for (const recorder of previous) {
+                try {
+                    await recorder.stop();
+                } catch (error: any) {
+                    this.logger.warn('Error stopping previous recorder', { error });
+                }
+            }
+            const stopped = Date.now();
+
+            for (const recorder of previous) {
+                try {
+                    await recorder.release();
+                } catch (error: any) {
+                    this.logger.warn('Error releasing previous recorder', { error });
+                }
+            }
+
+            this.logger.info('Recorder rotated', { filePath: options.filePath });
+            return { started, stopped };
+        } catch (error: any) {
+            this.logger.error('Error rotating recorder', { error });
+
+            // Keep recording into the current file
+            if (next && this.recorderEndpoint !== next) {
+                this.pipeline.removeElement('recorder-next');
+                this.pipeline.removeElement('recorder-next:audio');
+                await next.release().catch(() => undefined);
+                await nextAudio?.release().catch(() => undefined);
+            }
+
+            throw new MediaError(
+                `Failed to rotate recorder: ${error.message}`,
+                ErrorCode.RECORDING_ROTATE_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Connect the current media sources to a recorder according to the recording mode
+     * Video comes from the overlay if there is one, otherwise from the blank screen
+     * while it is connected, otherwise from the end of the video filter chain
+     * 
+     * @param recorder Recorder to connect, or the PassThrough feeding the recorders
+     * @param audioRecorder Recorder of the audio, when it is recorded into its own file
+     */
+    private async connectSources(recorder: any, audioRecorder: any = recorder): Promise<void> {
+        const recordsAudio = this.recordingMode !== RecordingMode.VIDEO_ONLY;
+        const recordsVideo = this.recordingMode !== RecordingMode.AUDIO_ONLY;
+
+        if (recordsAudio && !this.audioMuted) {
+            await this.pipeline.connect(this.getMediaSource('AUDIO'), audioRecorder, 'AUDIO');
+        }
+
+        if (recordsVideo) {
+            const videoSource = this.overlay || this.blankScreen?.output || this.getMediaSource('VIDEO');
+            await this.pipeline.connect(videoSource, recorder, 'VIDEO');
+        }
+    }
+
+    /**
+     * Add a media filter at the end of its chain on a live session
+     * The filter is connected in front of the current sink before the old link is
+     * removed, so the recording keeps receiving media
+     * 
+     * @param spec Normalized filter
+     */
+    async addFilter(spec: FilterSpec): Promise<void> {
+        if (!this.getInputEndpoint() || !this.recorderEndpoint) {
+            throw new MediaError(
+                'Endpoints not created, cannot add filter',
+                ErrorCode.ENDPOINT_NOT_READY
+            );
+        }
+
+        const source = this.getMediaSource(spec.mediaType);
+        const sink = this.getMediaSink(spec.mediaType);
+        const element = await this.createFilterElement(spec);
+
+        try {
+            this.logger.info('Adding media filter', { filterId: spec.id, mediaType: spec.mediaType });
+
+            await this.pipeline.connect(source, element, spec.mediaType);
+            if (sink) {
+                await this.pipeline.connect(element, sink, spec.mediaType);
+                await this.disconnectEndpoints(source, sink, spec.mediaType);
+            }
+
+            this.filters.push({ spec, element });
+            this.logger.info('Media filter added', { filterId: spec.id });
+        } catch (error: any) {
+            this.logger.error('Error adding media filter', { error, filterId: spec.id });
+
+            this.pipeline.removeElement(this.getFilterElementId(spec));
+            await element.release().catch(() => undefined);
+
+            throw new MediaError(
+                `Failed to add filter ${spec.id}: ${error.message}`,
+                ErrorCode.MEDIA_CONNECTION_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Remove a media filter from a live session
+     * Its neighbours are connected to each other before the filter is released
+     * 
+     * @param filterId Filter ID
+     * @returns The removed filter
+     */
+    async removeFilter(filterId: string): Promise<FilterSpec> {
+        const filter = this.filters.find(active => active.spec.id === filterId);
+        if (!filter) {
+            throw new MediaError(
+                `Filter ${filterId} not found`,
+                ErrorCode.INVALID_PARAMETER
+            );
+        }
+
+        const { spec, element } = filter;
+        const chain = this.filters.filter(active => active.spec.mediaType === spec.mediaType);
+        const position = chain.indexOf(filter);
+        const source = position > 0 ? chain[position - 1].element : this.getInputEndpoint();
+        const sink = position < chain.length - 1 ? chain[position + 1].element : this.getMediaSink(spec.mediaType);
+
+        try {
+            this.logger.info('Removing media filter', { filterId, mediaType: spec.mediaType });
+
+            if (sink) {
+                await this.pipeline.connect(source, sink, spec.mediaType);
+            }
+            await this.disconnectEndpoints(source, element, spec.mediaType);
+        } catch (error: any) {
+            this.logger.error('Error removing media filter', { error, filterId });
+            throw new MediaError(
+                `Failed to remove filter ${filterId}: ${error.message}`,
+                ErrorCode.MEDIA_CONNECTION_ERROR,
+                error
+            );
+        }
+
+        this.filters = this.filters.filter(active => active !== filter);
+        this.pipeline.removeElement(this.getFilterElementId(spec));
+
+        try {
+            await element.release();
+        } catch (error: any) {
+            this.logger.warn('Error releasing media filter', { error, filterId });
+        }
+
+        this.logger.info('Media filter removed', { filterId });
+        return spec;
+    }
+
+    /**
+     * Get the media filters in the chain
+     * 
+     * @returns Filters in order
+     */
+    getFilters(): FilterSpec[] {
+        return this.filters.map(filter => filter.spec);
+    }
+
+    /**
+     * Create the element of a media filter
+     * 
+     * @param spec Normalized filter
+     * @returns The filter element
+     */
+    private async createFilterElement(spec: FilterSpec): Promise<any> {
+        return this.pipeline.createElement(
+            { type: spec.type!, options: getFilterElementOptions(spec) },
+            this.getFilterElementId(spec)
+        );
+    }
+
+    /**
+     * Get the pipeline registry ID of a filter element
+     * 
+     * @param spec Filter
+     * @returns Registry ID
+     */
+    private getFilterElementId(spec: FilterSpec): string {
+        return `filter:${spec.id}`;
+    }
+
+    /**
+     * Get the element that outputs media of a type once it passed the filters
+     * 
+     * @param mediaType Media type
+     * @returns The last filter of the type, or the input endpoint
+     */
+    private getMediaSource(mediaType: 'AUDIO' | 'VIDEO'): any {
+        const chain = this.filters.filter(filter => filter.spec.mediaType === mediaType);
+        return chain.length > 0 ? chain[chain.length - 1].element : this.getInputEndpoint();
+    }
+
+    /**
+     * Get the element the media source of a type is currently connected to
+     * 
+     * @param mediaType Media type
+     * @returns The sink, or null if the media is not connected
+     */
+    private getMediaSink(mediaType: 'AUDIO' | 'VIDEO'): any {
+        if (mediaType === 'AUDIO') {
+            return this.recordingMode !== RecordingMode.VIDEO_ONLY && !this.audioMuted
+                ? this.getAudioSink()
+                : null;
+        }
+
+        if (this.recordingMode === RecordingMode.AUDIO_ONLY) {
+            return null;
+        }
+
+        return this.blankScreen?.input || this.getVideoSink();
+    }
+
+    /**
+     * Get the element the audio is connected to
+     * 
+     * @returns The audio recorder of a split recording, the PassThrough of a recording
+     * with additional outputs, otherwise the recorder
+     */
+    private getAudioSink(): any {
+        return this.audioRecorderEndpoint || this.fanOut || this.recorderEndpoint;
+    }
+
+    /**
+     * Get the recorders writing the recording
+     * 
+     * @returns The recorder, followed by the audio recorder of a split recording
+     * and the recorders of the additional outputs
+     */
+    private getRecorders(): RecorderEndpoint[] {
+        return [this.recorderEndpoint, this.audioRecorderEndpoint, ...this.outputRecorders]
+            .filter((recorder): recorder is RecorderEndpoint => recorder !== null);
+    }
+
+    /**
+     * Get the pipeline registry ID of the recorder of an additional output
+     * 
+     * @param index Position of the output
+     * @returns Registry ID
+     */
+    private getOutputRecorderId(index: number): string {
+        return `recorder:output${index + 1}`;
+    }
+
+    /**
+     * Apply the bitrate range of a quality preset to the encoder of an additional output
+     * It only takes effect when the output's profile makes the recorder transcode
+     * 
+     * @param recorder Recorder of the output
+     * @param quality Quality preset
+     */
+    private async setOutputQuality(recorder: RecorderEndpoint, quality: RecordingQuality): Promise<void> {
+        const { minBitrate, maxBitrate } = DEFAULT_QUALITY_SETTINGS[quality];
+
+        await recorder.setMinEncoderBitrate(minBitrate * 1000);
+        await recorder.setMaxEncoderBitrate(maxBitrate * 1000);
+    }
+
+    /**
+     * Get the element the WebRTC video or the blank screen is connected to
+     * 
+     * @returns The overlay if there is one, otherwise the PassThrough of a recording
+     * with additional outputs, otherwise the recorder
+     */
+    private getVideoSink(): any {
+        return this.overlay || this.fanOut || this.recorderEndpoint;
+    }
+
     /**
      * Get recording state
      * 
@@ -187,7 +881,7 @@ export class EndpointManager {
             // Stop recording if active
             if (this.isRecording && this.recorderEndpoint) {
                 try {
-                    await this.recorderEndpoint.stop();
+                    await Promise.all(this.getRecorders().map(recorder => recorder.stop()));
                     this.isRecording = false;
                 } catch (error: any) {
                     this.logger.warn('Error stopping recording during release', { error });
@@ -204,6 +898,55 @@ export class EndpointManager {
                 }
             }
 
+            // Release the audio recorder of a split recording
+            if (this.audioRecorderEndpoint) {
+                try {
+                    await this.audioRecorderEndpoint.release();
+                    this.audioRecorderEndpoint = null;
+                } catch (error: any) {
+                    this.logger.warn('Error releasing audio recorder endpoint', { error });
+                }
+            }
+
+            // Release the recorders of the additional outputs and their PassThrough
+            for (const recorder of this.outputRecorders) {
+                try {
+                    await recorder.release();
+                } catch (error: any) {
+                    this.logger.warn('Error releasing output recorder endpoint', { error });
+                }
+            }
+            this.outputRecorders = [];
+
+            if (this.fanOut) {
+                try {
+                    await this.fanOut.release();
+                    this.fanOut = null;
+                } catch (error: any) {
+                    this.logger.warn('Error releasing output PassThrough', { error });
+                }
+            }
+
+            // Release media filters
+            for (const { spec, element } of this.filters) {
+                try {
+                    await element.release();
+                } catch (error: any) {
+                    this.logger.warn('Error releasing media filter', { error, filterId: spec.id });
+                }
+            }
+            this.filters = [];
+
+            // Release image overlay
+            if (this.overlay) {
+                try {
+                    await this.overlay.release();
+                    this.overlay = null;
+                } catch (error: any) {
+                    this.logger.warn('Error releasing image overlay', { error });
+                }
+            }
+
             // Release WebRTC endpoint
             if (this.webRtcEndpoint) {
                 try {
@@ -214,6 +957,16 @@ export class EndpointManager {
                 }
             }
 
+            // Release Player endpoint
+            if (this.playerEndpoint) {
+                try {
+                    await this.playerEndpoint.release();
+                    this.playerEndpoint = null;
+                } catch (error: any) {
+                    this.logger.warn('Error releasing player endpoint', { error });
+                }
+            }
+
             this.logger.info('All endpoints released');
         } catch (error: any) {
             this.logger.error('Error releasing endpoints', { error });
@@ -231,7 +984,7 @@ export class EndpointManager {
      * @param recordingMode Recording mode
      */
     private async connectEndpoints(recordingMode: RecordingMode): Promise<void> {
-        if (!this.webRtcEndpoint || !this.recorderEndpoint) {
+        if (!this.getInputEndpoint() || !this.recorderEndpoint) {
             throw new MediaError(
                 'Endpoints not created, cannot connect',
                 ErrorCode.ENDPOINT_CREATION_FAILED
@@ -241,30 +994,32 @@ export class EndpointManager {
         this.logger.debug(`Connecting endpoints for ${recordingMode} mode`);
 
         try {
-            switch (recordingMode) {
-                case RecordingMode.AUDIO_VIDEO:
-                    // Connect both audio and video
-                    await this.pipeline.connect(this.webRtcEndpoint, this.recorderEndpoint);
-                    this.logger.debug('Connected WebRTC to Recorder for audio+video');
-                    break;
-
-                case RecordingMode.AUDIO_ONLY:
-                    // Connect only audio
-                    await this.pipeline.connect(this.webRtcEndpoint, this.recorderEndpoint, 'AUDIO');
-                    this.logger.debug('Connected WebRTC to Recorder for audio-only');
-                    break;
-
-                case RecordingMode.VIDEO_ONLY:
-                    // Connect only video
-                    await this.pipeline.connect(this.webRtcEndpoint, this.recorderEndpoint, 'VIDEO');
-                    this.logger.debug('Connected WebRTC to Recorder for video-only');
-                    break;
-
-                default:
-                    this.logger.warn(`Unknown recording mode: ${recordingMode}`);
-                    // Fall back to connecting both
-                    await this.pipeline.connect(this.webRtcEndpoint, this.recorderEndpoint);
+            // Chain the filters of each media type behind the input endpoint
+            for (const mediaType of ['AUDIO', 'VIDEO'] as const) {
+                let source: any = this.getInputEndpoint();
+                for (const { spec, element } of this.filters) {
+                    if (spec.mediaType === mediaType) {
+                        await this.pipeline.connect(source, element, mediaType);
+                        source = element;
+                    }
+                }
+            }
+
+            // The overlay sits between the WebRTC video and the recorder
+            if (this.overlay) {
+                await this.pipeline.connect(this.getMediaSource('VIDEO'), this.overlay, 'VIDEO');
+            }
+
+            // Every recorder takes the whole media from the PassThrough
+            if (this.fanOut) {
+                for (const recorder of [this.recorderEndpoint, ...this.outputRecorders]) {
+                    await this.pipeline.connect(this.fanOut, recorder);
+                }
             }
+
+            // Unknown modes connect both audio and video
+            await this.connectSources(this.fanOut || this.recorderEndpoint, this.getAudioSink());
+            this.logger.debug(`Connected WebRTC to Recorder for ${recordingMode}`, { overlay: !!this.overlay });
         } catch (error: any) {
             this.logger.error('Error connecting endpoints', { error });
             throw new MediaError(
@@ -309,19 +1064,51 @@ export class EndpointManager {
         return webRtcOptions;
     }
 
+    /**
+     * Prepare Player endpoint options from the source options
+     * 
+     * @param source Normalized player source
+     * @returns Player endpoint options
+     */
+    private preparePlayerOptions(source: SourceOptions): PlayerEndpointOptions {
+        const playerOptions: PlayerEndpointOptions = { uri: source.uri! };
+
+        if (source.useEncodedMedia) {
+            playerOptions.useEncodedMedia = true;
+        }
+
+        if (source.networkCache !== undefined) {
+            playerOptions.networkCache = source.networkCache;
+        }
+
+        return playerOptions;
+    }
+
     /**
      * Prepare Recorder endpoint options based on recording mode
+     * A split recording writes each media type to its own file and profile
      * 
      * @param options Endpoint creation options
+     * @param mediaType Media type the recorder writes in a split recording
      * @returns Recorder endpoint options
      */
-    private prepareRecorderOptions(options: EndpointCreationOptions): RecorderEndpointOptions {
+    private prepareRecorderOptions(
+        options: EndpointCreationOptions,
+        mediaType: 'AUDIO' | 'VIDEO' = 'VIDEO'
+    ): RecorderEndpointOptions {
+        let { filePath, mediaProfile } = options;
+
+        if (options.recordingMode === RecordingMode.SPLIT_AUDIO_VIDEO) {
+            const [audio, video] = getSplitOutputs(filePath, mediaProfile);
+            ({ path: filePath, mediaProfile } = mediaType === 'AUDIO' ? audio : video);
+        }
+
         // Ensure the file URI is in the correct format for Kurento
-        const uri = this.createFileUri(options.filePath);
+        const uri = this.createFileUri(filePath);
 
         const recorderOptions: RecorderEndpointOptions = {
             uri,
-            mediaProfile: options.mediaProfile,
+            mediaProfile,
             ...DEFAULT_RECORDER_OPTIONS,
             ...options.recorderOptions
         };
@@ -329,6 +1116,55 @@ export class EndpointManager {
         return recorderOptions;
     }
 
+    /**
+     * Compute the overlay geometry in pixels of the expected video frame
+     * The image height follows its aspect ratio when the file can be read locally,
+     * otherwise a square box is used
+     * 
+     * @param options Endpoint creation options
+     * @param overlay Overlay options
+     * @returns Overlay element options
+     */
+    private async prepareOverlayOptions(
+        options: EndpointCreationOptions,
+        overlayOptions: OverlayOptions
+    ): Promise<OverlayElementOptions> {
+        const overlay = { ...DEFAULT_OVERLAY_OPTIONS, ...overlayOptions };
+        const { width: frameWidth, height: frameHeight } = options;
+        const imageSize = isUrl(overlay.imagePath) ? null : await readImageSize(overlay.imagePath);
+
+        if (!imageSize) {
+            this.logger.debug('Overlay image size unknown, using a square box', { imagePath: overlay.imagePath });
+        }
+
+        const width = frameWidth * overlay.scale;
+        const height = imageSize ? width * imageSize.height / imageSize.width : width;
+        const marginX = frameWidth * overlay.margin;
+        const marginY = frameHeight * overlay.margin;
+
+        const left = overlay.position === OverlayPosition.TOP_LEFT || overlay.position === OverlayPosition.BOTTOM_LEFT;
+        const top = overlay.position === OverlayPosition.TOP_LEFT || overlay.position === OverlayPosition.TOP_RIGHT;
+
+        let x = left ? marginX : frameWidth - width - marginX;
+        let y = top ? marginY : frameHeight - height - marginY;
+
+        if (overlay.position === OverlayPosition.CENTER) {
+            x = (frameWidth - width) / 2;
+            y = (frameHeight - height) / 2;
+        }
+
+        return {
+            location: overlay.imagePath,
+            x: Math.max(0, x),
+            y: Math.max(0, y),
+            width,
+            height,
+            frameWidth,
+            frameHeight,
+            opacity: overlay.opacity
+        };
+    }
+
     /**
      * Create a file URI from a file path
      * 
@@ -336,17 +1172,8 @@ export class EndpointManager {
      * @returns File URI
      */
     private createFileUri(filePath: string): string {
-        // Normalize path and convert to Kurento URI format
-        const normalizedPath = path.normalize(filePath);
-
-        // If path is absolute, convert it to a file URI
-        if (path.isAbsolute(normalizedPath)) {
-            // Format: file:///path/to/file
-            return `file://${normalizedPath.replace(/\\/g, '/')}`;
-        }
-
-        // For relative paths, assume they're relative to the Kurento server's location
-        return normalizedPath.replace(/\\/g, '/');
+        // Relative paths are resolved on the Kurento server
+        return toMediaUri(filePath);
     }
 
     /**
@@ -358,6 +1185,24 @@ export class EndpointManager {
         return this.webRtcEndpoint;
     }
 
+    /**
+     * Get the Player endpoint
+     * 
+     * @returns Player endpoint or null
+     */
+    getPlayerEndpoint(): PlayerEndpoint | null {
+        return this.playerEndpoint;
+    }
+
+    /**
+     * Get the endpoint the session's media comes from
+     * 
+     * @returns The WebRTC or Player endpoint, or null before the endpoints were created
+     */
+    getInputEndpoint(): WebRtcEndpoint | PlayerEndpoint | null {
+        return this.webRtcEndpoint || this.playerEndpoint;
+    }
+
     /**
      * Get the Recorder endpoint
      * 
@@ -367,6 +1212,24 @@ export class EndpointManager {
         return this.recorderEndpoint;
     }
 
+    /**
+     * Get the Kurento IDs of the endpoints
+     *
+     * @returns Endpoint IDs (undefined for endpoints not created yet)
+     */
+    getEndpointIds(): EndpointIds {
+        return {
+            webRtcEndpointId: this.webRtcEndpoint?.id,
+            playerEndpointId: this.playerEndpoint?.id,
+            recorderEndpointId: this.recorderEndpoint?.id,
+            audioRecorderEndpointId: this.audioRecorderEndpoint?.id,
+            fanOutId: this.fanOut?.id,
+            outputRecorderEndpointIds: this.outputRecorders.map(recorder => recorder.id),
+            overlayId: this.overlay?.id,
+            filterIds: Object.fromEntries(this.filters.map(({ spec, element }) => [spec.id!, element.id]))
+        };
+    }
+
     /**
      * Check if recording is active
      * 
@@ -377,13 +1240,33 @@ export class EndpointManager {
     }
 
     /**
-     * Connect a blank screen element to the recorder
-     * Used during paused recording to show a blank screen
+     * Check if the recorder is paused
+     * 
+     * @returns true if paused, false otherwise
+     */
+    isRecordingPaused(): boolean {
+        return this.isPaused;
+    }
+
+    /**
+     * Check if the audio link to the recorder is disconnected
+     * 
+     * @returns true if muted, false otherwise
+     */
+    isAudioMuted(): boolean {
+        return this.audioMuted;
+    }
+
+    /**
+     * Connect a blank screen slate to the recorder
+     * Used during paused recording to show a blank screen; the slate is rendered
+     * from the WebRTC video, which is routed through it instead of to the recorder.
+     * The slate feeds the overlay, so the overlay stays on the recorded video
      * 
-     * @param blankElement The blank screen element to connect
+     * @param slate The slate elements to connect
      * @returns Promise resolving when connected
      */
-    async connectBlankScreen(blankElement: any): Promise<void> {
+    async connectBlankScreen(slate: SlateElements): Promise<void> {
         if (!this.recorderEndpoint) {
             throw new MediaError(
                 'Recorder endpoint not created',
@@ -394,21 +1277,20 @@ export class EndpointManager {
         try {
             this.logger.info('Connecting blank screen to recorder');
 
-            // Store the blank screen element for later use
-            this.blankScreenElement = blankElement;
+            // Store the blank screen for later use
+            this.blankScreen = slate;
 
             // Disconnect current source if connected (for video only)
-            if (this.webRtcEndpoint) {
+            if (this.getInputEndpoint()) {
                 try {
                     // We need to disconnect only if we're recording video
-                    if (this.recordingMode === RecordingMode.AUDIO_VIDEO ||
-                        this.recordingMode === RecordingMode.VIDEO_ONLY) {
+                    if (this.recordingMode !== RecordingMode.AUDIO_ONLY) {
                         this.logger.debug('Disconnecting WebRTC video from recorder');
 
                         // Disconnect the video connection between webRTC and recorder
                         await this.disconnectEndpoints(
-                            this.webRtcEndpoint,
-                            this.recorderEndpoint,
+                            this.getMediaSource('VIDEO'),
+                            this.getVideoSink(),
                             'VIDEO'
                         );
                     }
@@ -418,9 +1300,12 @@ export class EndpointManager {
                 }
             }
 
-            // Connect the blank screen element to recorder (video only)
+            // Feed the slate and connect it to recorder (video only)
             this.logger.debug('Connecting blank screen element to recorder');
-            await this.pipeline.connect(this.blankScreenElement, this.recorderEndpoint, 'VIDEO');
+            if (this.getInputEndpoint()) {
+                await this.pipeline.connect(this.getMediaSource('VIDEO'), slate.input, 'VIDEO');
+            }
+            await this.pipeline.connect(slate.output, this.getVideoSink(), 'VIDEO');
 
             this.logger.info('Blank screen connected to recorder successfully');
         } catch (error: any) {
@@ -433,13 +1318,23 @@ export class EndpointManager {
         }
     }
 
+    /**
+     * Take over a blank screen that is still connected on the server
+     * Used to recover sessions that were paused when this process restarted
+     * 
+     * @param slate The attached slate elements
+     */
+    attachBlankScreen(slate: SlateElements): void {
+        this.blankScreen = slate;
+    }
+
     /**
      * Disconnect the blank screen and reconnect original source
      * 
      * @returns Promise resolving when reconnected
      */
     async disconnectBlankScreen(): Promise<void> {
-        if (!this.recorderEndpoint || !this.webRtcEndpoint) {
+        if (!this.recorderEndpoint || !this.getInputEndpoint()) {
             throw new MediaError(
                 'Endpoints not created, cannot disconnect blank screen',
                 ErrorCode.MEDIA_CONNECTION_ERROR
@@ -450,23 +1345,28 @@ export class EndpointManager {
             this.logger.info('Disconnecting blank screen from recorder');
 
             // Disconnect blank screen if connected
-            if (this.blankScreenElement) {
+            if (this.blankScreen) {
                 try {
                     await this.disconnectEndpoints(
-                        this.blankScreenElement,
-                        this.recorderEndpoint,
+                        this.blankScreen.output,
+                        this.getVideoSink(),
+                        'VIDEO'
+                    );
+                    await this.disconnectEndpoints(
+                        this.getMediaSource('VIDEO'),
+                        this.blankScreen.input,
                         'VIDEO'
                     );
                 } catch (error) {
                     this.logger.warn('Error disconnecting blank screen', { error });
                     // Continue anyway
                 }
+                this.blankScreen = null;
             }
 
             // Reconnect original source based on recording mode
-            if (this.recordingMode === RecordingMode.AUDIO_VIDEO ||
-                this.recordingMode === RecordingMode.VIDEO_ONLY) {
-                await this.pipeline.connect(this.webRtcEndpoint, this.recorderEndpoint, 'VIDEO');
+            if (this.recordingMode !== RecordingMode.AUDIO_ONLY) {
+                await this.pipeline.connect(this.getMediaSource('VIDEO'), this.getVideoSink(), 'VIDEO');
             }
 
             this.logger.info('Original source reconnected to recorder');
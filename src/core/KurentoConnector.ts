@@ -23,6 +23,13 @@ export enum KurentoConnectorEvent {
     ERROR = 'error'
 }
 
+/**
+ * Client events the connector listens to, missing from the kurento-client typings
+ */
+interface KurentoClientEmitter {
+    on?(event: string, listener: (...args: unknown[]) => void): void;
+}
+
 /**
  * Class responsible for managing the connection to Kurento Media Server
  */
@@ -92,6 +99,7 @@ export class KurentoConnector extends EventEmitter {
             this.client = await kurento.getSingleton(this.options.kurentoUrl, this.options.kurentoOptions);
             this.isConnecting = false;
             this.reconnectAttempts = 0;
+            this.watchClient(this.client);
 
             this.logger.info('Connected to Kurento Media Server');
             this.emit('connected');
@@ -132,9 +140,12 @@ export class KurentoConnector extends EventEmitter {
 
         try {
             this.logger.info('Disconnecting from Kurento Media Server');
-            // Close the connection
-            await this.client.close();
+            // Drop the reference first so the close is not treated as a connection loss
+            const client = this.client;
             this.client = null;
+
+            // Close the connection
+            await client.close();
             this.emit('disconnected');
             this.logger.info('Disconnected from Kurento Media Server');
         } catch (error) {
@@ -151,6 +162,34 @@ export class KurentoConnector extends EventEmitter {
         }
     }
 
+    /**
+     * Watch a client for an unexpected loss of the control connection
+     * 
+     * @param client Kurento client instance
+     */
+    private watchClient(client: kurento.ClientInstance): void {
+        const emitter = client as unknown as KurentoClientEmitter;
+        if (!emitter.on) {
+            return;
+        }
+
+        emitter.on('disconnect', () => {
+            // Ignore clients we already replaced or closed on purpose
+            if (this.client !== client) {
+                return;
+            }
+
+            this.logger.warn('Connection to Kurento Media Server lost');
+            this.client = null;
+            this.emit('disconnected');
+
+            if (this.options.reconnect && this.reconnectAttempts < this.options.reconnectAttempts!) {
+                this.emit('reconnecting');
+                this.scheduleReconnect();
+            }
+        });
+    }
+
     /**
      * Schedule a reconnection attempt
      */
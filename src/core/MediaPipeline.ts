@@ -5,13 +5,20 @@
 import * as kurento from 'kurento-client';
 import { MediaError } from '../errors';
 import { ErrorCode } from '../constants';
-import { Logger } from '../utils';
+import { Logger, isUrl, describeIceConfig } from '../utils';
 import {
     MediaPipelineOptions,
+    KurentoIceConfig,
     WebRtcEndpoint,
     RecorderEndpoint,
+    PlayerEndpoint,
     WebRtcEndpointOptions,
-    RecorderEndpointOptions
+    RecorderEndpointOptions,
+    PlayerEndpointOptions,
+    SlateElementOptions,
+    SlateElements,
+    SlateElementIds,
+    OverlayElementOptions
 } from '../types';
 
 /**
@@ -31,16 +38,19 @@ export class MediaPipeline {
     private pipeline: kurento.MediaPipeline | null = null;
     private elements: Map<string, any> = new Map();
     private isReleased: boolean = false;
+    private iceConfig: KurentoIceConfig;
 
     /**
      * Create a new MediaPipeline
      * 
      * @param kurentoClient Kurento client instance
      * @param logger Logger instance
+     * @param iceConfig STUN/TURN settings applied to every WebRTC endpoint of the pipeline
      */
-    constructor(kurentoClient: kurento.ClientInstance, logger: Logger) {
+    constructor(kurentoClient: kurento.ClientInstance, logger: Logger, iceConfig: KurentoIceConfig = {}) {
         this.kurentoClient = kurentoClient;
         this.logger = logger;
+        this.iceConfig = iceConfig;
     }
 
     /**
@@ -66,6 +76,94 @@ export class MediaPipeline {
         }
     }
 
+    /**
+     * Attach to an existing media pipeline on the Kurento server
+     * Used to recover sessions whose pipeline outlived this process
+     * 
+     * @param pipelineId Kurento ID of the pipeline
+     */
+    async attach(pipelineId: string): Promise<void> {
+        if (this.pipeline) {
+            this.logger.debug('Pipeline already initialized');
+            return;
+        }
+
+        try {
+            this.logger.debug('Attaching to existing media pipeline', { pipelineId });
+            this.pipeline = await this.kurentoClient.getMediaobjectById(pipelineId) as unknown as kurento.MediaPipeline;
+            this.isReleased = false;
+            this.logger.info('Attached to existing media pipeline', { pipelineId });
+        } catch (error: any) {
+            this.logger.warn('Media pipeline not found on server', { error, pipelineId });
+            throw new MediaError(`Failed to attach to media pipeline: ${error.message}`, ErrorCode.PIPELINE_NOT_READY, error);
+        }
+    }
+
+    /**
+     * Re-bind the pipeline and its registered elements to a new Kurento client
+     * Used after the control connection to Kurento was re-established; elements
+     * that no longer exist on the server are dropped from the registry
+     * 
+     * @param kurentoClient New Kurento client instance
+     */
+    async rebind(kurentoClient: kurento.ClientInstance): Promise<void> {
+        if (!this.pipeline || this.isReleased) {
+            throw new MediaError(
+                'Pipeline is not initialized or has been released',
+                ErrorCode.MEDIA_PIPELINE_ERROR
+            );
+        }
+
+        const pipelineId = this.pipeline.id;
+
+        try {
+            this.logger.debug('Re-binding media pipeline to new client', { pipelineId });
+            this.kurentoClient = kurentoClient;
+            this.pipeline = await kurentoClient.getMediaobjectById(pipelineId) as unknown as kurento.MediaPipeline;
+        } catch (error: any) {
+            this.logger.warn('Media pipeline no longer exists on server', { error, pipelineId });
+            throw new MediaError(`Failed to re-bind media pipeline: ${error.message}`, ErrorCode.PIPELINE_NOT_READY, error);
+        }
+
+        for (const [id, element] of [...this.elements.entries()]) {
+            try {
+                this.elements.set(id, await kurentoClient.getMediaobjectById(element.id));
+            } catch (error) {
+                this.logger.warn(`Element ${id} no longer exists on server`, { error, elementId: element.id });
+                this.elements.delete(id);
+            }
+        }
+
+        this.logger.info('Media pipeline re-bound to new client', {
+            pipelineId,
+            elementCount: this.elements.size
+        });
+    }
+
+    /**
+     * Look up a media element of this pipeline by its Kurento ID
+     * 
+     * @param elementId Kurento ID of the element
+     * @param id Optional identifier for the element
+     * @returns The element
+     */
+    async getMediaObject<T = any>(elementId: string, id?: string): Promise<T> {
+        this.ensurePipeline();
+
+        try {
+            const element = await this.kurentoClient.getMediaobjectById(elementId) as unknown as T;
+
+            if (id) {
+                this.elements.set(id, element);
+            }
+
+            return element;
+        } catch (error: any) {
+            this.logger.warn('Media element not found on server', { error, elementId });
+            throw new MediaError(`Failed to find media element ${elementId}: ${error.message}`, ErrorCode.ENDPOINT_NOT_READY, error);
+        }
+    }
+
     /**
      * Create a WebRTC endpoint in the pipeline
      * 
@@ -81,7 +179,8 @@ export class MediaPipeline {
 
         try {
             this.logger.debug('Creating WebRTC endpoint', { options });
-            const endpoint = await this.pipeline!.create('WebRtcEndpoint', options as any) as WebRtcEndpoint;
+            const endpoint = await this.pipeline!.create('WebRtcEndpoint', options as any) as unknown as WebRtcEndpoint;
+            await this.applyIceConfig(endpoint);
 
             if (id) {
                 this.elements.set(id, endpoint);
@@ -94,6 +193,29 @@ export class MediaPipeline {
         }
     }
 
+    /**
+     * Apply the STUN/TURN settings of the pipeline to a WebRTC endpoint
+     * Kurento falls back to the server defaults (WebRtcEndpoint.conf.ini) for unset values
+     * 
+     * @param endpoint WebRTC endpoint
+     */
+    private async applyIceConfig(endpoint: WebRtcEndpoint): Promise<void> {
+        const { stunServerAddress, stunServerPort, turnUrl } = this.iceConfig;
+
+        if (stunServerAddress) {
+            await endpoint.setStunServerAddress(stunServerAddress);
+            await endpoint.setStunServerPort(stunServerPort!);
+        }
+
+        if (turnUrl) {
+            await endpoint.setTurnUrl(turnUrl);
+        }
+
+        if (stunServerAddress || turnUrl) {
+            this.logger.debug('ICE servers applied to WebRTC endpoint', describeIceConfig(this.iceConfig));
+        }
+    }
+
     /**
      * Create a Recorder endpoint in the pipeline
      * 
@@ -122,6 +244,34 @@ export class MediaPipeline {
         }
     }
 
+    /**
+     * Create a Player endpoint in the pipeline
+     * 
+     * @param options Player endpoint options
+     * @param id Optional identifier for the endpoint
+     * @returns The created Player endpoint
+     */
+    async createPlayerEndpoint(
+        options: PlayerEndpointOptions,
+        id?: string
+    ): Promise<PlayerEndpoint> {
+        this.ensurePipeline();
+
+        try {
+            this.logger.debug('Creating Player endpoint', { options });
+            const endpoint = await this.pipeline!.create('PlayerEndpoint', options as any) as unknown as PlayerEndpoint;
+
+            if (id) {
+                this.elements.set(id, endpoint);
+            }
+
+            return endpoint;
+        } catch (error: any) {
+            this.logger.error('Error creating player endpoint', { error, options });
+            throw new MediaError(`Failed to create player endpoint: ${error.message}`, ErrorCode.ENDPOINT_CREATION_FAILED, error);
+        }
+    }
+
     /**
      * Connect two elements in the pipeline
      * 
@@ -163,6 +313,25 @@ export class MediaPipeline {
         return this.elements.get(id);
     }
 
+    /**
+     * Register an existing element under an ID, replacing any previous one
+     * 
+     * @param id Element ID
+     * @param element Element
+     */
+    registerElement(id: string, element: any): void {
+        this.elements.set(id, element);
+    }
+
+    /**
+     * Remove an element from the registry (does not release it)
+     * 
+     * @param id Element ID
+     */
+    removeElement(id: string): void {
+        this.elements.delete(id);
+    }
+
     /**
      * Release the pipeline and all its elements
      */
@@ -249,42 +418,216 @@ export class MediaPipeline {
     }
 
     /**
-     * Create a blank video element (for pause screen)
+     * Create a pause slate chain
+     * Kurento has no standalone video source, so the slate is rendered from the
+     * incoming video: it is scaled to the output size and blanked, then the
+     * images and text are drawn over it
      * 
-     * @param color Color of the blank screen (e.g., "black", "#0000FF" for blue, "rgb(0,0,255)" etc)
-     * @returns The created element
+     * @param options Slate options
+     * @param id Identifier of the slate; its elements are registered under id, id:image and id:text
+     * @returns The input and output elements of the chain
      */
-    async createBlankVideoElement(color: string = 'black'): Promise<any> {
+    async createSlate(options: SlateElementOptions, id: string): Promise<SlateElements> {
         if (!this.pipeline) {
             throw new MediaError('Pipeline not initialized', ErrorCode.PIPELINE_NOT_READY);
         }
 
+        const created: any[] = [];
+
         try {
-            // Create a simple passthrough element
-            this.logger.debug('Creating blank video element', { color });
-
-            // In Kurento, we'll use a PassThrough element 
-            // This is a simpler approach than FaceOverlayFilter which has compatibility issues
-            const colorElement = await this.pipeline.create('PassThrough');
-
-            // Log the chosen color (we can't actually change the color with PassThrough,
-            // but in a production implementation you would use a custom filter)
-            this.logger.debug('Blank video element created with color passthrough', {
-                elementId: colorElement.id,
-                intendedColor: color
-            });
+            this.logger.debug('Creating pause slate', { ...options });
+
+            const blank = await this.pipeline.create('GStreamerFilter', {
+                command: `videoscale ! video/x-raw,width=${options.width},height=${options.height} ` +
+                    '! videobalance saturation=0 contrast=0 brightness=-1',
+                filterType: 'VIDEO'
+            } as any);
+            created.push(blank);
+            this.elements.set(id, blank);
+            let output: any = blank;
+
+            if (options.images.length > 0) {
+                const overlay: any = await this.pipeline.create('ImageOverlayFilter');
+                created.push(overlay);
+                this.elements.set(`${id}:image`, overlay);
+
+                for (const [index, image] of options.images.entries()) {
+                    const contain = image.fit === 'contain';
+                    await overlay.addImage(`slate-${index}`, image.uri, 0, 0, 1, 1, contain, contain);
+                }
+
+                await output.connect(overlay, 'VIDEO');
+                output = overlay;
+            }
+
+            if (options.text) {
+                const text = await this.pipeline.create('GStreamerFilter', {
+                    command: `textoverlay text="${options.text.replace(/["\\]/g, '')}" ` +
+                        'valignment=center halignment=center font-desc="Sans 36"',
+                    filterType: 'VIDEO'
+                } as any);
+                created.push(text);
+                this.elements.set(`${id}:text`, text);
+
+                await output.connect(text, 'VIDEO');
+                output = text;
+            }
 
-            return colorElement;
+            this.logger.debug('Pause slate created', { elementCount: created.length });
+            return { input: blank, output };
         } catch (error: any) {
-            this.logger.error('Error creating blank video element', { error, color });
+            this.logger.error('Error creating pause slate', { error });
+
+            [id, `${id}:image`, `${id}:text`].forEach(elementId => this.elements.delete(elementId));
+            await Promise.all(created.map(element => element.release().catch(() => undefined)));
+
             throw new MediaError(
-                `Failed to create blank video element: ${error.message}`,
+                `Failed to create pause slate: ${error.message}`,
                 ErrorCode.ELEMENT_CREATION_FAILED,
                 error
             );
         }
     }
 
+    /**
+     * Create an image overlay element
+     * Images on the Kurento server are drawn with gdkpixbufoverlay, which supports
+     * opacity; URLs are downloaded and drawn by ImageOverlayFilter
+     * 
+     * @param options Overlay options
+     * @param id Optional identifier for the element
+     * @returns The overlay element
+     */
+    async createOverlay(options: OverlayElementOptions, id?: string): Promise<any> {
+        if (!this.pipeline) {
+            throw new MediaError('Pipeline not initialized', ErrorCode.PIPELINE_NOT_READY);
+        }
+
+        let overlay: any = null;
+
+        try {
+            this.logger.debug('Creating image overlay', { ...options });
+
+            if (isUrl(options.location)) {
+                overlay = await this.pipeline.create('ImageOverlayFilter');
+                await overlay.addImage(
+                    'overlay',
+                    options.location,
+                    options.x / options.frameWidth,
+                    options.y / options.frameHeight,
+                    options.width / options.frameWidth,
+                    options.height / options.frameHeight,
+                    true,
+                    true
+                );
+            } else {
+                overlay = await this.pipeline.create('GStreamerFilter', {
+                    command: `gdkpixbufoverlay location="${options.location.replace(/["\\]/g, '')}" ` +
+                        `offset-x=${Math.round(options.x)} offset-y=${Math.round(options.y)} ` +
+                        `overlay-width=${Math.round(options.width)} overlay-height=${Math.round(options.height)} ` +
+                        `alpha=${options.opacity}`,
+                    filterType: 'VIDEO'
+                } as any);
+            }
+
+            if (id) {
+                this.elements.set(id, overlay);
+            }
+
+            return overlay;
+        } catch (error: any) {
+            this.logger.error('Error creating image overlay', { error });
+
+            if (overlay) {
+                await overlay.release().catch(() => undefined);
+            }
+
+            throw new MediaError(
+                `Failed to create image overlay: ${error.message}`,
+                ErrorCode.ELEMENT_CREATION_FAILED,
+                error
+            );
+        }
+    }
+
+    /**
+     * Get a registered pause slate chain
+     * 
+     * @param id Identifier of the slate
+     * @returns The input and output elements, or null if not registered
+     */
+    getSlate(id: string): SlateElements | null {
+        const input = this.elements.get(id);
+        if (!input) {
+            return null;
+        }
+
+        return {
+            input,
+            output: this.elements.get(`${id}:text`) || this.elements.get(`${id}:image`) || input
+        };
+    }
+
+    /**
+     * Get the Kurento IDs of a registered pause slate chain
+     * 
+     * @param id Identifier of the slate
+     * @returns The element IDs, or undefined if not registered
+     */
+    getSlateIds(id: string): SlateElementIds | undefined {
+        const input = this.elements.get(id);
+        if (!input) {
+            return undefined;
+        }
+
+        return {
+            inputId: input.id,
+            imageId: this.elements.get(`${id}:image`)?.id,
+            textId: this.elements.get(`${id}:text`)?.id
+        };
+    }
+
+    /**
+     * Register a pause slate chain that already exists on the Kurento server
+     * Used to recover sessions that were paused when this process restarted
+     * 
+     * @param ids Kurento IDs of the slate elements
+     * @param id Identifier of the slate
+     * @returns The input and output elements
+     */
+    async attachSlate(ids: SlateElementIds, id: string): Promise<SlateElements> {
+        await this.getMediaObject(ids.inputId, id);
+
+        if (ids.imageId) {
+            await this.getMediaObject(ids.imageId, `${id}:image`);
+        }
+
+        if (ids.textId) {
+            await this.getMediaObject(ids.textId, `${id}:text`);
+        }
+
+        return this.getSlate(id)!;
+    }
+
+    /**
+     * Release a pause slate chain and unregister its elements
+     * 
+     * @param id Identifier of the slate
+     */
+    async releaseSlate(id: string): Promise<void> {
+        for (const elementId of [`${id}:text`, `${id}:image`, id]) {
+            const element = this.elements.get(elementId);
+            if (!element) continue;
+
+            this.elements.delete(elementId);
+            try {
+                await element.release();
+            } catch (error: any) {
+                this.logger.warn('Error releasing pause slate element', { error, elementId });
+            }
+        }
+    }
+
     /**
      * Get the pipeline instance
      * 
@@ -293,4 +636,13 @@ export class MediaPipeline {
     getPipeline(): any {
         return this.pipeline;
     }
+
+    /**
+     * Get the Kurento ID of the pipeline
+     * 
+     * @returns Pipeline ID or null if not initialized
+     */
+    getId(): string | null {
+        return this.pipeline ? this.pipeline.id : null;
+    }
 } 
\ No newline at end of file
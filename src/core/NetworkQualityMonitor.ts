@@ -0,0 +1,252 @@
+/**
+ * NetworkQualityMonitor: Rates the network quality of a session's WebRTC ingest
+ */
+
+import { TypedEventEmitter } from '../events';
+import { Logger } from '../utils';
+import {
+    NETWORK_QUALITY_THRESHOLDS,
+    POOR_NETWORK_QUALITY_RATING,
+    MAX_WORST_QUALITY_PERIODS
+} from '../constants';
+import { NetworkQualityEvent, NetworkQualityPeriod, NetworkQualitySummary, WebRTCStats } from '../types';
+import { WebRTCHandler } from './WebRTCHandler';
+
+/**
+ * Events emitted by NetworkQualityMonitor
+ */
+export interface NetworkQualityMonitorEvents {
+    'network-quality': NetworkQualityEvent;
+}
+
+/**
+ * Period of poor quality that is still going on
+ */
+interface OpenQualityPeriod extends NetworkQualityPeriod {
+    samples: number;
+    packetLossSum: number;
+}
+
+/**
+ * Rate a measurement against the thresholds of the ratings 5 to 2
+ *
+ * @param value Measured value
+ * @param thresholds Upper bounds of the ratings 5, 4, 3 and 2
+ * @returns Rating from 1 to 5
+ */
+function rate(value: number, thresholds: number[]): number {
+    const index = thresholds.findIndex(threshold => value < threshold);
+    return index === -1 ? 1 : 5 - index;
+}
+
+/**
+ * Rate the network quality of a stats measurement
+ * The rating is the worst of the packet loss, jitter and round-trip time ratings
+ *
+ * @param stats Stats measurement
+ * @returns Quality rating from 1 to 5, where 5 is best
+ */
+export function rateNetworkQuality(stats: WebRTCStats): number {
+    const ratings = [rate(stats.packetLoss ?? 0, NETWORK_QUALITY_THRESHOLDS.packetLoss)];
+
+    if (stats.jitter !== undefined) {
+        ratings.push(rate(stats.jitter, NETWORK_QUALITY_THRESHOLDS.jitter));
+    }
+
+    if (stats.rtt !== undefined) {
+        ratings.push(rate(stats.rtt, NETWORK_QUALITY_THRESHOLDS.rtt));
+    }
+
+    return Math.min(...ratings);
+}
+
+/**
+ * Polls the stats of a WebRTC endpoint, emits a rated measurement at every
+ * poll and keeps the totals for the end-of-session summary
+ */
+export class NetworkQualityMonitor extends TypedEventEmitter<NetworkQualityMonitorEvents> {
+    private logger: Logger;
+    private sessionId: string;
+    private webrtcHandler: WebRTCHandler;
+    private intervalMs: number;
+    private timer: NodeJS.Timeout | null = null;
+    private collecting: boolean = false;
+    private samples: number = 0;
+    private qualityRatingSum: number = 0;
+    private minQualityRating: number = 5;
+    private packetLossSum: number = 0;
+    private bitrateSum: number = 0;
+    private jitterSum: number = 0;
+    private rttSum: number = 0;
+    private rttSamples: number = 0;
+    private openPeriod: OpenQualityPeriod | null = null;
+    private worstPeriods: NetworkQualityPeriod[] = [];
+
+    /**
+     * Create a new NetworkQualityMonitor
+     *
+     * @param sessionId Session ID reported in the events
+     * @param webrtcHandler WebRTC handler of the endpoint to monitor
+     * @param intervalMs Interval in milliseconds between stats collections, 0 to disable
+     * @param logger Logger instance
+     */
+    constructor(sessionId: string, webrtcHandler: WebRTCHandler, intervalMs: number, logger: Logger) {
+        super();
+        this.sessionId = sessionId;
+        this.webrtcHandler = webrtcHandler;
+        this.intervalMs = intervalMs;
+        this.logger = logger.createChild({ name: 'NetworkQualityMonitor' });
+    }
+
+    /**
+     * Start collecting stats, unless disabled or already running
+     */
+    start(): void {
+        if (this.timer || !(this.intervalMs > 0)) return;
+
+        this.logger.debug('Starting stats collection', { intervalMs: this.intervalMs });
+        this.timer = setInterval(() => {
+            this.collect().catch((error: any) => {
+                this.logger.warn('Error collecting WebRTC stats', { error });
+            });
+        }, this.intervalMs);
+    }
+
+    /**
+     * Stop collecting stats
+     */
+    stop(): void {
+        if (!this.timer) return;
+
+        clearInterval(this.timer);
+        this.timer = null;
+        this.logger.debug('Stopped stats collection', { samples: this.samples });
+    }
+
+    /**
+     * Get the network quality over all measurements so far
+     *
+     * @returns Summary, or undefined if nothing was measured
+     */
+    getSummary(): NetworkQualitySummary | undefined {
+        if (this.samples === 0) return undefined;
+
+        const periods = this.openPeriod
+            ? this.rankPeriods([...this.worstPeriods, this.toPeriod(this.openPeriod)])
+            : [...this.worstPeriods];
+
+        return {
+            samples: this.samples,
+            averageQualityRating: this.qualityRatingSum / this.samples,
+            minQualityRating: this.minQualityRating,
+            averagePacketLoss: this.packetLossSum / this.samples,
+            averageBitrate: this.bitrateSum / this.samples,
+            averageJitter: this.jitterSum / this.samples,
+            averageRtt: this.rttSamples > 0 ? this.rttSum / this.rttSamples : undefined,
+            worstPeriods: periods.map(period => ({ ...period }))
+        };
+    }
+
+    /**
+     * Collect the stats once and emit the rated measurement
+     * The first collection after the endpoint changed only sets the baseline
+     */
+    private async collect(): Promise<void> {
+        // Skip a poll while Kurento is still answering the previous one
+        if (this.collecting || !this.webrtcHandler.hasEndpoint()) return;
+
+        this.collecting = true;
+
+        try {
+            const stats = await this.webrtcHandler.collectStats();
+            if (stats.bitrate === undefined) return;
+
+            const event: NetworkQualityEvent = {
+                sessionId: this.sessionId,
+                bandwidth: stats.availableBandwidth ?? stats.bitrate,
+                bitrate: stats.bitrate,
+                rtt: stats.rtt ?? 0,
+                jitter: stats.jitter ?? 0,
+                packetLoss: stats.packetLoss ?? 0,
+                qualityRating: rateNetworkQuality(stats),
+                timestamp: stats.timestamp
+            };
+
+            this.record(event, stats.rtt !== undefined);
+            this.emit('network-quality', event);
+        } finally {
+            this.collecting = false;
+        }
+    }
+
+    /**
+     * Add a measurement to the totals and the poor quality periods
+     *
+     * @param event Rated measurement
+     * @param hasRtt Whether Kurento reported a round-trip time
+     */
+    private record(event: NetworkQualityEvent, hasRtt: boolean): void {
+        this.samples++;
+        this.qualityRatingSum += event.qualityRating;
+        this.minQualityRating = Math.min(this.minQualityRating, event.qualityRating);
+        this.packetLossSum += event.packetLoss;
+        this.bitrateSum += event.bitrate;
+        this.jitterSum += event.jitter;
+
+        if (hasRtt) {
+            this.rttSum += event.rtt;
+            this.rttSamples++;
+        }
+
+        if (event.qualityRating > POOR_NETWORK_QUALITY_RATING) {
+            if (this.openPeriod) {
+                this.worstPeriods = this.rankPeriods([...this.worstPeriods, this.toPeriod(this.openPeriod)]);
+                this.openPeriod = null;
+            }
+            return;
+        }
+
+        if (!this.openPeriod) {
+            this.openPeriod = {
+                start: event.timestamp,
+                end: event.timestamp,
+                minQualityRating: event.qualityRating,
+                averagePacketLoss: 0,
+                samples: 0,
+                packetLossSum: 0
+            };
+        }
+
+        this.openPeriod.end = event.timestamp;
+        this.openPeriod.minQualityRating = Math.min(this.openPeriod.minQualityRating, event.qualityRating);
+        this.openPeriod.samples++;
+        this.openPeriod.packetLossSum += event.packetLoss;
+    }
+
+    /**
+     * Close an open period
+     *
+     * @param period Open period
+     * @returns The period with its average packet loss
+     */
+    private toPeriod(period: OpenQualityPeriod): NetworkQualityPeriod {
+        return {
+            start: period.start,
+            end: period.end,
+            minQualityRating: period.minQualityRating,
+            averagePacketLoss: period.packetLossSum / period.samples
+        };
+    }
+
+    /**
+     * Order periods worst first, the lowest rating and then the longest, and keep the worst ones
+     *
+     * @param periods Periods to rank
+     * @returns The worst periods
+     */
+    private rankPeriods(periods: NetworkQualityPeriod[]): NetworkQualityPeriod[] {
+        return periods
+            .sort((a, b) => a.minQualityRating - b.minQualityRating || (b.end - b.start) - (a.end - a.start))
+            .slice(0, MAX_WORST_QUALITY_PERIODS);
+    }
+}
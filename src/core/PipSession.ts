@@ -0,0 +1,725 @@
+/**
+ * PipSession: Records two WebRTC sources as picture-in-picture
+ */
+
+import * as fs from 'fs';
+import { promisify } from 'util';
+import { TypedEventEmitter } from '../events';
+import { Logger, toMediaUri } from '../utils';
+import { SessionError, MediaError, WebRTCError } from '../errors';
+import { ErrorCode, DEFAULT_WEBRTC_OPTIONS, DEFAULT_RECORDER_OPTIONS } from '../constants';
+import {
+    PipSessionOptions,
+    PipSource,
+    PipSourceEvent,
+    PipLayoutEvent,
+    OverlayPosition,
+    ShareType,
+    RecordingState,
+    RecordingResult,
+    StateTransitionEvent,
+    SdpData,
+    IceCandidate,
+    IceComponentState,
+    WebRtcEndpoint,
+    RecorderEndpoint,
+    HubPort
+} from '../types';
+import { MediaPipeline } from './MediaPipeline';
+import { WebRTCHandler } from './WebRTCHandler';
+import { canTransition } from './SessionStateMachine';
+
+const stat = promisify(fs.stat);
+
+/** Pipeline registry ID of the AlphaBlending hub */
+const HUB_ELEMENT_ID = 'pip';
+
+/** Sources in the order they are preferred for audio when neither is a camera */
+const PIP_SOURCES: readonly PipSource[] = ['primary', 'secondary'];
+
+/** z-order of the source filling the frame; the inset is drawn above it, or below it when hidden */
+const MAIN_Z_ORDER = 1;
+
+/**
+ * Events emitted by PipSession
+ */
+export interface PipSessionEvents {
+    'state-change': StateTransitionEvent;
+    'transition-rejected': StateTransitionEvent;
+    'source-connected': PipSourceEvent;
+    'layout-changed': PipLayoutEvent;
+    'recording-started': { timestamp: number };
+    'recording-stopped': RecordingResult;
+    'ice-candidate': { source: PipSource, candidate: IceCandidate };
+    'ice-gathering-done': { source: PipSource };
+    'ice-component-state-changed': {
+        source: PipSource,
+        streamId: number,
+        componentId: number,
+        state: IceComponentState
+    };
+    'error': Error;
+}
+
+/**
+ * Media elements of a connected source
+ */
+interface PipSourceElements {
+    source: PipSource;
+    webRtcEndpoint: WebRtcEndpoint;
+    hubPort: HubPort;
+    border: any;
+    webrtcHandler: WebRTCHandler;
+    hasAudio: boolean;
+}
+
+/**
+ * Check whether an SDP offer sends audio
+ *
+ * @param sdp SDP offer
+ * @returns true if an enabled audio section is sendrecv or sendonly
+ */
+function offerSendsAudio(sdp: string): boolean {
+    return sdp.split(/^m=/m).slice(1).some(section => {
+        if (!/^audio [1-9]/.test(section)) {
+            return false;
+        }
+
+        const direction = /^a=(sendrecv|sendonly|recvonly|inactive)\s*$/m.exec(section);
+        return !direction || direction[1] === 'sendrecv' || direction[1] === 'sendonly';
+    });
+}
+
+/**
+ * Records a primary source (e.g. a screen share) with a secondary source
+ * (e.g. the presenter's camera) drawn as an inset, through a Kurento
+ * AlphaBlending hub
+ */
+export class PipSession extends TypedEventEmitter<PipSessionEvents> {
+    private logger: Logger;
+    private options: Required<PipSessionOptions>;
+    private pipeline: MediaPipeline;
+    private state: RecordingState = RecordingState.CREATED;
+    private hub: any = null;
+    private recorderEndpoint: RecorderEndpoint | null = null;
+    private sources: Map<PipSource, PipSourceElements> = new Map();
+    private mainSource: PipSource = 'primary';
+    private insetVisible: boolean = true;
+    private audioSource: PipSource | null = null;
+    private startTime: number = 0;
+    private stopTime: number = 0;
+
+    /**
+     * Create a new PipSession
+     *
+     * @param options Normalized session options
+     * @param pipeline Media pipeline
+     * @param logger Logger instance
+     */
+    constructor(
+        options: Required<PipSessionOptions>,
+        pipeline: MediaPipeline,
+        logger: Logger
+    ) {
+        super();
+
+        this.options = options;
+        this.pipeline = pipeline;
+        this.logger = logger.createChild({
+            name: 'PipSession',
+            context: { sessionId: options.sessionId }
+        });
+
+        this.logger.info('Picture-in-picture session created', {
+            sessionId: options.sessionId,
+            primaryShareType: options.primaryShareType,
+            secondaryShareType: options.secondaryShareType
+        });
+    }
+
+    /**
+     * Create the AlphaBlending hub and the recorder of its output
+     */
+    async initialize(): Promise<void> {
+        this.assertState([RecordingState.CREATED], 'initialize session');
+
+        try {
+            this.logger.debug('Creating alpha blending hub and recorder');
+
+            this.hub = await this.pipeline.createElement({ type: 'AlphaBlending' }, HUB_ELEMENT_ID);
+            const outputPort: HubPort = await this.pipeline.createElement(
+                { type: 'HubPort', options: { hub: this.hub } },
+                `${HUB_ELEMENT_ID}:output`
+            );
+
+            this.recorderEndpoint = await this.pipeline.createRecorderEndpoint(
+                {
+                    uri: toMediaUri(this.options.filePath),
+                    mediaProfile: this.options.mediaProfile,
+                    ...DEFAULT_RECORDER_OPTIONS
+                },
+                'recorder'
+            );
+            await this.pipeline.connect(outputPort, this.recorderEndpoint, 'VIDEO');
+
+            this.transition(RecordingState.READY, 'initialize');
+            this.logger.info('Picture-in-picture session initialized');
+        } catch (error: any) {
+            this.logger.error('Error initializing picture-in-picture session', { error });
+            this.transition(RecordingState.ERROR, 'initialize-failed');
+            throw new SessionError(
+                `Failed to initialize picture-in-picture session: ${error.message}`,
+                ErrorCode.SESSION_CREATION_FAILED,
+                error
+            );
+        }
+    }
+
+    /**
+     * Process the WebRTC offer of a source
+     * The secondary source may connect before or during the recording
+     *
+     * @param source Source sending the offer
+     * @param sdpOffer SDP offer
+     * @returns SDP answer
+     */
+    async processOffer(source: PipSource, sdpOffer: string | SdpData): Promise<SdpData> {
+        this.assertState([RecordingState.READY, RecordingState.RECORDING], 'process offer');
+
+        if (!PIP_SOURCES.includes(source)) {
+            throw new SessionError(
+                `Invalid picture-in-picture source: ${source}`,
+                ErrorCode.INVALID_PARAMETER
+            );
+        }
+
+        if (this.sources.has(source)) {
+            throw new SessionError(
+                `The ${source} source is already connected`,
+                ErrorCode.SESSION_ALREADY_EXISTS
+            );
+        }
+
+        const created: any[] = [];
+
+        try {
+            this.logger.info('Connecting source', { source });
+
+            const webRtcEndpoint = await this.pipeline.createWebRtcEndpoint(
+                { ...DEFAULT_WEBRTC_OPTIONS },
+                `webrtc:${source}`
+            );
+            created.push(webRtcEndpoint);
+
+            const hubPort: HubPort = await this.pipeline.createElement(
+                { type: 'HubPort', options: { hub: this.hub } },
+                `${HUB_ELEMENT_ID}:${source}`
+            );
+            created.push(hubPort);
+
+            let border: any = null;
+            if (this.options.insetBorder) {
+                const { width = 0, color = 'white' } = this.options.insetBorder;
+                border = await this.pipeline.createElement(
+                    {
+                        type: 'GStreamerFilter',
+                        options: {
+                            command: `videobox fill=${color} top=-${width} bottom=-${width} left=-${width} right=-${width}`,
+                            filterType: 'VIDEO'
+                        }
+                    },
+                    `${HUB_ELEMENT_ID}:${source}:border`
+                );
+                created.push(border);
+            }
+
+            const webrtcHandler = new WebRTCHandler(
+                this.logger.createChild({ name: `WebRTC:${source}` })
+            );
+            webrtcHandler.setEndpoint(webRtcEndpoint);
+            this.forwardIceEvents(source, webrtcHandler);
+
+            const offerSdp = typeof sdpOffer === 'string' ? sdpOffer : sdpOffer.sdp;
+            const elements: PipSourceElements = {
+                source,
+                webRtcEndpoint,
+                hubPort,
+                border,
+                webrtcHandler,
+                hasAudio: offerSendsAudio(offerSdp)
+            };
+
+            const sdpAnswer = await webrtcHandler.processOffer(sdpOffer);
+            await webrtcHandler.gatherCandidates();
+            await webrtcHandler.setQualityParameters(this.options.minBitrate, this.options.maxBitrate);
+
+            this.sources.set(source, elements);
+            await this.connectVideo(elements);
+            await this.updateAudioSource();
+            await this.applyLayout();
+
+            this.emit('source-connected', {
+                sessionId: this.options.sessionId,
+                source,
+                shareType: this.getShareType(source),
+                hasAudio: elements.hasAudio,
+                timestamp: Date.now()
+            });
+            this.emitLayout();
+
+            this.logger.info('Source connected', { source, hasAudio: elements.hasAudio });
+            return sdpAnswer;
+        } catch (error: any) {
+            this.logger.error('Error connecting source', { error, source });
+
+            this.sources.delete(source);
+            [`webrtc:${source}`, `${HUB_ELEMENT_ID}:${source}`, `${HUB_ELEMENT_ID}:${source}:border`]
+                .forEach(elementId => this.pipeline.removeElement(elementId));
+            await Promise.all(created.map(element => element.release().catch(() => undefined)));
+
+            if (error instanceof WebRTCError || error instanceof MediaError) {
+                throw error;
+            }
+
+            throw new SessionError(
+                `Failed to connect the ${source} source: ${error.message}`,
+                ErrorCode.SESSION_NOT_READY,
+                error
+            );
+        }
+    }
+
+    /**
+     * Add an ICE candidate of a source
+     *
+     * @param source Source the candidate belongs to
+     * @param candidate ICE candidate
+     */
+    async addIceCandidate(source: PipSource, candidate: IceCandidate): Promise<void> {
+        const elements = this.sources.get(source);
+
+        if (!elements) {
+            throw new SessionError(
+                `The ${source} source is not connected`,
+                ErrorCode.SESSION_NOT_READY
+            );
+        }
+
+        try {
+            await elements.webrtcHandler.addIceCandidate(candidate);
+        } catch (error: any) {
+            this.logger.error('Error adding ICE candidate', { error, source });
+            // Don't throw here - ICE candidates can fail individually without failing the session
+        }
+    }
+
+    /**
+     * Swap the sources, the inset fills the frame and the main source becomes the inset
+     */
+    async swap(): Promise<void> {
+        this.assertState([RecordingState.READY, RecordingState.RECORDING], 'swap sources');
+
+        this.mainSource = this.getInsetSource();
+        this.logger.info('Swapping sources', { main: this.mainSource });
+
+        await this.updateLayout();
+    }
+
+    /**
+     * Show or hide the inset
+     * A hidden inset stays connected and is drawn below the main source
+     *
+     * @param visible Whether the inset is shown
+     */
+    async setInsetVisible(visible: boolean): Promise<void> {
+        this.assertState([RecordingState.READY, RecordingState.RECORDING], 'change inset visibility');
+
+        if (this.insetVisible === visible) {
+            return;
+        }
+
+        this.insetVisible = visible;
+        this.logger.info(visible ? 'Showing inset' : 'Hiding inset');
+
+        await this.updateLayout();
+    }
+
+    /**
+     * Start recording
+     */
+    async start(): Promise<void> {
+        if (!this.canTransition(RecordingState.STARTING)) {
+            this.rejectTransition(RecordingState.STARTING, 'start');
+        }
+
+        if (this.sources.size === 0) {
+            throw new SessionError(
+                'No source connected, process an offer first',
+                ErrorCode.SESSION_NOT_READY
+            );
+        }
+
+        this.transition(RecordingState.STARTING, 'start');
+
+        try {
+            this.logger.info('Starting picture-in-picture recording');
+            await this.recorderEndpoint!.record();
+            this.startTime = Date.now();
+            this.transition(RecordingState.RECORDING, 'start');
+            this.emit('recording-started', { timestamp: this.startTime });
+            this.logger.info('Picture-in-picture recording started');
+        } catch (error: any) {
+            this.logger.error('Error starting picture-in-picture recording', { error });
+            this.transition(RecordingState.ERROR, 'start-failed');
+            throw new MediaError(
+                `Failed to start picture-in-picture recording: ${error.message}`,
+                ErrorCode.RECORDING_START_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Stop recording
+     *
+     * @returns Recording result
+     */
+    async stop(): Promise<RecordingResult> {
+        this.transition(RecordingState.STOPPING, 'stop');
+
+        try {
+            this.logger.info('Stopping picture-in-picture recording');
+            await this.recorderEndpoint!.stop();
+            this.stopTime = Date.now();
+            this.transition(RecordingState.STOPPED, 'stop');
+
+            const result = await this.createRecordingResult();
+            this.emit('recording-stopped', result);
+            this.logger.info('Picture-in-picture recording stopped', { duration: result.duration });
+            return result;
+        } catch (error: any) {
+            this.logger.error('Error stopping picture-in-picture recording', { error });
+            this.transition(RecordingState.ERROR, 'stop-failed');
+            throw new MediaError(
+                `Failed to stop picture-in-picture recording: ${error.message}`,
+                ErrorCode.RECORDING_STOP_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Release all resources used by this session
+     */
+    async release(): Promise<void> {
+        if (this.state === RecordingState.RELEASED) {
+            this.logger.debug('Session resources already released');
+            return;
+        }
+
+        try {
+            this.logger.debug('Releasing session resources');
+
+            // Releasing the pipeline releases the hub, the sources and the recorder
+            await this.pipeline.release();
+            this.sources.clear();
+            this.hub = null;
+            this.recorderEndpoint = null;
+
+            this.transition(RecordingState.RELEASED, 'release');
+            this.logger.info('Session resources released');
+        } catch (error: any) {
+            this.logger.error('Error releasing session resources', { error });
+            throw new SessionError(
+                `Failed to release session resources: ${error.message}`,
+                ErrorCode.RESOURCE_RELEASE_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Get the current state of the recording
+     *
+     * @returns Recording state
+     */
+    getState(): RecordingState {
+        return this.state;
+    }
+
+    /**
+     * Check whether the session can currently move to a state
+     *
+     * @param state Target state
+     * @returns true if the transition table allows it
+     */
+    canTransition(state: RecordingState): boolean {
+        return canTransition(this.state, state);
+    }
+
+    /**
+     * Get the session ID
+     *
+     * @returns Session ID
+     */
+    getSessionId(): string {
+        return this.options.sessionId;
+    }
+
+    /**
+     * Get the session options
+     *
+     * @returns Session options
+     */
+    getOptions(): Required<PipSessionOptions> {
+        return { ...this.options };
+    }
+
+    /**
+     * Get the output file path
+     *
+     * @returns File path
+     */
+    getFilePath(): string {
+        return this.options.filePath;
+    }
+
+    /**
+     * Get the current layout
+     *
+     * @returns Layout of the sources
+     */
+    getLayout(): Omit<PipLayoutEvent, 'timestamp'> {
+        return {
+            sessionId: this.options.sessionId,
+            main: this.mainSource,
+            inset: this.getInsetSource(),
+            insetVisible: this.insetVisible,
+            audioSource: this.audioSource
+        };
+    }
+
+    /**
+     * Re-emit the ICE events of a source's endpoint so they can be trickled to the browser
+     *
+     * @param source Source
+     * @param webrtcHandler Handler of the source's endpoint
+     */
+    private forwardIceEvents(source: PipSource, webrtcHandler: WebRTCHandler): void {
+        webrtcHandler.on('ice-candidate', (candidate) => {
+            this.emit('ice-candidate', { source, candidate });
+        });
+        webrtcHandler.on('ice-gathering-done', () => {
+            this.emit('ice-gathering-done', { source });
+        });
+        webrtcHandler.on('ice-component-state-changed', (event) => {
+            this.emit('ice-component-state-changed', { source, ...event });
+        });
+    }
+
+    /**
+     * Get the source drawn as the inset
+     *
+     * @returns Inset source
+     */
+    private getInsetSource(): PipSource {
+        return this.mainSource === 'primary' ? 'secondary' : 'primary';
+    }
+
+    /**
+     * Get the content type of a source
+     *
+     * @param source Source
+     * @returns Share type
+     */
+    private getShareType(source: PipSource): ShareType {
+        return source === 'primary' ? this.options.primaryShareType : this.options.secondaryShareType;
+    }
+
+    /**
+     * Re-route the sources after the main source changed and apply the layout
+     */
+    private async updateLayout(): Promise<void> {
+        try {
+            for (const elements of this.sources.values()) {
+                await this.connectVideo(elements);
+            }
+            await this.applyLayout();
+        } catch (error: any) {
+            this.logger.error('Error updating picture-in-picture layout', { error });
+            throw new MediaError(
+                `Failed to update picture-in-picture layout: ${error.message}`,
+                ErrorCode.MEDIA_CONNECTION_ERROR,
+                error
+            );
+        }
+
+        this.emitLayout();
+    }
+
+    /**
+     * Connect the video of a source to its hub port
+     * The inset goes through its border filter, the main source is connected directly;
+     * connecting a port replaces its previous input
+     *
+     * @param elements Source elements
+     */
+    private async connectVideo(elements: PipSourceElements): Promise<void> {
+        const { webRtcEndpoint, hubPort, border } = elements;
+
+        if (border && elements.source === this.getInsetSource()) {
+            await this.pipeline.connect(webRtcEndpoint, border, 'VIDEO');
+            await this.pipeline.connect(border, hubPort, 'VIDEO');
+            return;
+        }
+
+        await this.pipeline.connect(webRtcEndpoint, hubPort, 'VIDEO');
+
+        if (border) {
+            await webRtcEndpoint.disconnect(border, 'VIDEO').catch(() => undefined);
+        }
+    }
+
+    /**
+     * Position the main source and the inset on the hub
+     */
+    private async applyLayout(): Promise<void> {
+        const main = this.sources.get(this.mainSource);
+        const inset = this.sources.get(this.getInsetSource());
+
+        if (main) {
+            await this.hub.setMaster(main.hubPort, MAIN_Z_ORDER);
+        }
+
+        if (inset) {
+            const { corner, insetSize, insetMargin } = this.options;
+            const left = corner === OverlayPosition.TOP_LEFT || corner === OverlayPosition.BOTTOM_LEFT;
+            const top = corner === OverlayPosition.TOP_LEFT || corner === OverlayPosition.TOP_RIGHT;
+
+            let x = left ? insetMargin : 1 - insetSize - insetMargin;
+            let y = top ? insetMargin : 1 - insetSize - insetMargin;
+
+            if (corner === OverlayPosition.CENTER) {
+                x = y = (1 - insetSize) / 2;
+            }
+
+            await this.hub.setPortProperties(
+                x,
+                y,
+                this.insetVisible ? MAIN_Z_ORDER + 1 : MAIN_Z_ORDER - 1,
+                insetSize,
+                insetSize,
+                inset.hubPort
+            );
+        }
+    }
+
+    /**
+     * Record the audio of the best source: the camera if it sends audio,
+     * otherwise the first source that does
+     */
+    private async updateAudioSource(): Promise<void> {
+        const candidates = PIP_SOURCES
+            .map(source => this.sources.get(source))
+            .filter((elements): elements is PipSourceElements => !!elements && elements.hasAudio);
+
+        const selected = candidates.find(elements => this.getShareType(elements.source) === ShareType.CAMERA) ||
+            candidates[0];
+
+        if (!selected || selected.source === this.audioSource) {
+            return;
+        }
+
+        // Connecting the recorder's audio replaces the previous source
+        await this.pipeline.connect(selected.webRtcEndpoint, this.recorderEndpoint, 'AUDIO');
+        this.audioSource = selected.source;
+        this.logger.info('Recording audio from source', { source: selected.source });
+    }
+
+    /**
+     * Emit the current layout
+     */
+    private emitLayout(): void {
+        this.emit('layout-changed', { ...this.getLayout(), timestamp: Date.now() });
+    }
+
+    /**
+     * Build the recording result
+     *
+     * @returns Recording result
+     */
+    private async createRecordingResult(): Promise<RecordingResult> {
+        let size: number | undefined;
+        try {
+            size = (await stat(this.options.filePath)).size;
+        } catch (error) {
+            this.logger.debug('Recording file not accessible locally', { filePath: this.options.filePath });
+        }
+
+        return {
+            path: this.options.filePath,
+            duration: this.startTime > 0 ? Math.round((this.stopTime - this.startTime) / 1000) : 0,
+            size,
+            mediaProfile: this.options.mediaProfile,
+            sessionId: this.options.sessionId,
+            stopReason: 'user',
+            timestamp: {
+                start: this.startTime,
+                end: this.stopTime
+            }
+        };
+    }
+
+    /**
+     * Move the session to a new state if the transition table allows it
+     *
+     * @param state New state
+     * @param reason Operation requesting the transition
+     * @throws SessionError if the transition is not allowed
+     */
+    private transition(state: RecordingState, reason: string): void {
+        if (!canTransition(this.state, state)) {
+            this.rejectTransition(state, reason);
+        }
+
+        const from = this.state;
+        this.logger.debug(`State change: ${from} -> ${state}`, { reason });
+        this.state = state;
+        this.emit('state-change', { from, to: state, reason, timestamp: Date.now() });
+    }
+
+    /**
+     * Reject a transition that is not allowed from the current state
+     *
+     * @param state Requested state
+     * @param reason Operation requesting the transition
+     * @throws SessionError always
+     */
+    private rejectTransition(state: RecordingState, reason: string): never {
+        const from = this.state;
+        this.logger.warn(`Rejected state change: ${from} -> ${state}`, { reason });
+        this.emit('transition-rejected', { from, to: state, reason, timestamp: Date.now() });
+
+        throw new SessionError(
+            `Cannot transition from ${from} to ${state} (${reason})`,
+            ErrorCode.SESSION_INVALID_STATE,
+            { from, to: state, reason }
+        );
+    }
+
+    /**
+     * Ensure the session is in one of the given states
+     *
+     * @param states Allowed states
+     * @param action Action being attempted, used in the error message
+     * @throws SessionError if the session is in another state
+     */
+    private assertState(states: RecordingState[], action: string): void {
+        if (!states.includes(this.state)) {
+            throw new SessionError(
+                `Cannot ${action} in state ${this.state}`,
+                ErrorCode.SESSION_INVALID_STATE
+            );
+        }
+    }
+}
@@ -0,0 +1,402 @@
+/**
+ * PlaybackSession: Plays a finished recording back to a browser
+ */
+
+import { TypedEventEmitter } from '../events';
+import { Logger } from '../utils';
+import { SessionError, MediaError, WebRTCError } from '../errors';
+import { ErrorCode, DEFAULT_WEBRTC_OPTIONS } from '../constants';
+import {
+    PlaybackState,
+    PlaybackEvent,
+    PlaybackReleaseReason,
+    PlayerVideoInfo,
+    SdpData,
+    IceCandidate,
+    IceComponentState
+} from '../types';
+import { MediaPipeline } from './MediaPipeline';
+import { WebRTCHandler } from './WebRTCHandler';
+import { PlayerHandler } from './PlayerHandler';
+
+/**
+ * Events emitted by PlaybackSession
+ */
+export interface PlaybackSessionEvents {
+    'playing': PlaybackEvent;
+    'paused': PlaybackEvent;
+    'seeked': PlaybackEvent;
+    'end-of-stream': PlaybackEvent;
+    'released': PlaybackEvent;
+    'ice-candidate': IceCandidate;
+    'ice-gathering-done': { timestamp: number };
+    'ice-component-state-changed': { streamId: number, componentId: number, state: IceComponentState };
+    'error': Error;
+}
+
+/**
+ * Result of RecordingManager.createPlayback()
+ */
+export interface PlaybackConnection {
+    /** The playback, connected to the viewer and ready to play */
+    playback: PlaybackSession;
+    /** SDP answer for the viewer */
+    sdpAnswer: SdpData;
+}
+
+/**
+ * Plays a recorded file to a WebRTC viewer through a
+ * PlayerEndpoint -> WebRtcEndpoint pipeline
+ */
+export class PlaybackSession extends TypedEventEmitter<PlaybackSessionEvents> {
+    private logger: Logger;
+    private playbackId: string;
+    private pipeline: MediaPipeline;
+    private playerHandler: PlayerHandler;
+    private webrtcHandler: WebRTCHandler;
+    private state: PlaybackState = PlaybackState.READY;
+    private connectTimeoutMs: number;
+    private connectTimer: NodeJS.Timeout | null = null;
+    private connected: boolean = false;
+
+    /**
+     * Create a new PlaybackSession
+     *
+     * @param playbackId Playback identifier
+     * @param uri Media URI of the recording
+     * @param pipeline Media pipeline
+     * @param connectTimeoutMs Milliseconds the viewer has to connect, 0 to disable
+     * @param logger Logger instance
+     */
+    constructor(playbackId: string, uri: string, pipeline: MediaPipeline, connectTimeoutMs: number, logger: Logger) {
+        super();
+
+        this.playbackId = playbackId;
+        this.pipeline = pipeline;
+        this.connectTimeoutMs = connectTimeoutMs;
+        this.logger = logger.createChild({
+            name: 'PlaybackSession',
+            context: { playbackId }
+        });
+
+        this.playerHandler = new PlayerHandler(uri, this.logger);
+        this.playerHandler.on('end-of-stream', () => {
+            if (this.state === PlaybackState.RELEASED) return;
+
+            this.state = PlaybackState.ENDED;
+            this.emit('end-of-stream', this.createEvent());
+        });
+        this.playerHandler.on('error', (error) => this.emit('error', error));
+
+        this.webrtcHandler = new WebRTCHandler(this.logger);
+        this.webrtcHandler.on('connection-state-changed', ({ state }) => {
+            if (state === 'CONNECTED') {
+                this.connected = true;
+                this.clearConnectTimer();
+            } else if (state === 'DISCONNECTED') {
+                this.releaseUnreachable('disconnected', 'Viewer disconnected, releasing playback');
+            }
+        });
+        this.webrtcHandler.on('ice-candidate', (candidate) => this.emit('ice-candidate', candidate));
+        this.webrtcHandler.on('ice-gathering-done', (event) => this.emit('ice-gathering-done', event));
+        this.webrtcHandler.on('ice-component-state-changed', (event) => {
+            this.emit('ice-component-state-changed', event);
+
+            // A failed component never recovers and Kurento does not report a disconnection for it
+            if (event.state === 'FAILED') {
+                this.releaseUnreachable('ice-failed', 'ICE connection to the viewer failed, releasing playback');
+            }
+        });
+    }
+
+    /**
+     * Create the endpoints and answer the viewer's offer
+     *
+     * @param sdpOffer Receive-only SDP offer of the viewer
+     * @returns SDP answer
+     */
+    async connect(sdpOffer: string | SdpData): Promise<SdpData> {
+        try {
+            this.logger.debug('Creating playback endpoints');
+
+            const playerEndpoint = await this.pipeline.createPlayerEndpoint(
+                { uri: this.playerHandler.getUri() },
+                'player'
+            );
+            const webRtcEndpoint = await this.pipeline.createWebRtcEndpoint(
+                { ...DEFAULT_WEBRTC_OPTIONS },
+                'webrtc'
+            );
+            await this.pipeline.connect(playerEndpoint, webRtcEndpoint);
+
+            this.playerHandler.setEndpoint(playerEndpoint);
+            this.webrtcHandler.setEndpoint(webRtcEndpoint);
+
+            const sdpAnswer = await this.webrtcHandler.processOffer(sdpOffer);
+            await this.webrtcHandler.gatherCandidates();
+
+            if (this.connectTimeoutMs > 0 && !this.connected) {
+                this.connectTimer = setTimeout(() => {
+                    this.connectTimer = null;
+                    this.releaseUnreachable('connect-timeout', 'Viewer did not connect in time, releasing playback');
+                }, this.connectTimeoutMs);
+            }
+
+            this.logger.info('Playback connected', { uri: this.playerHandler.getUri() });
+            return sdpAnswer;
+        } catch (error: any) {
+            this.logger.error('Error connecting playback', { error });
+
+            if (error instanceof WebRTCError || error instanceof MediaError) {
+                throw error;
+            }
+
+            throw new SessionError(
+                `Failed to connect playback: ${error.message}`,
+                ErrorCode.SESSION_NOT_READY,
+                error
+            );
+        }
+    }
+
+    /**
+     * Add an ICE candidate of the viewer
+     *
+     * @param candidate ICE candidate
+     */
+    async addIceCandidate(candidate: IceCandidate): Promise<void> {
+        try {
+            await this.webrtcHandler.addIceCandidate(candidate);
+        } catch (error: any) {
+            this.logger.error('Error adding ICE candidate', { error, candidate });
+            // Don't throw here - ICE candidates can fail individually without failing the playback
+        }
+    }
+
+    /**
+     * Start or continue playing
+     * Playing after the end was reached starts over
+     */
+    async play(): Promise<void> {
+        this.assertState([PlaybackState.READY, PlaybackState.PAUSED, PlaybackState.ENDED], 'play');
+
+        if (this.state === PlaybackState.ENDED) {
+            await this.playerHandler.seek(0);
+        }
+
+        await this.playerHandler.play();
+        this.state = PlaybackState.PLAYING;
+        this.emit('playing', this.createEvent());
+    }
+
+    /**
+     * Pause playing
+     */
+    async pause(): Promise<void> {
+        this.assertState([PlaybackState.PLAYING], 'pause');
+
+        await this.playerHandler.pause();
+        this.state = PlaybackState.PAUSED;
+        this.emit('paused', this.createEvent());
+    }
+
+    /**
+     * Seek to a position of the recording
+     *
+     * @param position Position in milliseconds
+     */
+    async seek(position: number): Promise<void> {
+        this.assertState(
+            [PlaybackState.READY, PlaybackState.PLAYING, PlaybackState.PAUSED, PlaybackState.ENDED],
+            'seek'
+        );
+
+        const videoInfo = await this.playerHandler.getVideoInfo();
+        if (!videoInfo.isSeekable) {
+            throw new MediaError(
+                'Recording is not seekable',
+                ErrorCode.PLAYER_ERROR,
+                { playbackId: this.playbackId }
+            );
+        }
+
+        if (position < videoInfo.seekableInit || position > videoInfo.seekableEnd) {
+            throw new MediaError(
+                `Position ${position} ms is outside the seekable range`,
+                ErrorCode.INVALID_PARAMETER,
+                { position, seekableInit: videoInfo.seekableInit, seekableEnd: videoInfo.seekableEnd }
+            );
+        }
+
+        await this.playerHandler.seek(position);
+
+        // A recording that ended can be played again from the new position
+        if (this.state === PlaybackState.ENDED) {
+            this.state = PlaybackState.PAUSED;
+        }
+
+        this.emit('seeked', this.createEvent(position));
+    }
+
+    /**
+     * Set the playback rate
+     * Kurento's PlayerEndpoint always plays at normal speed, so only a rate of 1 is supported
+     *
+     * @param rate Playback rate
+     */
+    async setRate(rate: number): Promise<void> {
+        this.assertState(
+            [PlaybackState.READY, PlaybackState.PLAYING, PlaybackState.PAUSED, PlaybackState.ENDED],
+            'set rate'
+        );
+
+        if (!(rate > 0)) {
+            throw new MediaError(
+                `Invalid playback rate ${rate}`,
+                ErrorCode.INVALID_PARAMETER,
+                { rate }
+            );
+        }
+
+        if (rate !== 1) {
+            throw new MediaError(
+                'Kurento players only support normal playback speed',
+                ErrorCode.NOT_IMPLEMENTED,
+                { rate }
+            );
+        }
+    }
+
+    /**
+     * Get the current position
+     *
+     * @returns Position in milliseconds
+     */
+    async getPosition(): Promise<number> {
+        return this.playerHandler.getPosition();
+    }
+
+    /**
+     * Get the duration and seek range of the recording
+     *
+     * @returns Video info reported by Kurento
+     */
+    async getVideoInfo(): Promise<PlayerVideoInfo> {
+        return this.playerHandler.getVideoInfo();
+    }
+
+    /**
+     * Release the playback and its pipeline
+     *
+     * @param reason Why the playback is released (default: 'user')
+     */
+    async release(reason: PlaybackReleaseReason = 'user'): Promise<void> {
+        if (this.state === PlaybackState.RELEASED) {
+            this.logger.debug('Playback resources already released');
+            return;
+        }
+
+        this.state = PlaybackState.RELEASED;
+        this.clearConnectTimer();
+
+        try {
+            this.logger.debug('Releasing playback resources', { reason });
+
+            // Releasing the pipeline releases the player and the WebRTC endpoint
+            await this.pipeline.release();
+            this.logger.info('Playback resources released', { reason });
+        } catch (error: any) {
+            this.logger.error('Error releasing playback resources', { error });
+            throw new SessionError(
+                `Failed to release playback resources: ${error.message}`,
+                ErrorCode.RESOURCE_RELEASE_ERROR,
+                error
+            );
+        } finally {
+            this.emit('released', { ...this.createEvent(), reason });
+        }
+    }
+
+    /**
+     * Get the current playback state
+     *
+     * @returns Playback state
+     */
+    getState(): PlaybackState {
+        return this.state;
+    }
+
+    /**
+     * Get the playback ID
+     *
+     * @returns Playback ID
+     */
+    getPlaybackId(): string {
+        return this.playbackId;
+    }
+
+    /**
+     * Get the media URI being played
+     *
+     * @returns Media URI
+     */
+    getUri(): string {
+        return this.playerHandler.getUri();
+    }
+
+    /**
+     * Release the playback of a viewer that cannot be reached
+     *
+     * @param reason Release reason
+     * @param message Log message
+     */
+    private releaseUnreachable(reason: PlaybackReleaseReason, message: string): void {
+        if (this.state === PlaybackState.RELEASED) return;
+
+        this.logger.info(message);
+        this.release(reason).catch((error: any) => {
+            this.logger.error('Error releasing playback of unreachable viewer', { error, reason });
+        });
+    }
+
+    /**
+     * Stop waiting for the viewer to connect
+     */
+    private clearConnectTimer(): void {
+        if (this.connectTimer) {
+            clearTimeout(this.connectTimer);
+            this.connectTimer = null;
+        }
+    }
+
+    /**
+     * Ensure the playback is in one of the given states
+     *
+     * @param states Allowed states
+     * @param action Description of the operation
+     * @throws SessionError if the playback is in another state
+     */
+    private assertState(states: PlaybackState[], action: string): void {
+        if (!states.includes(this.state)) {
+            throw new SessionError(
+                `Cannot ${action} in state ${this.state}`,
+                ErrorCode.SESSION_INVALID_STATE
+            );
+        }
+    }
+
+    /**
+     * Build an event with the current state
+     *
+     * @param position Position after a seek
+     * @returns Playback event
+     */
+    private createEvent(position?: number): PlaybackEvent {
+        return {
+            playbackId: this.playbackId,
+            state: this.state,
+            position,
+            timestamp: Date.now()
+        };
+    }
+}
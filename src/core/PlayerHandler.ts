@@ -0,0 +1,260 @@
+/**
+ * PlayerHandler: Manages a Kurento player used as a media source
+ */
+
+import { TypedEventEmitter } from '../events';
+import { Logger } from '../utils';
+import { MediaError } from '../errors';
+import { ErrorCode } from '../constants';
+import { PlayerEndpoint, PlayerVideoInfo } from '../types';
+
+/**
+ * Events emitted by PlayerHandler
+ */
+export interface PlayerHandlerEvents {
+    'media-flow-out': { mediaType: string, flowing: boolean };
+    'end-of-stream': { uri: string };
+    'error': MediaError;
+}
+
+/**
+ * Handles a PlayerEndpoint playing a file or network stream
+ */
+export class PlayerHandler extends TypedEventEmitter<PlayerHandlerEvents> {
+    private logger: Logger;
+    private uri: string;
+    private playerEndpoint: PlayerEndpoint | null = null;
+
+    /**
+     * Create a new PlayerHandler
+     *
+     * @param uri URI played by the endpoint
+     * @param logger Logger instance
+     */
+    constructor(uri: string, logger: Logger) {
+        super();
+        this.uri = uri;
+        this.logger = logger.createChild({ name: 'PlayerHandler', context: { uri } });
+    }
+
+    /**
+     * Set the Player endpoint to use
+     *
+     * @param endpoint Player endpoint
+     */
+    setEndpoint(endpoint: PlayerEndpoint): void {
+        this.playerEndpoint = endpoint;
+        this.logger.debug('Player endpoint set');
+
+        this.setupEndOfStreamListener();
+        this.setupErrorListener();
+        this.setupMediaFlowListener();
+    }
+
+    /**
+     * Start or continue playing the source
+     */
+    async play(): Promise<void> {
+        const endpoint = this.ensureEndpoint('play');
+
+        try {
+            this.logger.debug('Playing source');
+            await endpoint.play();
+            this.logger.debug('Source playing');
+        } catch (error: any) {
+            this.logger.error('Error playing source', { error });
+            throw new MediaError(
+                `Failed to play ${this.uri}: ${error.message}`,
+                ErrorCode.PLAYER_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Pause the source
+     */
+    async pause(): Promise<void> {
+        const endpoint = this.ensureEndpoint('pause');
+
+        try {
+            this.logger.debug('Pausing source');
+            await endpoint.pause();
+            this.logger.debug('Source paused');
+        } catch (error: any) {
+            this.logger.error('Error pausing source', { error });
+            throw new MediaError(
+                `Failed to pause ${this.uri}: ${error.message}`,
+                ErrorCode.PLAYER_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Stop playing the source
+     */
+    async stop(): Promise<void> {
+        const endpoint = this.ensureEndpoint('stop');
+
+        try {
+            this.logger.debug('Stopping source');
+            await endpoint.stop();
+            this.logger.debug('Source stopped');
+        } catch (error: any) {
+            this.logger.error('Error stopping source', { error });
+            throw new MediaError(
+                `Failed to stop ${this.uri}: ${error.message}`,
+                ErrorCode.PLAYER_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Seek to a position of the source
+     *
+     * @param position Position in milliseconds
+     */
+    async seek(position: number): Promise<void> {
+        const endpoint = this.ensureEndpoint('seek');
+
+        try {
+            this.logger.debug('Seeking source', { position });
+            await endpoint.setPosition(position);
+            this.logger.debug('Source seeked', { position });
+        } catch (error: any) {
+            this.logger.error('Error seeking source', { error, position });
+            throw new MediaError(
+                `Failed to seek ${this.uri} to ${position} ms: ${error.message}`,
+                ErrorCode.PLAYER_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Get the current position of the source
+     *
+     * @returns Position in milliseconds
+     */
+    async getPosition(): Promise<number> {
+        const endpoint = this.ensureEndpoint('get position');
+
+        try {
+            return await endpoint.getPosition();
+        } catch (error: any) {
+            throw new MediaError(
+                `Failed to get the position of ${this.uri}: ${error.message}`,
+                ErrorCode.PLAYER_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Get the duration and seek range of the source
+     *
+     * @returns Video info reported by Kurento
+     */
+    async getVideoInfo(): Promise<PlayerVideoInfo> {
+        const endpoint = this.ensureEndpoint('get video info');
+
+        try {
+            return await endpoint.getVideoInfo();
+        } catch (error: any) {
+            throw new MediaError(
+                `Failed to get the video info of ${this.uri}: ${error.message}`,
+                ErrorCode.PLAYER_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Get the URI played by the endpoint
+     *
+     * @returns Media URI
+     */
+    getUri(): string {
+        return this.uri;
+    }
+
+    /**
+     * Check if the handler has a Player endpoint
+     *
+     * @returns true if an endpoint is available, false otherwise
+     */
+    hasEndpoint(): boolean {
+        return this.playerEndpoint !== null;
+    }
+
+    /**
+     * Get the Player endpoint, if available
+     *
+     * @returns The Player endpoint or null
+     */
+    getEndpoint(): PlayerEndpoint | null {
+        return this.playerEndpoint;
+    }
+
+    /**
+     * Get the Player endpoint or throw if it is not set
+     *
+     * @param action Description of the operation
+     * @returns The Player endpoint
+     */
+    private ensureEndpoint(action: string): PlayerEndpoint {
+        if (!this.playerEndpoint) {
+            throw new MediaError(
+                `Player endpoint not set, cannot ${action}`,
+                ErrorCode.ENDPOINT_NOT_READY
+            );
+        }
+
+        return this.playerEndpoint;
+    }
+
+    /**
+     * Set up the end-of-stream listener on the Player endpoint
+     * Files end when they were played completely, streams when the server closes them
+     */
+    private setupEndOfStreamListener(): void {
+        if (!this.playerEndpoint) return;
+
+        this.playerEndpoint.on('EndOfStream', () => {
+            this.logger.info('Source reached end of stream');
+            this.emit('end-of-stream', { uri: this.uri });
+        });
+    }
+
+    /**
+     * Set up the error listener on the Player endpoint
+     * Kurento reports sources it cannot open or decode this way
+     */
+    private setupErrorListener(): void {
+        if (!this.playerEndpoint) return;
+
+        this.playerEndpoint.on('Error', (event: any) => {
+            this.logger.error('Source error', { description: event.description, type: event.type });
+            this.emit('error', new MediaError(
+                `Error playing ${this.uri}: ${event.description}`,
+                ErrorCode.PLAYER_ERROR,
+                event
+            ));
+        });
+    }
+
+    /**
+     * Set up outbound media flow event listener on the Player endpoint
+     */
+    private setupMediaFlowListener(): void {
+        if (!this.playerEndpoint) return;
+
+        this.playerEndpoint.on('MediaFlowOutStateChange', (event: any) => {
+            const flowing = event.state === 'FLOWING';
+            this.logger.debug('Outbound media flow changed', { mediaType: event.mediaType, state: event.state });
+            this.emit('media-flow-out', { mediaType: event.mediaType, flowing });
+        });
+    }
+}
@@ -13,22 +13,56 @@ import {
     RecordingResult,
     LogLevel,
     KurentoClient,
-    KurentoConnectionOptions
+    KurentoConnectionOptions,
+    RecordingState,
+    PauseMode,
+    SessionJournal,
+    SessionJournalEntry,
+    AdmissionControlConfig,
+    SessionTimeoutEvent,
+    RecordingStopReason,
+    RoomRecordingOptions,
+    PipSessionOptions,
+    PlaybackOptions,
+    SourceType,
+    SdpData,
+    KurentoIceConfig,
+    TurnCredentialConfig,
+    TurnCredentials
 } from '../types';
-import { Logger, ConfigManager, ILogger } from '../utils';
+import {
+    Logger,
+    ConfigManager,
+    ILogger,
+    getRecordingOutputs,
+    readOutputSizes,
+    toMediaUri,
+    toKurentoIceConfig,
+    describeIceConfig,
+    getIceServerUrls,
+    parseIceServerUrl,
+    redactSecrets
+} from '../utils';
 import { KurentoConnector, KurentoConnectorEvent } from './KurentoConnector';
 import { MediaPipeline } from './MediaPipeline';
 import { RecordingSession } from './RecordingSession';
+import { RoomRecording } from './RoomRecording';
+import { PipSession } from './PipSession';
+import { PlaybackSession, PlaybackConnection } from './PlaybackSession';
 import { ConfigError, ConnectionError, SessionError } from '../errors';
 import {
     DEFAULT_MANAGER_CONFIG,
     DEFAULT_SESSION_OPTIONS,
+    DEFAULT_PLAYBACK_OPTIONS,
     ErrorCode
 } from '../constants';
 import { WebRTCHandler } from './WebRTCHandler';
+import { AdmissionController, AdmissionTicket } from './AdmissionController';
+import { TurnCredentialProvider } from './TurnCredentialProvider';
 
 const mkdir = promisify(fs.mkdir);
 const exists = promisify(fs.exists);
+const stat = promisify(fs.stat);
 
 /**
  * Events emitted by RecordingManager
@@ -44,7 +78,35 @@ export enum RecordingManagerEvent {
     ERROR = 'error',
     PIPELINE_PRESERVED = 'pipeline-preserved',
     PIPELINE_RELEASED = 'pipeline-released',
-    RECONNECTION_TIMED_OUT = 'reconnection-timed-out'
+    RECONNECTION_TIMED_OUT = 'reconnection-timed-out',
+    SESSION_RECOVERED = 'session-recovered',
+    SESSION_FINALIZED = 'session-finalized',
+    SESSION_REATTACHED = 'session-reattached',
+    SESSION_LOST = 'session-lost',
+    ADMISSION_REJECTED = 'admission-rejected',
+    SESSION_PREEMPTED = 'session-preempted',
+    SESSION_TIMED_OUT = 'session-timed-out',
+    ROOM_CREATED = 'room-created',
+    ROOM_ENDED = 'room-ended',
+    PIP_SESSION_CREATED = 'pip-session-created',
+    PIP_SESSION_ENDED = 'pip-session-ended',
+    PLAYBACK_CREATED = 'playback-created',
+    PLAYBACK_ENDED = 'playback-ended',
+    ICE_CANDIDATE = 'ice-candidate',
+    ICE_GATHERING_DONE = 'ice-gathering-done',
+    ICE_COMPONENT_STATE_CHANGED = 'ice-component-state-changed'
+}
+
+/**
+ * Outcome of RecordingManager.recover()
+ */
+export interface SessionRecoveryReport {
+    /** Sessions re-attached to pipelines that are still alive on the server */
+    recovered: RecordingSession[];
+    /** Results of recordings whose pipeline or endpoints no longer exist */
+    finalized: RecordingResult[];
+    /** IDs of journaled sessions that never started recording and were discarded */
+    discarded: string[];
 }
 
 /**
@@ -57,9 +119,18 @@ export class RecordingManager extends EventEmitter {
     private configManager: ConfigManager;
     private kurentoConnector: KurentoConnector | null = null;
     private sessions: Map<string, RecordingSession> = new Map();
+    private rooms: Map<string, RoomRecording> = new Map();
+    private pipSessions: Map<string, PipSession> = new Map();
+    private playbacks: Map<string, PlaybackSession> = new Map();
     private isInitialized: boolean = false;
     private disconnectionTimestamp: number | null = null;
     private pipelineReleaseTimers: Map<string, NodeJS.Timeout> = new Map();
+    private journal: SessionJournal | null;
+    private journalEntries: Map<string, SessionJournalEntry> = new Map();
+    private admissionController: AdmissionController;
+    /** STUN/TURN settings of endpoints that are not part of a recording session */
+    private iceConfig: KurentoIceConfig;
+    private turnCredentialProvider: TurnCredentialProvider | null = null;
 
     /**
      * Create a new RecordingManager
@@ -77,12 +148,26 @@ export class RecordingManager extends EventEmitter {
 
         // Validate and normalize config
         this.config = this.configManager.validateManagerConfig(config);
+        this.journal = this.config.journal || null;
+        this.admissionController = new AdmissionController(
+            this.config.admission as Required<AdmissionControlConfig>,
+            this.logger
+        );
+        this.iceConfig = toKurentoIceConfig(this.config.webrtc);
+
+        if (this.config.turnCredentials) {
+            this.turnCredentialProvider = new TurnCredentialProvider(
+                this.config.turnCredentials as Required<TurnCredentialConfig>,
+                this.logger
+            );
+        }
 
         this.logger.info('RecordingManager initialized', {
             kurentoUrl: this.config.kurentoUrl,
             logLevel: this.config.logLevel,
             preservePipelinesOnDisconnect: this.config.preservePipelinesOnDisconnect,
-            maxReconnectionTimeMs: this.config.maxReconnectionTimeMs
+            maxReconnectionTimeMs: this.config.maxReconnectionTimeMs,
+            ...describeIceConfig(this.iceConfig)
         });
     }
 
@@ -140,20 +225,8 @@ export class RecordingManager extends EventEmitter {
             // Connect to Kurento
             await this.kurentoConnector.connect();
 
-            // If this is a reconnection, clear the disconnection timestamp
-            if (this.disconnectionTimestamp !== null) {
-                // Calculate reconnection time
-                const reconnectionTime = Date.now() - this.disconnectionTimestamp;
-                this.logger.info('Reconnected to Kurento Media Server', {
-                    reconnectionTimeMs: reconnectionTime
-                });
-
-                // Clear any pipeline release timers
-                this.clearPipelineReleaseTimers();
-
-                // Reset disconnection timestamp
-                this.disconnectionTimestamp = null;
-            }
+            // If this is a reconnection, re-attach the sessions that survived it
+            await this.handleReconnection();
 
             // Make sure the temporary directory exists
             await this.ensureTempDirectory();
@@ -172,6 +245,62 @@ export class RecordingManager extends EventEmitter {
         }
     }
 
+    /**
+     * Re-bind preserved sessions after the connection to Kurento was re-established
+     * Sessions whose server-side objects survived are re-attached, the others are
+     * reported as lost and removed
+     */
+    private async handleReconnection(): Promise<void> {
+        if (this.disconnectionTimestamp === null) {
+            return;
+        }
+
+        // Calculate reconnection time
+        const reconnectionTime = Date.now() - this.disconnectionTimestamp;
+        this.logger.info('Reconnected to Kurento Media Server', {
+            reconnectionTimeMs: reconnectionTime
+        });
+
+        // Clear any pipeline release timers
+        this.clearPipelineReleaseTimers();
+
+        // Reset disconnection timestamp
+        this.disconnectionTimestamp = null;
+
+        const kurentoClient = this.kurentoConnector?.getClient();
+        if (!kurentoClient) {
+            return;
+        }
+
+        const sessions = [...this.sessions.values()];
+        this.logger.info(`Re-attaching ${sessions.length} preserved sessions`);
+
+        await Promise.all(sessions.map(async (session) => {
+            const sessionId = session.getSessionId();
+
+            try {
+                await session.reattach(kurentoClient);
+                this.emit(RecordingManagerEvent.SESSION_REATTACHED, {
+                    sessionId,
+                    state: session.getState(),
+                    reconnectionTimeMs: reconnectionTime
+                });
+            } catch (error: any) {
+                this.logger.warn('Session could not be re-attached after reconnection', { error, sessionId });
+
+                const result = await session.markLost(error);
+                this.removeSession(sessionId);
+                await session.release().catch(() => undefined);
+
+                this.emit(RecordingManagerEvent.SESSION_LOST, {
+                    sessionId,
+                    error,
+                    result
+                });
+            }
+        }));
+    }
+
     /**
      * Disconnect from Kurento Media Server
      * @param releasePipelines Whether to forcibly release pipelines, ignoring preservePipelinesOnDisconnect setting (default: false)
@@ -199,6 +328,22 @@ export class RecordingManager extends EventEmitter {
             }
         }
 
+        // Rooms are not preserved across reconnections
+        if (this.rooms.size > 0) {
+            this.logger.info(`Releasing ${this.rooms.size} room recordings`);
+            await this.releaseAllRooms();
+        }
+
+        if (this.pipSessions.size > 0) {
+            this.logger.info(`Releasing ${this.pipSessions.size} picture-in-picture sessions`);
+            await this.releaseAllPipSessions();
+        }
+
+        if (this.playbacks.size > 0) {
+            this.logger.info(`Releasing ${this.playbacks.size} playbacks`);
+            await this.releaseAllPlaybacks();
+        }
+
         // Disconnect from Kurento
         if (this.kurentoConnector) {
             try {
@@ -239,7 +384,7 @@ export class RecordingManager extends EventEmitter {
                     const session = this.sessions.get(sessionId);
                     if (session) {
                         await session.release();
-                        this.sessions.delete(sessionId);
+                        this.removeSession(sessionId);
                     }
 
                     // Remove the timer
@@ -291,7 +436,12 @@ export class RecordingManager extends EventEmitter {
         }
 
         // Validate and normalize options
-        const sessionOptions = this.configManager.validateSessionOptions(options, this.config.tempDir);
+        const sessionOptions = this.configManager.validateSessionOptions(
+            options,
+            this.config.tempDir,
+            this.config.sessionTimeouts,
+            this.config.webrtc
+        );
 
         // Check if session ID already exists
         if (this.sessions.has(sessionOptions.sessionId)) {
@@ -301,11 +451,17 @@ export class RecordingManager extends EventEmitter {
             );
         }
 
+        // Check quotas and make room by preempting lower-priority sessions if needed
+        await this.admitSession(sessionOptions);
+
         try {
+            const iceConfig = toKurentoIceConfig(sessionOptions.webrtc);
+
             this.logger.info('Creating new recording session', {
                 sessionId: sessionOptions.sessionId,
                 mediaProfile: sessionOptions.mediaProfile,
-                insertBlankScreenOnPause: sessionOptions.insertBlankScreenOnPause
+                pauseMode: sessionOptions.pauseMode,
+                ...describeIceConfig(iceConfig)
             });
 
             // Get Kurento client
@@ -320,7 +476,8 @@ export class RecordingManager extends EventEmitter {
             // Create a new media pipeline
             const pipeline = new MediaPipeline(
                 kurentoClient as any,
-                this.logger.createChild({ name: `Pipeline:${sessionOptions.sessionId}` })
+                this.logger.createChild({ name: `Pipeline:${sessionOptions.sessionId}` }),
+                iceConfig
             );
             await pipeline.initialize();
 
@@ -336,24 +493,39 @@ export class RecordingManager extends EventEmitter {
                 this.logger.createChild({ name: `Session:${sessionOptions.sessionId}` })
             );
 
-            // Initialize the session
-            await session.initialize();
+            try {
+                // Initialize the session
+                await session.initialize();
+
+                // A player source needs no negotiation, it is opened right away
+                if (sessionOptions.source.type === SourceType.PLAYER) {
+                    await session.openSource();
+                }
+            } catch (error) {
+                // Releasing the session stops its timers and releases the pipeline with its endpoints
+                await session.release().catch(() => pipeline.release().catch(() => undefined));
+                throw error;
+            }
 
             // Store the session
             this.sessions.set(sessionOptions.sessionId, session);
 
             // Set up event forwarding
             this.setupSessionEventForwarding(session);
+            this.journalSession(session);
 
             this.emit(RecordingManagerEvent.SESSION_CREATED, {
                 sessionId: sessionOptions.sessionId,
-                options: sessionOptions
+                options: sessionOptions,
+                // Ready for the publisher's RTCPeerConnection when TURN credentials are configured
+                turnCredentials: this.turnCredentialProvider?.issue(sessionOptions.sessionId)
             });
 
             this.logger.info('Recording session created', { sessionId: sessionOptions.sessionId });
             return session;
         } catch (error: any) {
             this.logger.error('Error creating recording session', { error, sessionId: sessionOptions.sessionId });
+            this.admissionController.release(sessionOptions.sessionId);
             throw new SessionError(
                 `Error creating recording session: ${error.message}`,
                 ErrorCode.SESSION_CREATION_FAILED,
@@ -362,6 +534,136 @@ export class RecordingManager extends EventEmitter {
         }
     }
 
+    /**
+     * Issue short-lived TURN credentials for a client
+     * The credentials are signed for the TURN REST API of the configured TURN server
+     * 
+     * @param userId Identifier of the client, e.g. a session, viewer or playback ID
+     * @returns Credentials and the ICE servers to pass to RTCPeerConnection
+     * @throws ConfigError if TURN credentials are not configured
+     */
+    createTurnCredentials(userId: string): TurnCredentials {
+        return this.getTurnCredentialProvider().issue(userId);
+    }
+
+    /**
+     * Add the next TURN shared secret
+     * Deploy the secret to the TURN server before it becomes valid
+     * 
+     * @param secret Shared secret
+     * @param validFrom Time in milliseconds since the epoch from which the secret signs credentials (default: now)
+     * @throws ConfigError if TURN credentials are not configured
+     */
+    rotateTurnSecret(secret: string, validFrom?: number): void {
+        this.getTurnCredentialProvider().rotateSecret(secret, validFrom);
+    }
+
+    /**
+     * Get the TURN credential provider or throw if TURN credentials are not configured
+     * 
+     * @returns TURN credential provider
+     */
+    private getTurnCredentialProvider(): TurnCredentialProvider {
+        if (!this.turnCredentialProvider) {
+            throw new ConfigError(
+                'TURN credentials are not configured',
+                ErrorCode.CONFIG_ERROR
+            );
+        }
+
+        return this.turnCredentialProvider;
+    }
+
+    /**
+     * Run admission control for a new session
+     * Preempted sessions are stopped before the method returns
+     * 
+     * @param sessionOptions Normalized session options
+     * @throws SessionError if the session does not fit within the limits
+     */
+    private async admitSession(sessionOptions: Required<RecordingSessionOptions>): Promise<void> {
+        const ticket = this.createAdmissionTicket(sessionOptions);
+        const decision = this.admissionController.evaluate(ticket);
+
+        if (!decision.admitted) {
+            this.logger.warn('Session admission rejected', {
+                sessionId: ticket.sessionId,
+                limit: decision.limit,
+                reason: decision.reason
+            });
+
+            this.emit(RecordingManagerEvent.ADMISSION_REJECTED, {
+                sessionId: ticket.sessionId,
+                admissionKey: ticket.key,
+                priority: ticket.priority,
+                limit: decision.limit,
+                reason: decision.reason
+            });
+
+            throw new SessionError(
+                `Session admission rejected: ${decision.reason}`,
+                ErrorCode.SESSION_ADMISSION_REJECTED,
+                { limit: decision.limit }
+            );
+        }
+
+        // Reserve capacity before stopping anything so concurrent requests see it as taken
+        decision.preempt.forEach(victim => this.admissionController.release(victim.sessionId));
+        this.admissionController.admit(ticket);
+
+        for (const victim of decision.preempt) {
+            this.logger.info('Preempting lower-priority session', {
+                sessionId: victim.sessionId,
+                priority: victim.priority,
+                preemptedBy: ticket.sessionId
+            });
+
+            const session = this.sessions.get(victim.sessionId);
+            if (!session) continue;
+
+            try {
+                let result: RecordingResult | undefined;
+
+                if (session.canTransition(RecordingState.STOPPING)) {
+                    result = await this.stopSession(victim.sessionId, 'preempted');
+                } else {
+                    // A session that is not recording has nothing to stop, it is released instead
+                    this.removeSession(victim.sessionId);
+                    await session.release();
+                }
+
+                this.emit(RecordingManagerEvent.SESSION_PREEMPTED, {
+                    sessionId: victim.sessionId,
+                    preemptedBy: ticket.sessionId,
+                    result
+                });
+            } catch (error: any) {
+                this.logger.error('Error stopping preempted session', { error, sessionId: victim.sessionId });
+
+                // A session that keeps running keeps its share of the limits
+                if (this.sessions.get(victim.sessionId) === session) {
+                    this.admissionController.admit(victim);
+                }
+            }
+        }
+    }
+
+    /**
+     * Describe the resource usage of a session for admission control
+     * 
+     * @param sessionOptions Normalized session options
+     * @returns Admission ticket
+     */
+    private createAdmissionTicket(sessionOptions: Required<RecordingSessionOptions>): AdmissionTicket {
+        return {
+            sessionId: sessionOptions.sessionId,
+            key: sessionOptions.admissionKey,
+            priority: sessionOptions.priority,
+            bitrate: sessionOptions.maxBitrate,
+            admittedAt: Date.now()
+        };
+    }
+
     /**
      * Get a recording session by ID
      * 
@@ -376,9 +678,10 @@ export class RecordingManager extends EventEmitter {
      * Stop a recording session by ID
      * 
      * @param sessionId Session ID
+     * @param reason Why the recording is stopped (default: 'user')
      * @returns RecordingResult
      */
-    async stopSession(sessionId: string): Promise<RecordingResult> {
+    async stopSession(sessionId: string, reason: RecordingStopReason = 'user'): Promise<RecordingResult> {
         const session = this.sessions.get(sessionId);
 
         if (!session) {
@@ -397,16 +700,8 @@ export class RecordingManager extends EventEmitter {
                 this.pipelineReleaseTimers.delete(sessionId);
             }
 
-            // Stop the recording
-            const result = await session.stop();
-
-            // Remove the session
-            this.sessions.delete(sessionId);
-
-            this.emit(RecordingManagerEvent.SESSION_ENDED, {
-                sessionId,
-                result
-            });
+            // Stop the recording, the session is removed when it reports the stop
+            const result = await session.stop(reason);
 
             this.logger.info('Recording session stopped', { sessionId, filePath: result.path });
             return result;
@@ -421,101 +716,986 @@ export class RecordingManager extends EventEmitter {
     }
 
     /**
-     * Stop all active recording sessions
+     * Create a room recording that mixes several participants into one file
+     * 
+     * @param options Room recording options
+     * @returns New RoomRecording, ready for participants to join
      */
-    async stopAllSessions(): Promise<void> {
-        const sessionIds = [...this.sessions.keys()];
-        this.logger.info(`Stopping all recording sessions (${sessionIds.length})`);
+    async createRoom(options: RoomRecordingOptions = {}): Promise<RoomRecording> {
+        // Ensure connected to Kurento
+        if (!this.isInitialized || !this.kurentoConnector || !this.kurentoConnector.isConnected()) {
+            this.logger.info('Not connected to Kurento Media Server, connecting...');
+            await this.connect();
+        }
 
-        // Clear all pipeline release timers
-        this.clearPipelineReleaseTimers();
+        const roomOptions = this.configManager.validateRoomOptions(options, this.config.tempDir);
+
+        if (this.rooms.has(roomOptions.roomId)) {
+            throw new SessionError(
+                `Room with ID ${roomOptions.roomId} already exists`,
+                ErrorCode.SESSION_ALREADY_EXISTS
+            );
+        }
+
+        try {
+            this.logger.info('Creating new room recording', { roomId: roomOptions.roomId });
+
+            const kurentoClient = this.kurentoConnector?.getClient();
+            if (!kurentoClient) {
+                throw new ConnectionError(
+                    'Kurento client is not available',
+                    ErrorCode.CONNECTION_FAILED
+                );
+            }
+
+            const pipeline = new MediaPipeline(
+                kurentoClient as any,
+                this.logger.createChild({ name: `Pipeline:${roomOptions.roomId}` }),
+                this.iceConfig
+            );
+            await pipeline.initialize();
+
+            const room = new RoomRecording(
+                roomOptions,
+                pipeline,
+                this.logger.createChild({ name: `Room:${roomOptions.roomId}` })
+            );
 
-        const stopPromises = sessionIds.map(async (sessionId) => {
             try {
-                await this.stopSession(sessionId);
-            } catch (error: any) {
-                this.logger.error(`Error stopping session ${sessionId}`, { error });
-                // Continue with other sessions even if one fails
+                await room.initialize();
+            } catch (error) {
+                await pipeline.release().catch(() => undefined);
+                throw error;
             }
-        });
 
-        await Promise.all(stopPromises);
-        this.logger.info('All recording sessions stopped');
+            this.rooms.set(roomOptions.roomId, room);
+
+            room.on('error', (error) => {
+                this.emit(RecordingManagerEvent.ERROR, {
+                    roomId: roomOptions.roomId,
+                    error
+                });
+            });
+
+            room.on('ice-candidate', (event) => {
+                this.emit(RecordingManagerEvent.ICE_CANDIDATE, {
+                    roomId: roomOptions.roomId,
+                    ...event,
+                    timestamp: Date.now()
+                });
+            });
+            room.on('ice-gathering-done', (event) => {
+                this.emit(RecordingManagerEvent.ICE_GATHERING_DONE, {
+                    roomId: roomOptions.roomId,
+                    ...event,
+                    timestamp: Date.now()
+                });
+            });
+            room.on('ice-component-state-changed', (event) => {
+                this.emit(RecordingManagerEvent.ICE_COMPONENT_STATE_CHANGED, {
+                    roomId: roomOptions.roomId,
+                    ...event,
+                    timestamp: Date.now()
+                });
+            });
+
+            this.emit(RecordingManagerEvent.ROOM_CREATED, {
+                roomId: roomOptions.roomId,
+                options: roomOptions
+            });
+
+            this.logger.info('Room recording created', { roomId: roomOptions.roomId });
+            return room;
+        } catch (error: any) {
+            this.logger.error('Error creating room recording', { error, roomId: roomOptions.roomId });
+            throw new SessionError(
+                `Error creating room recording: ${error.message}`,
+                ErrorCode.SESSION_CREATION_FAILED,
+                error
+            );
+        }
     }
 
     /**
-     * Get the number of active recording sessions
+     * Get a room recording by ID
      * 
-     * @returns Number of active sessions
+     * @param roomId Room ID
+     * @returns RoomRecording or null if not found
      */
-    getActiveSessionCount(): number {
-        return this.sessions.size;
+    getRoom(roomId: string): RoomRecording | null {
+        return this.rooms.get(roomId) || null;
     }
 
     /**
-     * Get the IDs of all active recording sessions
+     * Stop (if recording) and release a room recording
      * 
-     * @returns Array of session IDs
+     * @param roomId Room ID
+     * @returns Result of the mixed recording, if it was recording
      */
-    getActiveSessionIds(): string[] {
-        return [...this.sessions.keys()];
+    async releaseRoom(roomId: string): Promise<RecordingResult | undefined> {
+        const room = this.rooms.get(roomId);
+
+        if (!room) {
+            throw new SessionError(
+                `Room with ID ${roomId} not found`,
+                ErrorCode.SESSION_NOT_FOUND
+            );
+        }
+
+        let result: RecordingResult | undefined;
+
+        try {
+            if (room.getState() === RecordingState.RECORDING) {
+                result = await room.stop();
+            }
+        } catch (error: any) {
+            this.logger.error('Error stopping room recording', { error, roomId });
+        } finally {
+            this.rooms.delete(roomId);
+            await room.release();
+        }
+
+        this.emit(RecordingManagerEvent.ROOM_ENDED, { roomId, result });
+        return result;
     }
 
     /**
-     * Check if connected to Kurento Media Server
-     * 
-     * @returns true if connected
+     * Release all room recordings
      */
-    isConnected(): boolean {
-        return !!(this.kurentoConnector && this.kurentoConnector.isConnected());
+    private async releaseAllRooms(): Promise<void> {
+        await Promise.all([...this.rooms.keys()].map(async (roomId) => {
+            try {
+                await this.releaseRoom(roomId);
+            } catch (error: any) {
+                this.logger.error(`Error releasing room ${roomId}`, { error });
+            }
+        }));
     }
 
     /**
-     * Set up event forwarding from the Kurento connector
+     * Create a picture-in-picture session recording two sources into one file,
+     * e.g. a screen share with the presenter's camera as an inset
+     * 
+     * @param options Picture-in-picture session options
+     * @returns New PipSession, ready for the sources' offers
      */
-    private setupConnectorEventForwarding(): void {
-        if (!this.kurentoConnector) return;
+    async createPipSession(options: PipSessionOptions = {}): Promise<PipSession> {
+        // Ensure connected to Kurento
+        if (!this.isInitialized || !this.kurentoConnector || !this.kurentoConnector.isConnected()) {
+            this.logger.info('Not connected to Kurento Media Server, connecting...');
+            await this.connect();
+        }
 
-        // Forward connection events
-        this.kurentoConnector.on('connected', () => {
-            this.emit(RecordingManagerEvent.CONNECTED);
-        });
+        const pipOptions = this.configManager.validatePipSessionOptions(options, this.config.tempDir);
+        const sessionId = pipOptions.sessionId;
 
-        this.kurentoConnector.on('disconnected', () => {
-            // Set disconnection timestamp if we're preserving pipelines
-            if (this.config.preservePipelinesOnDisconnect && this.sessions.size > 0) {
-                this.disconnectionTimestamp = Date.now();
-                this.schedulePipelineRelease();
+        if (this.pipSessions.has(sessionId) || this.sessions.has(sessionId)) {
+            throw new SessionError(
+                `Session with ID ${sessionId} already exists`,
+                ErrorCode.SESSION_ALREADY_EXISTS
+            );
+        }
+
+        try {
+            this.logger.info('Creating new picture-in-picture session', { sessionId });
+
+            const kurentoClient = this.kurentoConnector?.getClient();
+            if (!kurentoClient) {
+                throw new ConnectionError(
+                    'Kurento client is not available',
+                    ErrorCode.CONNECTION_FAILED
+                );
             }
 
-            this.emit(RecordingManagerEvent.DISCONNECTED);
-        });
+            const pipeline = new MediaPipeline(
+                kurentoClient as any,
+                this.logger.createChild({ name: `Pipeline:${sessionId}` }),
+                this.iceConfig
+            );
+            await pipeline.initialize();
 
-        this.kurentoConnector.on('reconnecting', () => {
-            this.emit(RecordingManagerEvent.RECONNECTING);
-        });
+            const session = new PipSession(
+                pipOptions,
+                pipeline,
+                this.logger.createChild({ name: `PipSession:${sessionId}` })
+            );
 
-        this.kurentoConnector.on('reconnect_failed', (error) => {
-            this.emit(RecordingManagerEvent.CONNECTION_FAILED, error);
-        });
+            try {
+                await session.initialize();
+            } catch (error) {
+                await pipeline.release().catch(() => undefined);
+                throw error;
+            }
 
-        this.kurentoConnector.on('error', (error) => {
-            this.emit(RecordingManagerEvent.ERROR, error);
-        });
-    }
+            this.pipSessions.set(sessionId, session);
 
-    /**
-     * Set up event forwarding from recording sessions
-     * 
-     * @param session RecordingSession
-     */
-    private setupSessionEventForwarding(session: RecordingSession): void {
-        // Forward session events with the session ID
-        session.on('error', (error) => {
-            this.emit(RecordingManagerEvent.ERROR, {
-                sessionId: session.getSessionId(),
-                error
+            session.on('error', (error) => {
+                this.emit(RecordingManagerEvent.ERROR, {
+                    sessionId,
+                    error
+                });
+            });
+
+            session.on('ice-candidate', (event) => {
+                this.emit(RecordingManagerEvent.ICE_CANDIDATE, { sessionId, ...event, timestamp: Date.now() });
+            });
+            session.on('ice-gathering-done', (event) => {
+                this.emit(RecordingManagerEvent.ICE_GATHERING_DONE, { sessionId, ...event, timestamp: Date.now() });
+            });
+            session.on('ice-component-state-changed', (event) => {
+                this.emit(RecordingManagerEvent.ICE_COMPONENT_STATE_CHANGED, {
+                    sessionId,
+                    ...event,
+                    timestamp: Date.now()
+                });
+            });
+
+            this.emit(RecordingManagerEvent.PIP_SESSION_CREATED, {
+                sessionId,
+                options: pipOptions
+            });
+
+            this.logger.info('Picture-in-picture session created', { sessionId });
+            return session;
+        } catch (error: any) {
+            this.logger.error('Error creating picture-in-picture session', { error, sessionId });
+            throw new SessionError(
+                `Error creating picture-in-picture session: ${error.message}`,
+                ErrorCode.SESSION_CREATION_FAILED,
+                error
+            );
+        }
+    }
+
+    /**
+     * Get a picture-in-picture session by ID
+     * 
+     * @param sessionId Session ID
+     * @returns PipSession or null if not found
+     */
+    getPipSession(sessionId: string): PipSession | null {
+        return this.pipSessions.get(sessionId) || null;
+    }
+
+    /**
+     * Stop (if recording) and release a picture-in-picture session
+     * 
+     * @param sessionId Session ID
+     * @returns Result of the recording, if it was recording
+     */
+    async releasePipSession(sessionId: string): Promise<RecordingResult | undefined> {
+        const session = this.pipSessions.get(sessionId);
+
+        if (!session) {
+            throw new SessionError(
+                `Picture-in-picture session with ID ${sessionId} not found`,
+                ErrorCode.SESSION_NOT_FOUND
+            );
+        }
+
+        let result: RecordingResult | undefined;
+
+        try {
+            if (session.getState() === RecordingState.RECORDING) {
+                result = await session.stop();
+            }
+        } catch (error: any) {
+            this.logger.error('Error stopping picture-in-picture session', { error, sessionId });
+        } finally {
+            this.pipSessions.delete(sessionId);
+            await session.release();
+        }
+
+        this.emit(RecordingManagerEvent.PIP_SESSION_ENDED, { sessionId, result });
+        return result;
+    }
+
+    /**
+     * Play a finished recording back to a browser over WebRTC
+     * The playback is released automatically when the viewer disconnects
+     * 
+     * @param source Result of the recording, or the path or URI of a recorded file
+     * @param sdpOffer Receive-only SDP offer of the viewer
+     * @param options Playback options
+     * @returns The playback, ready to play, and the SDP answer
+     */
+    async createPlayback(
+        source: RecordingResult | string,
+        sdpOffer: string | SdpData,
+        options: PlaybackOptions = {}
+    ): Promise<PlaybackConnection> {
+        // Ensure connected to Kurento
+        if (!this.isInitialized || !this.kurentoConnector || !this.kurentoConnector.isConnected()) {
+            this.logger.info('Not connected to Kurento Media Server, connecting...');
+            await this.connect();
+        }
+
+        const playbackId = options.playbackId || uuidv4();
+        const uri = toMediaUri(this.getPlaybackPath(source));
+
+        if (this.playbacks.has(playbackId)) {
+            throw new SessionError(
+                `Playback with ID ${playbackId} already exists`,
+                ErrorCode.SESSION_ALREADY_EXISTS
+            );
+        }
+
+        try {
+            this.logger.info('Creating new playback', { playbackId, uri });
+
+            const kurentoClient = this.kurentoConnector?.getClient();
+            if (!kurentoClient) {
+                throw new ConnectionError(
+                    'Kurento client is not available',
+                    ErrorCode.CONNECTION_FAILED
+                );
+            }
+
+            const pipeline = new MediaPipeline(
+                kurentoClient as any,
+                this.logger.createChild({ name: `Pipeline:${playbackId}` }),
+                this.iceConfig
+            );
+            await pipeline.initialize();
+
+            const playback = new PlaybackSession(
+                playbackId,
+                uri,
+                pipeline,
+                options.connectTimeoutMs ?? DEFAULT_PLAYBACK_OPTIONS.connectTimeoutMs,
+                this.logger.createChild({ name: `Playback:${playbackId}` })
+            );
+
+            // Candidates are found while connecting, before the playback is returned
+            playback.on('ice-candidate', (candidate) => {
+                this.emit(RecordingManagerEvent.ICE_CANDIDATE, { playbackId, candidate, timestamp: Date.now() });
+            });
+            playback.on('ice-gathering-done', ({ timestamp }) => {
+                this.emit(RecordingManagerEvent.ICE_GATHERING_DONE, { playbackId, timestamp });
+            });
+            playback.on('ice-component-state-changed', (event) => {
+                this.emit(RecordingManagerEvent.ICE_COMPONENT_STATE_CHANGED, {
+                    playbackId,
+                    ...event,
+                    timestamp: Date.now()
+                });
+            });
+
+            let sdpAnswer: SdpData;
+            try {
+                sdpAnswer = await playback.connect(sdpOffer);
+            } catch (error) {
+                await pipeline.release().catch(() => undefined);
+                throw error;
+            }
+
+            this.playbacks.set(playbackId, playback);
+
+            playback.on('error', (error) => {
+                this.emit(RecordingManagerEvent.ERROR, {
+                    playbackId,
+                    error
+                });
+            });
+
+            // Covers playbacks released by their viewer disconnecting
+            playback.on('released', ({ reason }) => {
+                if (this.playbacks.get(playbackId) !== playback) return;
+
+                this.playbacks.delete(playbackId);
+                this.emit(RecordingManagerEvent.PLAYBACK_ENDED, { playbackId, reason });
+            });
+
+            this.emit(RecordingManagerEvent.PLAYBACK_CREATED, { playbackId, uri });
+
+            this.logger.info('Playback created', { playbackId });
+            return { playback, sdpAnswer };
+        } catch (error: any) {
+            this.logger.error('Error creating playback', { error, playbackId });
+            throw new SessionError(
+                `Error creating playback: ${error.message}`,
+                ErrorCode.SESSION_CREATION_FAILED,
+                error
+            );
+        }
+    }
+
+    /**
+     * Get a playback by ID
+     * 
+     * @param playbackId Playback ID
+     * @returns PlaybackSession or null if not found
+     */
+    getPlayback(playbackId: string): PlaybackSession | null {
+        return this.playbacks.get(playbackId) || null;
+    }
+
+    /**
+     * Release a playback
+     * 
+     * @param playbackId Playback ID
+     */
+    async releasePlayback(playbackId: string): Promise<void> {
+        const playback = this.playbacks.get(playbackId);
+
+        if (!playback) {
+            throw new SessionError(
+                `Playback with ID ${playbackId} not found`,
+                ErrorCode.SESSION_NOT_FOUND
+            );
+        }
+
+        await playback.release();
+    }
+
+    /**
+     * Release all playbacks
+     */
+    private async releaseAllPlaybacks(): Promise<void> {
+        await Promise.all([...this.playbacks.keys()].map(async (playbackId) => {
+            try {
+                await this.releasePlayback(playbackId);
+            } catch (error: any) {
+                this.logger.error(`Error releasing playback ${playbackId}`, { error });
+            }
+        }));
+    }
+
+    /**
+     * Get the file a recording is played back from
+     * 
+     * @param source Result of the recording, or a path or URI
+     * @returns Path or URI of the file
+     * @throws SessionError if the recording was split into files that cannot be played together
+     */
+    private getPlaybackPath(source: RecordingResult | string): string {
+        if (typeof source === 'string') {
+            return source;
+        }
+
+        // The base path of a split recording names no file of its own
+        if (source.outputs && !source.outputs.some(output => output.path === source.path)) {
+            throw new SessionError(
+                'Recording was split into separate files, play one of its outputs instead',
+                ErrorCode.INVALID_PARAMETER,
+                { outputs: source.outputs.map(output => output.path) }
+            );
+        }
+
+        return source.path;
+    }
+
+    /**
+     * Release all picture-in-picture sessions
+     */
+    private async releaseAllPipSessions(): Promise<void> {
+        await Promise.all([...this.pipSessions.keys()].map(async (sessionId) => {
+            try {
+                await this.releasePipSession(sessionId);
+            } catch (error: any) {
+                this.logger.error(`Error releasing picture-in-picture session ${sessionId}`, { error });
+            }
+        }));
+    }
+
+    /**
+     * Recover sessions persisted in the session journal
+     * Sessions whose pipeline is still alive on the Kurento server are re-attached and
+     * resume under this manager; recordings whose pipeline died are finalized from the
+     * journal and reported
+     * 
+     * @returns Recovery report
+     */
+    async recover(): Promise<SessionRecoveryReport> {
+        const report: SessionRecoveryReport = { recovered: [], finalized: [], discarded: [] };
+
+        if (!this.journal) {
+            this.logger.debug('Session journal disabled, nothing to recover');
+            return report;
+        }
+
+        if (!this.isInitialized || !this.kurentoConnector || !this.kurentoConnector.isConnected()) {
+            await this.connect();
+        }
+
+        const entries = await this.journal.load();
+        this.logger.info(`Recovering ${entries.length} journaled sessions`);
+
+        for (const entry of entries) {
+            if (this.sessions.has(entry.sessionId)) {
+                continue;
+            }
+
+            try {
+                const session = await this.recoverSession(entry);
+
+                if (session) {
+                    report.recovered.push(session);
+                    this.emit(RecordingManagerEvent.SESSION_RECOVERED, {
+                        sessionId: entry.sessionId,
+                        state: session.getState()
+                    });
+                } else if (entry.startTime > 0) {
+                    const result = await this.finalizeJournalEntry(entry);
+                    report.finalized.push(result);
+                    this.emit(RecordingManagerEvent.SESSION_FINALIZED, {
+                        sessionId: entry.sessionId,
+                        result
+                    });
+                } else {
+                    await this.journal.remove(entry.sessionId);
+                    report.discarded.push(entry.sessionId);
+                }
+            } catch (error: any) {
+                this.logger.error('Error recovering session', { error, sessionId: entry.sessionId });
+                this.emit(RecordingManagerEvent.ERROR, {
+                    sessionId: entry.sessionId,
+                    error
+                });
+            }
+        }
+
+        this.logger.info('Session recovery completed', {
+            recovered: report.recovered.length,
+            finalized: report.finalized.length,
+            discarded: report.discarded.length
+        });
+
+        return report;
+    }
+
+    /**
+     * Try to re-attach a journaled session to its server-side pipeline
+     * Pipelines that cannot be resumed are released
+     * 
+     * @param entry Journal entry
+     * @returns The recovered session, or null if it could not be re-attached
+     */
+    private async recoverSession(entry: SessionJournalEntry): Promise<RecordingSession | null> {
+        const kurentoClient = this.kurentoConnector?.getClient();
+        if (!kurentoClient || !entry.pipelineId) {
+            return null;
+        }
+
+        // Journal entries written before sessions had their own ICE servers use the manager's,
+        // as do sessions with a TURN server, whose credentials are not journaled
+        const hasTurnServer = getIceServerUrls(entry.options.webrtc)
+            .some(url => parseIceServerUrl(url).scheme.startsWith('turn'));
+        const pipeline = new MediaPipeline(
+            kurentoClient as any,
+            this.logger.createChild({ name: `Pipeline:${entry.sessionId}` }),
+            toKurentoIceConfig(entry.options.webrtc && !hasTurnServer ? entry.options.webrtc : this.config.webrtc)
+        );
+
+        try {
+            await pipeline.attach(entry.pipelineId);
+        } catch (error) {
+            this.logger.info('Pipeline of journaled session no longer exists', {
+                sessionId: entry.sessionId,
+                pipelineId: entry.pipelineId
+            });
+            return null;
+        }
+
+        const resumable = entry.state === RecordingState.RECORDING || entry.state === RecordingState.PAUSED;
+        if (!resumable) {
+            this.logger.info('Releasing pipeline of journaled session that cannot be resumed', {
+                sessionId: entry.sessionId,
+                state: entry.state
+            });
+            await pipeline.release();
+            return null;
+        }
+
+        const session = new RecordingSession(
+            entry.options,
+            pipeline,
+            this.logger.createChild({ name: `Session:${entry.sessionId}` })
+        );
+
+        try {
+            await session.initialize();
+            await session.restore(entry);
+        } catch (error) {
+            this.logger.warn('Failed to re-attach journaled session, releasing its pipeline', {
+                error,
+                sessionId: entry.sessionId
             });
+            await session.release().catch(() => undefined);
+            return null;
+        }
+
+        // Recovered sessions do not preempt each other, one that no longer fits the limits is stopped
+        // and finalized like a session whose pipeline died
+        const ticket = this.createAdmissionTicket(entry.options);
+        const decision = this.admissionController.evaluate(ticket, false);
+        if (!decision.admitted) {
+            this.logger.warn('Journaled session exceeds the admission limits, stopping it', {
+                sessionId: entry.sessionId,
+                limit: decision.limit,
+                reason: decision.reason
+            });
+
+            this.emit(RecordingManagerEvent.ADMISSION_REJECTED, {
+                sessionId: ticket.sessionId,
+                admissionKey: ticket.key,
+                priority: ticket.priority,
+                limit: decision.limit,
+                reason: decision.reason
+            });
+
+            await session.stop('lost').catch((error) => {
+                this.logger.warn('Error stopping journaled session', { error, sessionId: entry.sessionId });
+            });
+            await session.release().catch(() => undefined);
+            return null;
+        }
+
+        this.journalEntries.set(entry.sessionId, entry);
+        this.sessions.set(entry.sessionId, session);
+        this.admissionController.admit(ticket);
+        this.setupSessionEventForwarding(session);
+        this.journalSession(session);
+
+        this.logger.info('Recovered recording session', { sessionId: entry.sessionId, state: entry.state });
+        return session;
+    }
+
+    /**
+     * Build the recording result of a session that died and drop its journal entry
+     * 
+     * @param entry Journal entry
+     * @returns Recording result
+     */
+    private async finalizeJournalEntry(entry: SessionJournalEntry): Promise<RecordingResult> {
+        const filePath = entry.options.filePath;
+        const openSegment = entry.segments?.[entry.segments.length - 1];
+        const activePath = openSegment ? openSegment.path : filePath;
+        let end = entry.updatedAt;
+        let size: number | undefined;
+
+        // The file keeps growing until the pipeline dies, so its mtime is the best end estimate
+        const outputs = getRecordingOutputs(activePath, entry.options.mediaProfile, entry.options.recordingMode);
+        for (const output of outputs) {
+            try {
+                const fileStats = await stat(output.path);
+                output.size = fileStats.size;
+                size = (size ?? 0) + fileStats.size;
+                end = Math.max(end, fileStats.mtimeMs);
+            } catch (error) {
+                this.logger.debug('Recording file not accessible, using journal timestamps', { filePath: output.path });
+            }
+        }
+
+        let pausedMs = entry.totalPausedTime;
+        if (entry.pauseStartTime > 0) {
+            pausedMs += end - entry.pauseStartTime;
+        }
+
+        const elapsedMs = Math.max(0, end - entry.startTime);
+        const pauseMode = entry.options.pauseMode ??
+            (entry.options.insertBlankScreenOnPause ? PauseMode.SLATE : PauseMode.CUT);
+        const durationMs = pauseMode === PauseMode.CUT ? elapsedMs - pausedMs : elapsedMs;
+
+        // Only the last segment was still being written when the session died
+        const segments = (entry.segments ?? []).map((segment) => {
+            if (segment !== openSegment) {
+                return segment;
+            }
+
+            return {
+                ...segment,
+                duration: Math.max(0, end - segment.timestamp.start) / 1000,
+                size,
+                ...(outputs.length > 1 ? { outputs } : {}),
+                timestamp: { start: segment.timestamp.start, end }
+            };
+        });
+
+        const result: RecordingResult = {
+            path: filePath,
+            duration: Math.max(0, Math.round(durationMs / 1000)),
+            size: segments.length > 1
+                ? segments.reduce((total, segment) => total + (segment.size ?? 0), 0)
+                : size,
+            segments,
+            mediaProfile: entry.options.mediaProfile,
+            sessionId: entry.sessionId,
+            stopReason: 'lost',
+            timestamp: {
+                start: entry.startTime,
+                end
+            }
+        };
+
+        const resultOutputs = await readOutputSizes(getRecordingOutputs(
+            filePath,
+            entry.options.mediaProfile,
+            entry.options.recordingMode,
+            entry.options.outputs ?? []
+        ));
+        if (resultOutputs.length > 1) {
+            result.outputs = resultOutputs;
+        }
+
+        if (this.journal) {
+            await this.journal.remove(entry.sessionId);
+        }
+
+        this.logger.info('Finalized recording of lost session', {
+            sessionId: entry.sessionId,
+            filePath,
+            duration: result.duration
+        });
+
+        return result;
+    }
+
+    /**
+     * Stop all active recording sessions
+     */
+    async stopAllSessions(): Promise<void> {
+        const sessionIds = [...this.sessions.keys()];
+        this.logger.info(`Stopping all recording sessions (${sessionIds.length})`);
+
+        // Clear all pipeline release timers
+        this.clearPipelineReleaseTimers();
+
+        const stopPromises = sessionIds.map(async (sessionId) => {
+            try {
+                await this.stopSession(sessionId);
+            } catch (error: any) {
+                this.logger.error(`Error stopping session ${sessionId}`, { error });
+                // Continue with other sessions even if one fails
+            }
+        });
+
+        await Promise.all(stopPromises);
+        this.logger.info('All recording sessions stopped');
+    }
+
+    /**
+     * Get the number of active recording sessions
+     * 
+     * @returns Number of active sessions
+     */
+    getActiveSessionCount(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Get the IDs of all active recording sessions
+     * 
+     * @returns Array of session IDs
+     */
+    getActiveSessionIds(): string[] {
+        return [...this.sessions.keys()];
+    }
+
+    /**
+     * Check if connected to Kurento Media Server
+     * 
+     * @returns true if connected
+     */
+    isConnected(): boolean {
+        return !!(this.kurentoConnector && this.kurentoConnector.isConnected());
+    }
+
+    /**
+     * Set up event forwarding from the Kurento connector
+     */
+    private setupConnectorEventForwarding(): void {
+        if (!this.kurentoConnector) return;
+
+        // Forward connection events
+        this.kurentoConnector.on('connected', () => {
+            this.emit(RecordingManagerEvent.CONNECTED);
+        });
+
+        this.kurentoConnector.on('disconnected', () => {
+            // Remember when we lost the connection so sessions can be re-attached on reconnect
+            if (this.sessions.size > 0) {
+                this.disconnectionTimestamp = Date.now();
+
+                if (this.config.preservePipelinesOnDisconnect && this.config.maxReconnectionTimeMs > 0) {
+                    this.schedulePipelineRelease();
+                }
+            }
+
+            this.emit(RecordingManagerEvent.DISCONNECTED);
+        });
+
+        this.kurentoConnector.on('reconnected', () => {
+            this.handleReconnection().catch((error) => {
+                this.logger.error('Error re-attaching sessions after reconnection', { error });
+            });
+        });
+
+        this.kurentoConnector.on('reconnecting', () => {
+            this.emit(RecordingManagerEvent.RECONNECTING);
+        });
+
+        this.kurentoConnector.on('reconnect_failed', (error) => {
+            this.emit(RecordingManagerEvent.CONNECTION_FAILED, error);
+        });
+
+        this.kurentoConnector.on('error', (error) => {
+            this.emit(RecordingManagerEvent.ERROR, error);
+        });
+    }
+
+    /**
+     * Set up event forwarding from recording sessions
+     * 
+     * @param session RecordingSession
+     */
+    private setupSessionEventForwarding(session: RecordingSession): void {
+        // Forward session events with the session ID
+        session.on('error', (error) => {
+            this.emit(RecordingManagerEvent.ERROR, {
+                sessionId: session.getSessionId(),
+                error
+            });
+        });
+
+        // Relay the server's ICE events to the signaling layer (trickle ICE)
+        session.on('ice-candidate', (event) => this.emit(RecordingManagerEvent.ICE_CANDIDATE, event));
+        session.on('ice-gathering-done', (event) => this.emit(RecordingManagerEvent.ICE_GATHERING_DONE, event));
+        session.on('ice-component-state-changed', (event) => {
+            this.emit(RecordingManagerEvent.ICE_COMPONENT_STATE_CHANGED, event);
+        });
+
+        // Keep the journal in sync with the session
+        session.on('state-change', () => this.journalSession(session));
+        session.on('paused', () => this.journalSession(session));
+        session.on('resumed', () => this.journalSession(session));
+        session.on('endpoints-created', () => this.journalSession(session));
+        session.on('segment-completed', () => this.journalSession(session));
+        session.on('filter-added', () => this.journalSession(session));
+        session.on('filter-removed', () => this.journalSession(session));
+
+        // Sessions may stop on their own (e.g. when a recording limit is reached)
+        session.on('recording-stopped', (result) => {
+            if (this.sessions.get(result.sessionId) !== session) return;
+
+            this.removeSession(result.sessionId);
+            this.emit(RecordingManagerEvent.SESSION_ENDED, {
+                sessionId: result.sessionId,
+                result
+            });
+        });
+
+        session.on('timed-out', (event) => {
+            this.handleSessionTimeout(session, event).catch((error) => {
+                this.logger.error('Error cleaning up timed out session', {
+                    error,
+                    sessionId: session.getSessionId()
+                });
+            });
+        });
+    }
+
+    /**
+     * Stop (if recording) and release a session that timed out
+     * 
+     * @param session RecordingSession
+     * @param event Timeout event
+     */
+    private async handleSessionTimeout(session: RecordingSession, event: SessionTimeoutEvent): Promise<void> {
+        const sessionId = session.getSessionId();
+        if (this.sessions.get(sessionId) !== session) return;
+
+        this.logger.warn('Session timed out, cleaning up', {
+            sessionId,
+            reason: event.reason,
+            state: event.state,
+            timeoutMs: event.timeoutMs
+        });
+
+        let result: RecordingResult | undefined;
+
+        try {
+            if (session.canTransition(RecordingState.STOPPING)) {
+                result = await this.stopSession(sessionId, 'timeout');
+            }
+        } catch (error: any) {
+            this.logger.error('Error stopping timed out session', { error, sessionId });
+        } finally {
+            this.removeSession(sessionId);
+            await session.release();
+        }
+
+        this.emit(RecordingManagerEvent.SESSION_TIMED_OUT, {
+            sessionId,
+            reason: event.reason,
+            state: event.state,
+            error: new SessionError(
+                `Session ${sessionId} timed out in state ${event.state} (${event.reason})`,
+                ErrorCode.TIMEOUT,
+                event
+            ),
+            result
+        });
+    }
+
+    /**
+     * Persist the current snapshot of a session to the journal
+     * 
+     * @param session RecordingSession
+     */
+    private journalSession(session: RecordingSession): void {
+        if (!this.journal) return;
+
+        const sessionId = session.getSessionId();
+        if (!this.sessions.has(sessionId)) return;
+
+        const snapshot = session.getSnapshot();
+        const previous = this.journalEntries.get(sessionId);
+        const now = Date.now();
+
+        const transitions = previous ? previous.transitions : [];
+        if (!previous || previous.state !== snapshot.state) {
+            transitions.push({ state: snapshot.state, timestamp: now });
+        }
+
+        const entry: SessionJournalEntry = {
+            ...snapshot,
+            // Journal files are plain JSON on disk, credentials stay in memory
+            options: redactSecrets(snapshot.options),
+            createdAt: previous ? previous.createdAt : now,
+            updatedAt: now,
+            transitions
+        };
+
+        this.journalEntries.set(sessionId, entry);
+        this.journal.save(entry).catch((error) => {
+            this.logger.error('Error writing session journal entry', { error, sessionId });
+        });
+    }
+
+    /**
+     * Drop a session from the manager, the journal and admission control
+     * 
+     * @param sessionId Session ID
+     */
+    private removeSession(sessionId: string): void {
+        this.sessions.delete(sessionId);
+        this.forgetSession(sessionId);
+        this.admissionController.release(sessionId);
+    }
+
+    /**
+     * Remove a session from the journal
+     * 
+     * @param sessionId Session ID
+     */
+    private forgetSession(sessionId: string): void {
+        this.journalEntries.delete(sessionId);
+
+        if (!this.journal) return;
+
+        this.journal.remove(sessionId).catch((error) => {
+            this.logger.error('Error removing session journal entry', { error, sessionId });
         });
     }
 
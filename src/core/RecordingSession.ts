@@ -3,43 +3,105 @@
  */
 
 import * as fs from 'fs';
+import * as path from 'path';
 import { promisify } from 'util';
 import { TypedEventEmitter } from '../events';
-import { Logger } from '../utils';
+import {
+    Logger,
+    parseColor,
+    encodeSolidColorPng,
+    toMediaUri,
+    normalizeFilterSpec,
+    getRecordingOutputs,
+    readOutputSizes,
+    getTotalSize
+} from '../utils';
 import { SessionError, MediaError, WebRTCError } from '../errors';
-import { ErrorCode } from '../constants';
+import {
+    ErrorCode,
+    LIMIT_CHECK_INTERVAL_MS,
+    DEFAULT_QUALITY_SETTINGS,
+    DEFAULT_ADAPTIVE_BITRATE_OPTIONS
+} from '../constants';
 import {
     RecordingSessionOptions,
     RecordingState,
     RecordingResult,
     SdpData,
     IceCandidate,
+    IceCandidateEvent,
+    IceGatheringDoneEvent,
+    IceComponentStateEvent,
+    ViewerConnection,
+    ViewerEvent,
     NetworkQualityEvent,
     QualityChangedEvent,
     RecordingMode,
-    PauseType
+    PauseType,
+    PauseMode,
+    SourceType,
+    SourceEvent,
+    SessionJournalEntry,
+    StateTransitionEvent,
+    SessionTimeoutEvent,
+    SessionTimeoutReason,
+    RecordingLimit,
+    RecordingLimitEvent,
+    RecordingStopReason,
+    RecordingSegment,
+    RecordingOutput,
+    SlateElements,
+    SlateElementOptions,
+    FilterSpec
 } from '../types';
 import { MediaPipeline } from './MediaPipeline';
 import { WebRTCHandler } from './WebRTCHandler';
-import { EndpointManager, EndpointCreationOptions } from './EndpointManager';
+import { PlayerHandler } from './PlayerHandler';
+import { EndpointManager, EndpointCreationOptions, EndpointIds } from './EndpointManager';
+import { ViewerManager } from './ViewerManager';
+import { NetworkQualityMonitor } from './NetworkQualityMonitor';
+import { AdaptiveBitrateController, AdaptiveBitrateDecision } from './AdaptiveBitrateController';
+import { canTransition } from './SessionStateMachine';
 
-const stat = promisify(fs.stat);
+const writeFile = promisify(fs.writeFile);
+const unlink = promisify(fs.unlink);
+
+/** Pipeline registry ID of the pause blank screen element */
+const BLANK_SCREEN_ELEMENT_ID = 'blank-screen';
 
 /**
  * Events emitted by RecordingSession
  */
 export interface RecordingSessionEvents {
-    'state-change': RecordingState;
+    'state-change': StateTransitionEvent;
+    'transition-rejected': StateTransitionEvent;
     'recording-started': { timestamp: number };
     'recording-stopped': RecordingResult;
     'quality-changed': QualityChangedEvent;
     'network-quality': NetworkQualityEvent;
-    'ice-candidate': IceCandidate;
+    'ice-candidate': IceCandidateEvent;
+    'ice-gathering-done': IceGatheringDoneEvent;
+    'ice-component-state-changed': IceComponentStateEvent;
     'paused': { timestamp: number, pauseType: PauseType };
     'resumed': { timestamp: number, pauseDurationMs: number, resumeType?: PauseType };
+    'endpoints-created': EndpointIds;
+    'timed-out': SessionTimeoutEvent;
+    'limit-warning': RecordingLimitEvent;
+    'segment-completed': RecordingSegment;
+    'filter-added': FilterSpec;
+    'filter-removed': FilterSpec;
+    'viewer-added': ViewerEvent;
+    'viewer-removed': ViewerEvent;
+    'source-ended': SourceEvent;
+    'source-error': SourceEvent;
     'error': Error;
 }
 
+/**
+ * Persistable snapshot of a session
+ */
+export type RecordingSessionSnapshot = Omit<SessionJournalEntry, 'createdAt' | 'updatedAt' | 'transitions'>;
+
 /**
  * Manages a single recording session
  */
@@ -48,16 +110,35 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
     private options: Required<RecordingSessionOptions>;
     private pipeline: MediaPipeline;
     private webrtcHandler: WebRTCHandler;
+    /** Plays the input of a session with a player source */
+    private playerHandler: PlayerHandler | null = null;
     private endpointManager: EndpointManager | null = null;
+    private viewerManager: ViewerManager;
+    private qualityMonitor: NetworkQualityMonitor;
+    private bitrateController: AdaptiveBitrateController | null = null;
+    private adaptingQuality: boolean = false;
+    private isVideoFallback: boolean = false;
     private state: RecordingState = RecordingState.CREATED;
     private startTime: number = 0;
     private stopTime: number = 0;
     private pauseStartTime: number = 0;
+    private mediaPauseStartTime: number = 0;
     private totalPausedTime: number = 0;
-    private blankScreenElement: any = null;
+    private blankScreen: SlateElements | null = null;
+    private slateImagePath: string | null = null;
     private pauseType: PauseType = PauseType.BOTH;
     private isAudioPaused: boolean = false;
     private isVideoPaused: boolean = false;
+    private flowingMedia: Set<string> = new Set();
+    private timeoutTimer: NodeJS.Timeout | null = null;
+    private timeoutReason: SessionTimeoutReason | null = null;
+    private monitorTimer: NodeJS.Timeout | null = null;
+    private limitWarnings: Set<RecordingLimit> = new Set();
+    private stopReason: RecordingStopReason = 'user';
+    private segments: RecordingSegment[] = [];
+    private currentSegment: RecordingSegment | null = null;
+    private rotation: Promise<RecordingSegment> | null = null;
+    private segmentCutTime: number = 0;
 
     /**
      * Create a new RecordingSession
@@ -82,11 +163,69 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
         });
 
         this.webrtcHandler = new WebRTCHandler(this.logger);
+        this.webrtcHandler.on('media-flow-in', ({ mediaType, flowing }) => {
+            this.updateMediaFlow(mediaType, flowing);
+        });
+        this.webrtcHandler.on('ice-candidate', (candidate) => {
+            this.emit('ice-candidate', { ...this.createIceEventBase(), candidate });
+        });
+        this.webrtcHandler.on('ice-gathering-done', () => {
+            this.emit('ice-gathering-done', this.createIceEventBase());
+        });
+        this.webrtcHandler.on('ice-component-state-changed', (event) => {
+            this.emit('ice-component-state-changed', { ...this.createIceEventBase(), ...event });
+        });
+
+        if (options.source?.type === SourceType.PLAYER) {
+            this.playerHandler = new PlayerHandler(options.source.uri!, this.logger);
+            this.playerHandler.on('media-flow-out', ({ mediaType, flowing }) => {
+                this.updateMediaFlow(mediaType, flowing);
+            });
+            this.playerHandler.on('end-of-stream', () => {
+                this.handleEndOfStream().catch((error: any) => {
+                    this.logger.error('Error handling end of stream', { error });
+                });
+            });
+            this.playerHandler.on('error', (error) => {
+                this.emitSourceEvent('source-error', error);
+            });
+        }
+
+        this.qualityMonitor = new NetworkQualityMonitor(
+            options.sessionId,
+            this.webrtcHandler,
+            options.statsIntervalMs,
+            this.logger
+        );
+        this.qualityMonitor.on('network-quality', (event) => {
+            this.emit('network-quality', event);
+            this.adaptQuality(event);
+        });
+
+        if (options.adaptiveBitrate && !this.playerHandler) {
+            this.bitrateController = new AdaptiveBitrateController(
+                { ...DEFAULT_ADAPTIVE_BITRATE_OPTIONS, ...options.adaptiveBitrate },
+                { minBitrate: options.minBitrate, maxBitrate: options.maxBitrate },
+                DEFAULT_QUALITY_SETTINGS[options.quality].minBitrate,
+                this.logger
+            );
+        }
+
+        this.viewerManager = new ViewerManager(pipeline, options.maxViewers, this.logger);
+        this.viewerManager.on('ice-candidate', ({ viewerId, candidate }) => {
+            this.emit('ice-candidate', { ...this.createIceEventBase(viewerId), candidate });
+        });
+        this.viewerManager.on('ice-gathering-done', ({ viewerId }) => {
+            this.emit('ice-gathering-done', this.createIceEventBase(viewerId));
+        });
+        this.viewerManager.on('ice-component-state-changed', ({ viewerId, ...event }) => {
+            this.emit('ice-component-state-changed', { ...this.createIceEventBase(viewerId), ...event });
+        });
         this.logger.info('Recording session created', {
             sessionId: options.sessionId,
             recordingMode: options.recordingMode,
             mediaProfile: options.mediaProfile,
-            insertBlankScreenOnPause: options.insertBlankScreenOnPause
+            pauseMode: options.pauseMode
         });
     }
 
@@ -101,11 +240,11 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
             this.endpointManager = new EndpointManager(this.pipeline, this.logger);
 
             // Created initialized state
-            this.setState(RecordingState.READY);
+            this.transition(RecordingState.READY, 'initialize');
             this.logger.info('Recording session initialized and ready');
         } catch (error: any) {
             this.logger.error('Failed to initialize recording session', { error });
-            this.setState(RecordingState.ERROR);
+            this.transition(RecordingState.ERROR, 'initialize-failed');
             throw new SessionError(
                 `Failed to initialize recording session: ${error.message}`,
                 ErrorCode.SESSION_CREATION_FAILED,
@@ -121,10 +260,13 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
      * @returns SDP answer
      */
     async processOffer(sdpOffer: string | SdpData): Promise<SdpData> {
-        if (this.state !== RecordingState.READY) {
+        this.assertState([RecordingState.READY], 'process offer');
+
+        if (this.playerHandler) {
             throw new SessionError(
-                `Cannot process offer in state ${this.state}`,
-                ErrorCode.SESSION_INVALID_STATE
+                'Session records a player source and takes no offer',
+                ErrorCode.INVALID_PARAMETER,
+                { source: this.options.source }
             );
         }
 
@@ -132,15 +274,7 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
             this.logger.debug('Creating endpoints for session');
 
             // Create endpoints
-            const endpointOptions: EndpointCreationOptions = {
-                recordingMode: this.options.recordingMode,
-                mediaProfile: this.options.mediaProfile,
-                filePath: this.options.filePath,
-                hasAudio: this.options.hasAudio,
-                webRtcOptions: {
-                    useIpv6: false
-                }
-            };
+            const endpointOptions = this.getEndpointOptions(this.options.filePath);
 
             if (!this.endpointManager) {
                 throw new SessionError(
@@ -150,7 +284,11 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
             }
 
             const endpoints = await this.endpointManager.createEndpoints(endpointOptions);
-            this.webrtcHandler.setEndpoint(endpoints.webRtcEndpoint);
+            this.webrtcHandler.setEndpoint(endpoints.webRtcEndpoint!);
+            this.emit('endpoints-created', this.endpointManager.getEndpointIds());
+
+            // An offer arrived, the session is no longer waiting for one
+            this.armTimeout();
 
             // Process the offer
             this.logger.debug('Processing SDP offer');
@@ -165,11 +303,13 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
                 this.options.maxBitrate
             );
 
+            this.qualityMonitor.start();
+
             this.logger.info('Successfully processed WebRTC offer');
             return sdpAnswer;
         } catch (error: any) {
             this.logger.error('Error processing offer', { error });
-            this.setState(RecordingState.ERROR);
+            this.transition(RecordingState.ERROR, 'process-offer-failed');
 
             if (error instanceof WebRTCError) {
                 throw error;
@@ -183,6 +323,193 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
         }
     }
 
+    /**
+     * Create the endpoints of a player source
+     * The counterpart of processOffer for sessions that record a file or stream
+     */
+    async openSource(): Promise<void> {
+        this.assertState([RecordingState.READY], 'open source');
+
+        if (!this.playerHandler) {
+            throw new SessionError(
+                'Session records a WebRTC publisher, process an offer instead',
+                ErrorCode.INVALID_PARAMETER,
+                { source: this.options.source }
+            );
+        }
+
+        if (!this.endpointManager) {
+            throw new SessionError(
+                'Endpoint manager not initialized',
+                ErrorCode.SESSION_NOT_READY
+            );
+        }
+
+        try {
+            this.logger.debug('Creating endpoints for player source');
+
+            const endpoints = await this.endpointManager.createEndpoints(
+                this.getEndpointOptions(this.options.filePath)
+            );
+            this.playerHandler.setEndpoint(endpoints.playerEndpoint!);
+            this.emit('endpoints-created', this.endpointManager.getEndpointIds());
+
+            // The source is set up, the session is no longer waiting for it
+            this.armTimeout();
+
+            this.logger.info('Player source opened', { uri: this.playerHandler.getUri() });
+        } catch (error: any) {
+            this.logger.error('Error opening player source', { error });
+            this.transition(RecordingState.ERROR, 'open-source-failed');
+            throw new SessionError(
+                `Failed to open source: ${error.message}`,
+                ErrorCode.SESSION_NOT_READY,
+                error
+            );
+        }
+    }
+
+    /**
+     * Restore a session from a journal entry by re-attaching to its
+     * server-side endpoints
+     * 
+     * @param entry Journal entry of the session
+     */
+    async restore(entry: SessionJournalEntry): Promise<void> {
+        this.assertState([RecordingState.READY], 'restore session');
+
+        if (!this.endpointManager) {
+            throw new SessionError(
+                'Endpoint manager not initialized',
+                ErrorCode.SESSION_NOT_READY
+            );
+        }
+
+        if ((!entry.webRtcEndpointId && !entry.playerEndpointId) || !entry.recorderEndpointId) {
+            throw new SessionError(
+                'Journal entry has no endpoints to re-attach',
+                ErrorCode.SESSION_NOT_READY
+            );
+        }
+
+        this.logger.info('Restoring session from journal', { state: entry.state });
+
+        const endpoints = await this.endpointManager.attachEndpoints(
+            {
+                webRtcEndpointId: entry.webRtcEndpointId,
+                playerEndpointId: entry.playerEndpointId,
+                recorderEndpointId: entry.recorderEndpointId,
+                audioRecorderEndpointId: entry.audioRecorderEndpointId,
+                fanOutId: entry.fanOutId,
+                outputRecorderEndpointIds: entry.outputRecorderEndpointIds,
+                overlayId: entry.overlayId,
+                filterIds: entry.filterIds
+            },
+            this.options.recordingMode,
+            this.options.filters ?? []
+        );
+        if (this.playerHandler) {
+            this.playerHandler.setEndpoint(endpoints.playerEndpoint!);
+        } else {
+            this.webrtcHandler.setEndpoint(endpoints.webRtcEndpoint!);
+            this.qualityMonitor.start();
+        }
+
+        this.startTime = entry.startTime;
+        this.restoreSegments(entry);
+        this.pauseStartTime = entry.pauseStartTime;
+        this.totalPausedTime = entry.totalPausedTime;
+        this.pauseType = entry.pauseType;
+
+        if (entry.state === RecordingState.PAUSED) {
+            this.isAudioPaused = entry.pauseType !== PauseType.VIDEO_ONLY;
+            this.isVideoPaused = entry.pauseType !== PauseType.AUDIO_ONLY;
+            this.mediaPauseStartTime = entry.pauseStartTime;
+
+            // The audio link was removed when the session paused, make sure it still is
+            if (this.isAudioPaused && this.recordsAudio()) {
+                await this.endpointManager.muteAudio();
+            }
+        }
+
+        // The slate is still wired into the recorder, take it over so resuming removes it
+        if (entry.slateElementIds) {
+            this.blankScreen = await this.pipeline.attachSlate(entry.slateElementIds, BLANK_SCREEN_ELEMENT_ID);
+            this.endpointManager.attachBlankScreen(this.blankScreen);
+
+            // A slate outside a full pause covered paused video, which stays paused
+            if (!this.isVideoPaused) {
+                this.isVideoPaused = true;
+                this.mediaPauseStartTime = this.mediaPauseStartTime || entry.updatedAt;
+                this.pauseType = this.getCurrentPauseType();
+            }
+        }
+
+        if (entry.state === RecordingState.RECORDING || entry.state === RecordingState.PAUSED) {
+            this.transition(RecordingState.STARTING, 'restore');
+            this.transition(RecordingState.RECORDING, 'restore');
+
+            if (entry.state === RecordingState.PAUSED) {
+                this.transition(RecordingState.PAUSED, 'restore');
+            }
+        }
+
+        this.logger.info('Session restored', { state: this.state });
+    }
+
+    /**
+     * Re-bind the session to its server-side objects after the Kurento
+     * control connection was re-established
+     * 
+     * @param kurentoClient New Kurento client instance
+     */
+    async reattach(kurentoClient: any): Promise<void> {
+        this.logger.info('Re-attaching session to server-side objects');
+
+        await this.pipeline.rebind(kurentoClient);
+
+        if (this.endpointManager && this.hasInputEndpoint()) {
+            await this.endpointManager.rebindEndpoints();
+
+            // Re-registers the endpoint event listeners on the new proxy
+            if (this.playerHandler) {
+                this.playerHandler.setEndpoint(this.endpointManager.getPlayerEndpoint()!);
+            } else {
+                this.webrtcHandler.setEndpoint(this.endpointManager.getWebRtcEndpoint()!);
+            }
+        }
+
+        this.viewerManager.rebindViewers();
+
+        if (this.blankScreen) {
+            this.blankScreen = this.pipeline.getSlate(BLANK_SCREEN_ELEMENT_ID);
+        }
+
+        this.logger.info('Session re-attached', { state: this.state });
+    }
+
+    /**
+     * Mark the session as lost after its server-side objects disappeared
+     * 
+     * @param error Cause of the loss
+     * @returns Recording result built from the local timeline
+     */
+    async markLost(error: Error): Promise<RecordingResult> {
+        this.logger.error('Session lost', { error });
+
+        this.stopTime = Date.now();
+        this.stopReason = 'lost';
+        this.qualityMonitor.stop();
+        this.blankScreen = null;
+
+        // A session that already failed stays in ERROR, its result is still finalized
+        if (this.canTransition(RecordingState.ERROR)) {
+            this.transition(RecordingState.ERROR, 'lost');
+        }
+
+        return this.createRecordingResult();
+    }
+
     /**
      * Add an ICE candidate
      * 
@@ -201,11 +528,8 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
      * Start recording
      */
     async start(): Promise<void> {
-        if (this.state !== RecordingState.READY) {
-            throw new SessionError(
-                `Cannot start recording in state ${this.state}`,
-                ErrorCode.SESSION_INVALID_STATE
-            );
+        if (!this.canTransition(RecordingState.STARTING)) {
+            this.rejectTransition(RecordingState.STARTING, 'start');
         }
 
         if (!this.endpointManager) {
@@ -215,23 +539,32 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
             );
         }
 
-        if (!this.webrtcHandler.hasEndpoint()) {
+        if (!this.hasInputEndpoint()) {
             throw new SessionError(
                 'WebRTC endpoint not created, process an offer first',
                 ErrorCode.SESSION_NOT_READY
             );
         }
 
+        this.transition(RecordingState.STARTING, 'start');
+
         try {
             this.logger.info('Starting recording');
             await this.endpointManager.startRecording();
+
+            // The recorder runs first, so the start of a file is not lost
+            if (this.playerHandler) {
+                await this.playerHandler.play();
+            }
+
             this.startTime = Date.now();
-            this.setState(RecordingState.RECORDING);
+            this.currentSegment = this.openSegment(0, this.options.filePath, this.startTime);
+            this.transition(RecordingState.RECORDING, 'start');
             this.emit('recording-started', { timestamp: this.startTime });
             this.logger.info('Recording started successfully');
         } catch (error: any) {
             this.logger.error('Error starting recording', { error });
-            this.setState(RecordingState.ERROR);
+            this.transition(RecordingState.ERROR, 'start-failed');
 
             if (error instanceof MediaError) {
                 throw error;
@@ -248,26 +581,29 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
     /**
      * Stop recording
      * 
+     * @param reason Why the recording is stopped (default: 'user')
      * @returns Recording result
      */
-    async stop(): Promise<RecordingResult> {
-        if (this.state !== RecordingState.RECORDING && this.state !== RecordingState.PAUSED) {
+    async stop(reason: RecordingStopReason = 'user'): Promise<RecordingResult> {
+        if (this.state === RecordingState.ERROR) {
+            // If we're in an error state, we might still want to try to stop and clean up
             this.logger.warn(`Trying to stop recording in state ${this.state}`);
+        }
 
-            // If we're in an error state, we might still want to try to stop and clean up
-            if (this.state !== RecordingState.ERROR) {
-                throw new SessionError(
-                    `Cannot stop recording in state ${this.state}`,
-                    ErrorCode.SESSION_INVALID_STATE
-                );
-            }
+        const wasPaused = this.state === RecordingState.PAUSED;
+        this.transition(RecordingState.STOPPING, `stop:${reason}`);
+        this.stopReason = reason;
+
+        // Let a running segment hand-over finish so the right recorder is stopped
+        if (this.rotation) {
+            await this.rotation.catch(() => undefined);
         }
 
         try {
             this.logger.info('Stopping recording');
 
             // If we're paused and have a blank screen, remove it first
-            if (this.state === RecordingState.PAUSED && this.blankScreenElement) {
+            if (this.blankScreen) {
                 await this.removePauseBlankScreen();
             }
 
@@ -276,8 +612,25 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
                 await this.endpointManager.stopRecording();
             }
 
+            if (this.playerHandler?.hasEndpoint()) {
+                await this.playerHandler.stop().catch((error: any) => {
+                    this.logger.warn('Error stopping player source', { error });
+                });
+            }
+
             this.stopTime = Date.now();
-            this.setState(RecordingState.STOPPED);
+            this.qualityMonitor.stop();
+
+            // Close the pause that was still running when the recording stopped
+            if (wasPaused && this.pauseStartTime > 0) {
+                if (this.currentSegment) {
+                    this.segmentCutTime = this.getSegmentCutTime(this.currentSegment, this.stopTime);
+                }
+                this.totalPausedTime += this.stopTime - this.pauseStartTime;
+                this.pauseStartTime = 0;
+            }
+
+            this.transition(RecordingState.STOPPED, `stop:${reason}`);
 
             // Create the recording result
             const result = await this.createRecordingResult();
@@ -291,7 +644,7 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
             return result;
         } catch (error: any) {
             this.logger.error('Error stopping recording', { error });
-            this.setState(RecordingState.ERROR);
+            this.transition(RecordingState.ERROR, 'stop-failed');
             throw new SessionError(
                 `Failed to stop recording: ${error.message}`,
                 ErrorCode.RECORDING_STOP_ERROR,
@@ -300,23 +653,98 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
         }
     }
 
+    /**
+     * Close the current output file and continue recording into the next segment
+     * The hand-over is make-before-break on the same WebRTC endpoint
+     * 
+     * @returns The completed segment
+     */
+    async rotate(): Promise<RecordingSegment> {
+        this.assertState([RecordingState.RECORDING, RecordingState.PAUSED], 'rotate recording');
+
+        if (!this.endpointManager || !this.currentSegment) {
+            throw new SessionError(
+                'Recording not started, cannot rotate',
+                ErrorCode.SESSION_NOT_READY
+            );
+        }
+
+        if (this.rotation) {
+            throw new SessionError(
+                'Segment rotation already in progress',
+                ErrorCode.SESSION_INVALID_STATE
+            );
+        }
+
+        this.rotation = this.rotateSegment(this.currentSegment);
+
+        try {
+            return await this.rotation;
+        } finally {
+            this.rotation = null;
+        }
+    }
+
+    /**
+     * Hand recording over from a segment to the next one
+     * 
+     * @param previous Segment being recorded
+     * @returns The completed segment
+     */
+    private async rotateSegment(previous: RecordingSegment): Promise<RecordingSegment> {
+        if (!this.endpointManager) {
+            throw new SessionError(
+                'Endpoint manager not initialized',
+                ErrorCode.SESSION_NOT_READY
+            );
+        }
+
+        try {
+            const index = previous.index + 1;
+            const filePath = this.getSegmentPath(index);
+
+            this.logger.info('Rotating recording segment', { index, filePath });
+            const { started, stopped } = await this.endpointManager.rotateRecorder(this.getEndpointOptions(filePath));
+
+            const cutMs = this.getSegmentCutTime(previous, stopped);
+            this.currentSegment = this.openSegment(index, filePath, started);
+            this.segmentCutTime = 0;
+            const completed = await this.closeSegment(previous, stopped, cutMs);
+            this.segments.push(completed);
+
+            this.emit('segment-completed', completed);
+            this.logger.info('Recording segment completed', { index: completed.index, path: completed.path });
+
+            return completed;
+        } catch (error: any) {
+            this.logger.error('Error rotating recording segment', { error });
+            throw new SessionError(
+                `Failed to rotate recording: ${error.message}`,
+                ErrorCode.RECORDING_ROTATE_ERROR,
+                error
+            );
+        }
+    }
+
     /**
      * Pause recording
+     * The session only enters PAUSED once every recorded stream is paused; pausing a
+     * single stream of an audio+video recording keeps it in RECORDING
      * 
      * @param pauseType Type of pause (both, audio-only, video-only)
      */
     async pause(pauseType: PauseType = PauseType.BOTH): Promise<void> {
         if (this.state !== RecordingState.RECORDING) {
-            throw new SessionError(
-                `Cannot pause recording in state ${this.state}`,
-                ErrorCode.SESSION_INVALID_STATE
-            );
+            this.rejectTransition(RecordingState.PAUSED, `pause:${pauseType}`);
         }
 
         try {
             this.logger.info('Pausing recording', { pauseType });
-            this.pauseStartTime = Date.now();
-            this.pauseType = pauseType;
+            const currentTime = Date.now();
+
+            if (!this.isAudioPaused && !this.isVideoPaused) {
+                this.mediaPauseStartTime = currentTime;
+            }
 
             // Track which streams are paused
             if (pauseType === PauseType.BOTH || pauseType === PauseType.AUDIO_ONLY) {
@@ -325,18 +753,37 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
 
             if (pauseType === PauseType.BOTH || pauseType === PauseType.VIDEO_ONLY) {
                 this.isVideoPaused = true;
-                // Insert blank screen if video is paused and option is enabled
-                if (this.options.insertBlankScreenOnPause && !this.blankScreenElement) {
-                    await this.insertPauseBlankScreen();
-                }
             }
 
-            this.setState(RecordingState.PAUSED);
+            this.pauseType = this.getCurrentPauseType();
+
+            // Paused audio must never reach the file, whatever the pause mode
+            if (this.isAudioPaused && this.recordsAudio()) {
+                await this.endpointManager?.muteAudio();
+            }
+
+            if (this.options.pauseMode === PauseMode.CUT && this.isFullyPaused()) {
+                // Nothing is written to the file until the recorder is resumed
+                await this.endpointManager?.pauseRecording();
+            } else if (this.isVideoPaused && !this.blankScreen) {
+                // The file keeps running, so paused video is replaced by the blank screen
+                await this.insertPauseBlankScreen();
+            }
+
+            if (this.isFullyPaused()) {
+                this.pauseStartTime = currentTime;
+                this.transition(RecordingState.PAUSED, `pause:${pauseType}`);
+            }
+
             this.emit('paused', {
-                timestamp: this.pauseStartTime,
+                timestamp: currentTime,
                 pauseType: this.pauseType
             });
-            this.logger.info('Recording paused', { pauseType });
+            this.logger.info('Recording paused', {
+                pauseType,
+                isAudioPaused: this.isAudioPaused,
+                isVideoPaused: this.isVideoPaused
+            });
         } catch (error: any) {
             this.logger.error('Error pausing recording', { error });
             throw new SessionError(
@@ -349,15 +796,16 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
 
     /**
      * Resume recording
+     * Resuming any paused stream moves a PAUSED session back to RECORDING
      * 
      * @param resumeType Type of stream to resume (defaults to whatever was paused)
      */
     async resume(resumeType?: PauseType): Promise<void> {
-        if (this.state !== RecordingState.PAUSED) {
-            throw new SessionError(
-                `Cannot resume recording in state ${this.state}`,
-                ErrorCode.SESSION_INVALID_STATE
-            );
+        const canResume = (this.state === RecordingState.PAUSED || this.state === RecordingState.RECORDING)
+            && (this.isAudioPaused || this.isVideoPaused);
+
+        if (!canResume) {
+            this.rejectTransition(RecordingState.RECORDING, `resume:${resumeType || this.pauseType}`);
         }
 
         try {
@@ -367,32 +815,49 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
 
             // Calculate pause duration
             const currentTime = Date.now();
-            const pauseDuration = currentTime - this.pauseStartTime;
-            this.totalPausedTime += pauseDuration;
+            const pauseDuration = currentTime - this.mediaPauseStartTime;
 
             // Track which streams are resumed
-            if (actualResumeType === PauseType.BOTH ||
-                (actualResumeType === PauseType.AUDIO_ONLY && this.isAudioPaused) ||
-                (actualResumeType === PauseType.VIDEO_ONLY && this.isVideoPaused)) {
+            if (actualResumeType === PauseType.BOTH || actualResumeType === PauseType.AUDIO_ONLY) {
+                this.isAudioPaused = false;
 
-                if (actualResumeType === PauseType.BOTH || actualResumeType === PauseType.AUDIO_ONLY) {
-                    this.isAudioPaused = false;
+                if (this.endpointManager?.isAudioMuted()) {
+                    await this.endpointManager.unmuteAudio();
                 }
+            }
 
-                if (actualResumeType === PauseType.BOTH || actualResumeType === PauseType.VIDEO_ONLY) {
-                    this.isVideoPaused = false;
-                }
+            if (actualResumeType === PauseType.BOTH || actualResumeType === PauseType.VIDEO_ONLY) {
+                this.isVideoPaused = false;
 
-                // Remove blank screen if video is being resumed and there's a blank screen
-                if ((actualResumeType === PauseType.BOTH || actualResumeType === PauseType.VIDEO_ONLY)
-                    && this.blankScreenElement) {
+                // Remove blank screen if video is being resumed, unless it stands in for unusable video
+                if (this.blankScreen && !this.isVideoFallback) {
                     await this.removePauseBlankScreen();
                 }
             }
 
-            // If both audio and video are resumed, set state back to RECORDING
-            if (!this.isAudioPaused && !this.isVideoPaused) {
-                this.setState(RecordingState.RECORDING);
+            if (this.endpointManager?.isRecordingPaused() && !this.isFullyPaused()) {
+                // Video that stays paused must not reach the file once the recorder runs again
+                if (this.isVideoPaused && !this.blankScreen) {
+                    await this.insertPauseBlankScreen();
+                }
+
+                await this.endpointManager.resumeRecording();
+            }
+
+            if (this.isAudioPaused || this.isVideoPaused) {
+                this.pauseType = this.getCurrentPauseType();
+            } else {
+                this.mediaPauseStartTime = 0;
+            }
+
+            // Any stream flowing again means the session is recording
+            if (this.state === RecordingState.PAUSED && !this.isFullyPaused()) {
+                if (this.currentSegment) {
+                    this.segmentCutTime = this.getSegmentCutTime(this.currentSegment, currentTime);
+                }
+                this.totalPausedTime += currentTime - this.pauseStartTime;
+                this.pauseStartTime = 0;
+                this.transition(RecordingState.RECORDING, `resume:${actualResumeType}`);
             }
 
             this.emit('resumed', {
@@ -416,38 +881,122 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
         }
     }
 
+    /**
+     * Check whether every stream that is being recorded is paused
+     * 
+     * @returns true if nothing is being recorded
+     */
+    private isFullyPaused(): boolean {
+        const recordsVideo = this.options.recordingMode !== RecordingMode.AUDIO_ONLY;
+
+        return (!this.recordsAudio() || this.isAudioPaused) && (!recordsVideo || this.isVideoPaused);
+    }
+
+    /**
+     * Check whether the session records audio
+     * 
+     * @returns true if audio is recorded
+     */
+    private recordsAudio(): boolean {
+        return this.options.recordingMode !== RecordingMode.VIDEO_ONLY && this.options.hasAudio;
+    }
+
+    /**
+     * Derive the pause type from the paused streams
+     * 
+     * @returns Current pause type
+     */
+    private getCurrentPauseType(): PauseType {
+        if (this.isAudioPaused && this.isVideoPaused) {
+            return PauseType.BOTH;
+        }
+
+        return this.isAudioPaused ? PauseType.AUDIO_ONLY : PauseType.VIDEO_ONLY;
+    }
+
     /**
      * Insert blank screen for paused state
+     *
+     * @returns true if the slate replaces the video
      */
-    private async insertPauseBlankScreen(): Promise<void> {
-        if (!this.endpointManager || !this.options.insertBlankScreenOnPause) {
-            return;
+    private async insertPauseBlankScreen(): Promise<boolean> {
+        if (!this.endpointManager) {
+            return false;
         }
 
         try {
             this.logger.debug('Inserting blank screen during pause');
 
-            // Create a blank video element with the specified color
-            const color = this.options.blankScreenColor || 'black';
-            this.blankScreenElement = await this.pipeline.createBlankVideoElement(color);
+            // Create the slate with the configured colour, image and text
+            const slateOptions = await this.getSlateOptions();
+            this.blankScreen = await this.pipeline.createSlate(slateOptions, BLANK_SCREEN_ELEMENT_ID);
 
             // Connect the blank screen element to the recording
-            if (this.blankScreenElement && this.endpointManager) {
-                await this.endpointManager.connectBlankScreen(this.blankScreenElement);
-                this.logger.debug('Blank screen inserted successfully', { color });
+            if (this.blankScreen && this.endpointManager) {
+                await this.endpointManager.connectBlankScreen(this.blankScreen);
+                this.logger.debug('Blank screen inserted successfully', {
+                    color: this.options.blankScreenColor,
+                    imageCount: slateOptions.images.length
+                });
             }
+
+            return this.blankScreen !== null;
         } catch (error: any) {
             this.logger.error('Error inserting blank screen', { error });
+
+            // A slate that could not be connected is not kept around as if it were in place
+            if (this.blankScreen) {
+                this.blankScreen = null;
+                await this.pipeline.releaseSlate(BLANK_SCREEN_ELEMENT_ID).catch(() => undefined);
+            }
+
             // Don't throw - treat blank screen as non-critical
+            return false;
+        }
+    }
+
+    /**
+     * Build the slate options from the session options
+     * A colour other than black is drawn from a generated PNG next to the recording
+     * 
+     * @returns Slate element options
+     */
+    private async getSlateOptions(): Promise<SlateElementOptions> {
+        const { width, height, pauseSlate } = this.options;
+        const images: SlateElementOptions['images'] = [];
+        const color = parseColor(this.options.blankScreenColor || 'black');
+
+        if (color.r > 0 || color.g > 0 || color.b > 0) {
+            if (!this.slateImagePath) {
+                const { dir, name } = path.parse(this.options.filePath);
+                const imagePath = path.join(dir, `${name}_slate.png`);
+                await writeFile(imagePath, encodeSolidColorPng(width, height, color));
+                this.slateImagePath = imagePath;
+            }
+
+            images.push({ uri: toMediaUri(this.slateImagePath), fit: 'fill' });
+        }
+
+        if (pauseSlate?.imagePath) {
+            images.push({ uri: toMediaUri(pauseSlate.imagePath), fit: 'contain' });
         }
+
+        return {
+            width,
+            height,
+            images,
+            text: pauseSlate?.text
+        };
     }
 
     /**
      * Remove blank screen after resuming
+     *
+     * @returns true if the slate no longer replaces the video
      */
-    private async removePauseBlankScreen(): Promise<void> {
-        if (!this.blankScreenElement) {
-            return;
+    private async removePauseBlankScreen(): Promise<boolean> {
+        if (!this.blankScreen) {
+            return true;
         }
 
         try {
@@ -457,13 +1006,15 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
                 await this.endpointManager.disconnectBlankScreen();
             }
 
-            // Release the blank screen element
-            await this.blankScreenElement.release();
-            this.blankScreenElement = null;
+            // Release the blank screen elements
+            this.blankScreen = null;
+            await this.pipeline.releaseSlate(BLANK_SCREEN_ELEMENT_ID);
             this.logger.debug('Blank screen removed');
+            return true;
         } catch (error: any) {
             this.logger.error('Error removing blank screen', { error });
             // Don't throw - treat blank screen as non-critical
+            return this.blankScreen === null;
         }
     }
 
@@ -473,12 +1024,7 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
      * @param params Quality parameters
      */
     async setQuality(params: { minBitrate?: number; maxBitrate?: number; frameRate?: number }): Promise<void> {
-        if (this.state !== RecordingState.RECORDING && this.state !== RecordingState.PAUSED) {
-            throw new SessionError(
-                `Cannot update quality in state ${this.state}`,
-                ErrorCode.SESSION_INVALID_STATE
-            );
-        }
+        this.assertState([RecordingState.RECORDING, RecordingState.PAUSED], 'update quality');
 
         try {
             this.logger.info('Updating quality parameters', params);
@@ -488,9 +1034,13 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
                 const minBitrate = params.minBitrate ?? this.options.minBitrate;
                 const maxBitrate = params.maxBitrate ?? this.options.maxBitrate;
 
-                await this.webrtcHandler.setQualityParameters(minBitrate, maxBitrate);
+                // A player source is not encoded by the session, there is nothing to apply
+                if (!this.playerHandler) {
+                    await this.webrtcHandler.setQualityParameters(minBitrate, maxBitrate);
+                }
                 this.options.minBitrate = minBitrate;
                 this.options.maxBitrate = maxBitrate;
+                this.bitrateController?.setCeiling({ minBitrate, maxBitrate });
             }
 
             // Update frame rate if changed
@@ -525,6 +1075,185 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
         }
     }
 
+    /**
+     * Let the adaptive bitrate controller act on a network quality measurement
+     * Only a recording session adapts, and one change is applied at a time
+     *
+     * @param event Network quality measurement
+     */
+    private adaptQuality(event: NetworkQualityEvent): void {
+        if (!this.bitrateController || this.adaptingQuality || this.state !== RecordingState.RECORDING) {
+            return;
+        }
+
+        const decision = this.bitrateController.evaluate(event);
+        if (!decision) return;
+
+        this.adaptingQuality = true;
+        this.applyAdaptiveQuality(decision)
+            .catch((error: any) => {
+                // The controller goes back to the quality still in place and decides again on later measurements
+                this.logger.warn('Error adapting quality to network', { error, decision });
+                this.bitrateController?.rollback();
+            })
+            .finally(() => {
+                this.adaptingQuality = false;
+            });
+    }
+
+    /**
+     * Apply a quality chosen by the adaptive bitrate controller
+     * Giving up the video shows the pause slate in its place, the session options keep the configured bitrates
+     *
+     * @param decision Quality to switch to
+     */
+    private async applyAdaptiveQuality(decision: AdaptiveBitrateDecision): Promise<void> {
+        if (decision.audioOnly !== this.isVideoFallback) {
+            let applied = true;
+            if (decision.audioOnly && !this.blankScreen) {
+                applied = await this.insertPauseBlankScreen();
+            } else if (!decision.audioOnly && !this.isVideoPaused) {
+                // Video paused by the user keeps its slate
+                applied = await this.removePauseBlankScreen();
+            }
+
+            if (!applied) {
+                throw new MediaError(
+                    `Failed to ${decision.audioOnly ? 'insert' : 'remove'} the slate replacing the video`,
+                    ErrorCode.MEDIA_PIPELINE_ERROR
+                );
+            }
+
+            this.isVideoFallback = decision.audioOnly;
+        } else {
+            await this.webrtcHandler.setQualityParameters(decision.minBitrate, decision.maxBitrate);
+        }
+
+        const qualityEvent: QualityChangedEvent = {
+            minBitrate: decision.minBitrate,
+            maxBitrate: decision.maxBitrate,
+            frameRate: this.options.frameRate,
+            reason: 'auto',
+            audioOnly: decision.audioOnly,
+            timestamp: Date.now()
+        };
+
+        this.emit('quality-changed', qualityEvent);
+    }
+
+    /**
+     * Add a media filter at the end of its chain
+     * Before an offer was processed the filter is only added to the options
+     * 
+     * @param filter Filter to add
+     * @returns The normalized filter, with its ID
+     */
+    async addFilter(filter: FilterSpec): Promise<FilterSpec> {
+        this.assertState(
+            [RecordingState.CREATED, RecordingState.READY, RecordingState.RECORDING, RecordingState.PAUSED],
+            'add filter'
+        );
+
+        const spec = normalizeFilterSpec(
+            filter,
+            this.options.recordingMode,
+            (this.options.filters ?? []).map(existing => existing.id!)
+        );
+
+        if (this.endpointManager && this.hasInputEndpoint()) {
+            await this.endpointManager.addFilter(spec);
+        }
+
+        this.options.filters = [...(this.options.filters ?? []), spec];
+        this.emit('filter-added', spec);
+        return spec;
+    }
+
+    /**
+     * Remove a media filter
+     * 
+     * @param filterId Filter ID
+     */
+    async removeFilter(filterId: string): Promise<void> {
+        this.assertState(
+            [RecordingState.CREATED, RecordingState.READY, RecordingState.RECORDING, RecordingState.PAUSED],
+            'remove filter'
+        );
+
+        const spec = (this.options.filters ?? []).find(filter => filter.id === filterId);
+        if (!spec) {
+            throw new SessionError(
+                `Filter ${filterId} not found`,
+                ErrorCode.INVALID_PARAMETER,
+                { filterId }
+            );
+        }
+
+        if (this.endpointManager && this.hasInputEndpoint()) {
+            await this.endpointManager.removeFilter(filterId);
+        }
+
+        this.options.filters = this.options.filters.filter(filter => filter !== spec);
+        this.emit('filter-removed', spec);
+    }
+
+    /**
+     * Add a live viewer receiving the session's input as it is recorded
+     * Viewers see the live input, including while the recording is paused
+     * 
+     * @param sdpOffer Receive-only SDP offer of the viewer
+     * @param viewerId Viewer identifier, generated if omitted
+     * @returns The viewer identifier and the SDP answer
+     */
+    async addViewer(sdpOffer: string | SdpData, viewerId?: string): Promise<ViewerConnection> {
+        this.assertState(
+            [RecordingState.READY, RecordingState.RECORDING, RecordingState.PAUSED],
+            'add viewer'
+        );
+
+        const source = this.endpointManager?.getInputEndpoint();
+        if (!source) {
+            throw new SessionError(
+                'Cannot add a viewer before an offer was processed',
+                ErrorCode.SESSION_NOT_READY,
+                { sessionId: this.options.sessionId }
+            );
+        }
+
+        const connection = await this.viewerManager.addViewer(source, sdpOffer, viewerId);
+        this.emitViewerEvent('viewer-added', connection.viewerId);
+        return connection;
+    }
+
+    /**
+     * Add an ICE candidate of a viewer
+     * 
+     * @param viewerId Viewer identifier
+     * @param candidate ICE candidate
+     */
+    async addViewerIceCandidate(viewerId: string, candidate: IceCandidate): Promise<void> {
+        await this.viewerManager.addIceCandidate(viewerId, candidate);
+    }
+
+    /**
+     * Remove a live viewer
+     * 
+     * @param viewerId Viewer identifier
+     */
+    async removeViewer(viewerId: string): Promise<void> {
+        await this.viewerManager.removeViewer(viewerId);
+        this.emitViewerEvent('viewer-removed', viewerId);
+    }
+
+    /**
+     * Get the identifiers of the live viewers
+     * 
+     * @returns Viewer identifiers in the order they were added
+     */
+    getViewers(): string[] {
+        return this.viewerManager.getViewerIds();
+    }
+
     /**
      * Get the current recording state
      * 
@@ -534,6 +1263,28 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
         return this.state;
     }
 
+    /**
+     * Check whether the session can currently move to a state
+     * 
+     * @param state Target state
+     * @returns true if the transition table allows it
+     */
+    canTransition(state: RecordingState): boolean {
+        return canTransition(this.state, state);
+    }
+
+    /**
+     * Get which streams are currently paused
+     * 
+     * @returns Paused flags for audio and video
+     */
+    getPausedMedia(): { audio: boolean; video: boolean } {
+        return {
+            audio: this.isAudioPaused,
+            video: this.isVideoPaused
+        };
+    }
+
     /**
      * Get the recording session options
      * 
@@ -561,21 +1312,66 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
         return this.options.filePath;
     }
 
+    /**
+     * Get a snapshot of the session for persistence
+     * 
+     * @returns Session snapshot
+     */
+    getSnapshot(): RecordingSessionSnapshot {
+        const endpointIds = this.endpointManager ? this.endpointManager.getEndpointIds() : {};
+
+        return {
+            sessionId: this.options.sessionId,
+            options: { ...this.options },
+            state: this.state,
+            pipelineId: this.pipeline.getId() ?? undefined,
+            webRtcEndpointId: endpointIds.webRtcEndpointId,
+            playerEndpointId: endpointIds.playerEndpointId,
+            recorderEndpointId: endpointIds.recorderEndpointId,
+            audioRecorderEndpointId: endpointIds.audioRecorderEndpointId,
+            fanOutId: endpointIds.fanOutId,
+            outputRecorderEndpointIds: endpointIds.outputRecorderEndpointIds,
+            overlayId: endpointIds.overlayId,
+            filterIds: endpointIds.filterIds,
+            slateElementIds: this.blankScreen ? this.pipeline.getSlateIds(BLANK_SCREEN_ELEMENT_ID) : undefined,
+            startTime: this.startTime,
+            pauseStartTime: this.state === RecordingState.PAUSED ? this.pauseStartTime : 0,
+            totalPausedTime: this.totalPausedTime,
+            pauseType: this.pauseType,
+            segments: this.currentSegment ? [...this.segments, { ...this.currentSegment }] : [...this.segments]
+        };
+    }
+
     /**
      * Release all resources used by this session
      */
     async release(): Promise<void> {
+        if (this.state === RecordingState.RELEASED) {
+            this.logger.debug('Session resources already released');
+            return;
+        }
+
+        this.disarmTimeout();
+        this.stopRecordingMonitor();
+        this.qualityMonitor.stop();
+
         try {
             this.logger.debug('Releasing session resources');
 
             // Release blank screen if it exists
-            if (this.blankScreenElement) {
-                try {
-                    await this.blankScreenElement.release();
-                    this.blankScreenElement = null;
-                } catch (error) {
-                    this.logger.warn('Error releasing blank screen element', { error });
-                }
+            if (this.blankScreen) {
+                this.blankScreen = null;
+                await this.pipeline.releaseSlate(BLANK_SCREEN_ELEMENT_ID);
+            }
+
+            if (this.slateImagePath) {
+                await unlink(this.slateImagePath).catch(() => undefined);
+                this.slateImagePath = null;
+            }
+
+            // Release viewers before the endpoint feeding them
+            for (const viewerId of await this.viewerManager.removeAllViewers()) {
+                this.emitViewerEvent('viewer-removed', viewerId);
             }
 
             // Release endpoints
@@ -586,6 +1382,7 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
             // Release pipeline
             await this.pipeline.release();
 
+            this.transition(RecordingState.RELEASED, 'release');
             this.logger.info('Session resources released');
         } catch (error: any) {
             this.logger.error('Error releasing session resources', { error });
@@ -598,14 +1395,492 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
     }
 
     /**
-     * Update the session state
+     * Move the session to a new state if the transition table allows it
      * 
      * @param state New state
+     * @param reason Operation requesting the transition
+     * @throws SessionError if the transition is not allowed
      */
-    private setState(state: RecordingState): void {
-        this.logger.debug(`State change: ${this.state} -> ${state}`);
+    private transition(state: RecordingState, reason: string): void {
+        if (!canTransition(this.state, state)) {
+            this.rejectTransition(state, reason);
+        }
+
+        const from = this.state;
+        this.logger.debug(`State change: ${from} -> ${state}`, { reason });
         this.state = state;
-        this.emit('state-change', state);
+        this.emit('state-change', { from, to: state, reason, timestamp: Date.now() });
+        this.armTimeout();
+        this.updateRecordingMonitor();
+    }
+
+    /**
+     * Start or stop the periodic limit and segmentation checks to match the current state
+     */
+    private updateRecordingMonitor(): void {
+        const active = this.state === RecordingState.RECORDING || this.state === RecordingState.PAUSED;
+        const { segmentDurationMs = 0, segmentSizeBytes = 0 } = this.options.segmentation ?? {};
+        const needed = this.options.maxDurationMs > 0 || this.options.maxFileSizeBytes > 0 ||
+            segmentDurationMs > 0 || segmentSizeBytes > 0;
+
+        if (!active || !needed) {
+            this.stopRecordingMonitor();
+            return;
+        }
+
+        if (!this.monitorTimer) {
+            this.monitorTimer = setInterval(() => {
+                this.checkRecording().catch((error) => {
+                    this.logger.error('Error checking recording limits', { error });
+                });
+            }, LIMIT_CHECK_INTERVAL_MS);
+        }
+    }
+
+    /**
+     * Stop the periodic checks
+     */
+    private stopRecordingMonitor(): void {
+        if (this.monitorTimer) {
+            clearInterval(this.monitorTimer);
+            this.monitorTimer = null;
+        }
+    }
+
+    /**
+     * Check the recording against its limits, warning when a limit approaches
+     * and stopping the recording once one is reached, then rotate the segment
+     * if it is due
+     */
+    private async checkRecording(): Promise<void> {
+        const { maxDurationMs, maxFileSizeBytes } = this.options;
+        const { segmentDurationMs = 0, segmentSizeBytes = 0 } = this.options.segmentation ?? {};
+        const segment = this.currentSegment;
+
+        if (maxDurationMs > 0 && this.checkLimit('max-duration', this.getLimitedDuration(), maxDurationMs)) {
+            await this.stopOnLimit('max-duration');
+            return;
+        }
+
+        if (!segment) {
+            return;
+        }
+
+        let segmentSize = 0;
+        if (maxFileSizeBytes > 0 || segmentSizeBytes > 0) {
+            // The recorder may not have flushed anything to disk yet
+            segmentSize = getTotalSize(await this.getOutputs(segment.path)) ?? 0;
+        }
+
+        if (maxFileSizeBytes > 0) {
+            const totalSize = this.segments.reduce((sum, completed) => sum + (completed.size ?? 0), segmentSize);
+            if (this.checkLimit('max-file-size', totalSize, maxFileSizeBytes)) {
+                await this.stopOnLimit('max-file-size');
+                return;
+            }
+        }
+
+        const segmentDue = (segmentDurationMs > 0 && Date.now() - segment.timestamp.start >= segmentDurationMs) ||
+            (segmentSizeBytes > 0 && segmentSize >= segmentSizeBytes);
+
+        if (segmentDue && !this.rotation && this.currentSegment === segment) {
+            await this.rotate();
+        }
+    }
+
+    /**
+     * Compare a value with a limit and emit the warning once the threshold is crossed
+     * 
+     * @param limit Limit being checked
+     * @param current Current value
+     * @param max Configured maximum
+     * @returns true if the limit has been reached
+     */
+    private checkLimit(limit: RecordingLimit, current: number, max: number): boolean {
+        if (current >= max) {
+            return true;
+        }
+
+        if (current >= max * this.options.limitWarningThreshold && !this.limitWarnings.has(limit)) {
+            this.limitWarnings.add(limit);
+            this.logger.info('Recording limit approaching', { limit, current, max });
+            this.emit('limit-warning', { limit, current, max, timestamp: Date.now() });
+        }
+
+        return false;
+    }
+
+    /**
+     * Track which media types the input is currently sending
+     * 
+     * @param mediaType Media type
+     * @param flowing Whether media of the type flows
+     */
+    private updateMediaFlow(mediaType: string, flowing: boolean): void {
+        if (flowing) {
+            this.flowingMedia.add(mediaType);
+        } else {
+            this.flowingMedia.delete(mediaType);
+        }
+        this.armTimeout();
+    }
+
+    /**
+     * Report the end of a player source and stop the recording it feeds
+     */
+    private async handleEndOfStream(): Promise<void> {
+        this.emitSourceEvent('source-ended');
+
+        // A stop requested concurrently wins
+        if (!this.canTransition(RecordingState.STOPPING) || this.state === RecordingState.ERROR) {
+            return;
+        }
+
+        this.logger.info('Source ended, stopping recording');
+        this.stopRecordingMonitor();
+
+        try {
+            await this.stop('end-of-stream');
+        } catch (error: any) {
+            this.emit('error', error);
+        }
+    }
+
+    /**
+     * Emit an event about the player source
+     * 
+     * @param event Event name
+     * @param error Error reported by the source
+     */
+    private emitSourceEvent(event: 'source-ended' | 'source-error', error?: Error): void {
+        this.emit(event, {
+            sessionId: this.options.sessionId,
+            uri: this.options.source.uri!,
+            error,
+            timestamp: Date.now()
+        });
+    }
+
+    /**
+     * Check whether the endpoint the session records from exists
+     * 
+     * @returns true once the WebRTC or player endpoint was created
+     */
+    private hasInputEndpoint(): boolean {
+        return this.webrtcHandler.hasEndpoint() || !!this.playerHandler?.hasEndpoint();
+    }
+
+    /**
+     * Stop the recording because a limit was reached
+     * 
+     * @param limit Limit that was reached
+     */
+    private async stopOnLimit(limit: RecordingLimit): Promise<void> {
+        // A stop requested concurrently wins
+        if (!this.canTransition(RecordingState.STOPPING) || this.state === RecordingState.ERROR) {
+            return;
+        }
+
+        this.logger.info('Recording limit reached, stopping', { limit });
+        this.stopRecordingMonitor();
+
+        try {
+            await this.stop(limit);
+        } catch (error: any) {
+            this.emit('error', error);
+        }
+    }
+
+    /**
+     * Get the recording duration that counts towards maxDurationMs
+     * 
+     * @returns Duration in milliseconds
+     */
+    private getLimitedDuration(): number {
+        const now = Date.now();
+        let duration = now - this.startTime;
+
+        if (!this.options.countPausedTimeTowardsLimit) {
+            duration -= this.totalPausedTime;
+            if (this.state === RecordingState.PAUSED && this.pauseStartTime > 0) {
+                duration -= now - this.pauseStartTime;
+            }
+        }
+
+        return duration;
+    }
+
+    /**
+     * Get the timeout that applies to the current state, if any
+     * 
+     * @returns Timeout reason and duration, or null if nothing is pending
+     */
+    private getPendingTimeout(): { reason: SessionTimeoutReason; timeoutMs: number } | null {
+        const { offerTimeoutMs = 0, mediaTimeoutMs = 0, pauseTimeoutMs = 0 } = this.options.timeouts ?? {};
+
+        switch (this.state) {
+            case RecordingState.CREATED:
+            case RecordingState.READY:
+                if (offerTimeoutMs > 0 && !this.hasInputEndpoint()) {
+                    return { reason: 'no-offer', timeoutMs: offerTimeoutMs };
+                }
+                return null;
+
+            case RecordingState.RECORDING:
+                if (mediaTimeoutMs > 0 && this.flowingMedia.size === 0) {
+                    return { reason: 'no-media', timeoutMs: mediaTimeoutMs };
+                }
+                return null;
+
+            case RecordingState.PAUSED:
+                return pauseTimeoutMs > 0 ? { reason: 'pause-too-long', timeoutMs: pauseTimeoutMs } : null;
+
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Start, keep or clear the timeout timer to match the current state
+     * A timer that is already running for the same reason keeps its deadline
+     */
+    private armTimeout(): void {
+        const pending = this.getPendingTimeout();
+
+        if (pending && pending.reason === this.timeoutReason) {
+            return;
+        }
+
+        this.disarmTimeout();
+
+        if (!pending) {
+            return;
+        }
+
+        this.timeoutReason = pending.reason;
+        this.timeoutTimer = setTimeout(() => {
+            this.timeoutTimer = null;
+            this.timeoutReason = null;
+
+            this.logger.warn('Session timed out', { reason: pending.reason, state: this.state });
+            this.emit('timed-out', {
+                reason: pending.reason,
+                state: this.state,
+                timeoutMs: pending.timeoutMs,
+                timestamp: Date.now()
+            });
+        }, pending.timeoutMs);
+    }
+
+    /**
+     * Clear the running timeout timer
+     */
+    private disarmTimeout(): void {
+        if (this.timeoutTimer) {
+            clearTimeout(this.timeoutTimer);
+            this.timeoutTimer = null;
+        }
+        this.timeoutReason = null;
+    }
+
+    /**
+     * Report a rejected transition and throw
+     * 
+     * @param state Requested state
+     * @param reason Operation requesting the transition
+     * @throws SessionError always
+     */
+    private rejectTransition(state: RecordingState, reason: string): never {
+        const from = this.state;
+        this.logger.warn(`Rejected state change: ${from} -> ${state}`, { reason });
+        this.emit('transition-rejected', { from, to: state, reason, timestamp: Date.now() });
+
+        throw new SessionError(
+            `Cannot transition from ${from} to ${state} (${reason})`,
+            ErrorCode.SESSION_INVALID_STATE,
+            { from, to: state, reason }
+        );
+    }
+
+    /**
+     * Ensure the session is in one of the given states for an operation
+     * that does not change the state
+     * 
+     * @param states Allowed states
+     * @param action Description of the operation
+     * @throws SessionError if the session is in another state
+     */
+    private assertState(states: RecordingState[], action: string): void {
+        if (!states.includes(this.state)) {
+            throw new SessionError(
+                `Cannot ${action} in state ${this.state}`,
+                ErrorCode.SESSION_INVALID_STATE
+            );
+        }
+    }
+
+    /**
+     * Emit a viewer event with the current viewer count
+     *
+     * @param event Event name
+     * @param viewerId Viewer identifier
+     */
+    private emitViewerEvent(event: 'viewer-added' | 'viewer-removed', viewerId: string): void {
+        this.emit(event, {
+            sessionId: this.options.sessionId,
+            viewerId,
+            viewerCount: this.viewerManager.getViewerCount(),
+            timestamp: Date.now()
+        });
+    }
+
+    /**
+     * Build the common fields of an ICE event
+     * 
+     * @param viewerId Viewer the event belongs to, omitted for the session's own endpoint
+     * @returns Event fields
+     */
+    private createIceEventBase(viewerId?: string): IceGatheringDoneEvent {
+        return {
+            sessionId: this.options.sessionId,
+            viewerId,
+            timestamp: Date.now()
+        };
+    }
+
+    /**
+     * Build the endpoint options for recording into a file
+     * 
+     * @param filePath Output file path
+     * @returns Endpoint creation options
+     */
+    private getEndpointOptions(filePath: string): EndpointCreationOptions {
+        return {
+            recordingMode: this.options.recordingMode,
+            mediaProfile: this.options.mediaProfile,
+            filePath,
+            hasAudio: this.options.hasAudio,
+            source: this.options.source,
+            width: this.options.width,
+            height: this.options.height,
+            overlay: this.options.overlay,
+            filters: this.options.filters,
+            outputs: this.options.outputs,
+            webRtcOptions: {
+                useIpv6: false
+            }
+        };
+    }
+
+    /**
+     * Get the file path of a segment
+     * The first segment uses the configured file path, later ones get a numbered suffix
+     * 
+     * @param index Segment index
+     * @returns File path
+     */
+    private getSegmentPath(index: number): string {
+        if (index === 0) {
+            return this.options.filePath;
+        }
+
+        const { dir, name, ext } = path.parse(this.options.filePath);
+        return path.join(dir, `${name}_part${index + 1}${ext}`);
+    }
+
+    /**
+     * Create the descriptor of a segment that starts recording
+     * 
+     * @param index Segment index
+     * @param filePath File path
+     * @param start Start timestamp
+     * @returns Open segment
+     */
+    private openSegment(index: number, filePath: string, start: number): RecordingSegment {
+        return {
+            index,
+            path: filePath,
+            duration: 0,
+            timestamp: { start, end: 0 }
+        };
+    }
+
+    /**
+     * Complete the descriptor of a segment whose recorder stopped
+     * 
+     * @param segment Open segment
+     * @param end End timestamp
+     * @param cutMs Paused time cut from the segment file
+     * @returns Completed segment
+     */
+    private async closeSegment(segment: RecordingSegment, end: number, cutMs: number = 0): Promise<RecordingSegment> {
+        const outputs = await this.getOutputs(segment.path);
+        const size = getTotalSize(outputs);
+        if (size === undefined) {
+            this.logger.debug('Segment file not accessible', { path: segment.path });
+        }
+
+        const completed: RecordingSegment = {
+            ...segment,
+            duration: Math.max(0, end - segment.timestamp.start - cutMs) / 1000,
+            size,
+            timestamp: { start: segment.timestamp.start, end }
+        };
+
+        if (outputs.length > 1) {
+            completed.outputs = outputs;
+        }
+
+        return completed;
+    }
+
+    /**
+     * Get the files written for a recording path, with their sizes
+     * 
+     * @param filePath Recording or segment file path
+     * @returns Output files, a single one unless the recording mode splits the media
+     */
+    private async getOutputs(filePath: string): Promise<RecordingOutput[]> {
+        return readOutputSizes(
+            getRecordingOutputs(filePath, this.options.mediaProfile, this.options.recordingMode)
+        );
+    }
+
+    /**
+     * Get the paused time cut from a segment's file up to a timestamp
+     * 
+     * @param segment Segment being recorded
+     * @param until Timestamp
+     * @returns Cut time in milliseconds
+     */
+    private getSegmentCutTime(segment: RecordingSegment, until: number): number {
+        let cutMs = this.segmentCutTime;
+
+        if (this.options.pauseMode === PauseMode.CUT && this.pauseStartTime > 0) {
+            cutMs += Math.max(0, until - Math.max(this.pauseStartTime, segment.timestamp.start));
+        }
+
+        return cutMs;
+    }
+
+    /**
+     * Restore the segment list from a journal entry
+     * 
+     * @param entry Journal entry of the session
+     */
+    private restoreSegments(entry: SessionJournalEntry): void {
+        const segments = entry.segments ?? [];
+
+        if (segments.length === 0) {
+            this.segments = [];
+            this.currentSegment = entry.startTime > 0
+                ? this.openSegment(0, this.options.filePath, entry.startTime)
+                : null;
+            return;
+        }
+
+        this.segments = segments.slice(0, -1);
+        this.currentSegment = { ...segments[segments.length - 1] };
     }
 
     /**
@@ -622,8 +1897,8 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
             // Calculate total elapsed time in seconds
             const totalElapsedMs = this.stopTime - this.startTime;
 
-            // Check if the insertBlankScreenOnPause false then decrease the duration do not
-            if (!this.options.insertBlankScreenOnPause) {
+            // Paused time is only missing from the file when the recorder itself was paused
+            if (this.options.pauseMode === PauseMode.CUT) {
                 duration = Math.round((totalElapsedMs - this.totalPausedTime) / 1000);
             } else {
                 duration = Math.round(totalElapsedMs / 1000);
@@ -638,15 +1913,40 @@ export class RecordingSession extends TypedEventEmitter<RecordingSessionEvents>
             });
         }
 
-        return {
+        const segments = [...this.segments];
+        if (this.currentSegment) {
+            segments.push(await this.closeSegment(
+                this.currentSegment,
+                this.stopTime,
+                this.getSegmentCutTime(this.currentSegment, this.stopTime)
+            ));
+        }
+
+        const result: RecordingResult = {
             path: filePath,
             duration,
             mediaProfile: this.options.mediaProfile,
             sessionId: this.options.sessionId,
+            stopReason: this.stopReason,
+            segments,
+            networkQuality: this.qualityMonitor.getSummary(),
             timestamp: {
                 start: this.startTime,
                 end: this.stopTime
             }
         };
+
+        // A split recording or one with additional outputs is described by each of its files
+        const outputs = await readOutputSizes(getRecordingOutputs(
+            filePath,
+            this.options.mediaProfile,
+            this.options.recordingMode,
+            this.options.outputs ?? []
+        ));
+        if (outputs.length > 1) {
+            result.outputs = outputs;
+        }
+
+        return result;
     }
 } 
\ No newline at end of file
@@ -0,0 +1,781 @@
+/**
+ * RoomRecording: Mixes several participants into one recording
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { TypedEventEmitter } from '../events';
+import { Logger, toMediaUri } from '../utils';
+import { SessionError, MediaError, WebRTCError } from '../errors';
+import { ErrorCode, DEFAULT_WEBRTC_OPTIONS, DEFAULT_RECORDER_OPTIONS } from '../constants';
+import {
+    RoomRecordingOptions,
+    RecordingState,
+    RecordingResult,
+    StateTransitionEvent,
+    RoomParticipantEvent,
+    RoomLayoutEvent,
+    RoomTrack,
+    RoomManifest,
+    SdpData,
+    IceCandidate,
+    IceComponentState,
+    WebRtcEndpoint,
+    RecorderEndpoint,
+    HubPort
+} from '../types';
+import { MediaPipeline } from './MediaPipeline';
+import { WebRTCHandler } from './WebRTCHandler';
+import { canTransition } from './SessionStateMachine';
+
+const stat = promisify(fs.stat);
+const writeFile = promisify(fs.writeFile);
+
+/** Pipeline registry ID of the Composite hub */
+const COMPOSITE_ELEMENT_ID = 'composite';
+
+/**
+ * Events emitted by RoomRecording
+ */
+export interface RoomRecordingEvents {
+    'state-change': StateTransitionEvent;
+    'transition-rejected': StateTransitionEvent;
+    'participant-joined': RoomParticipantEvent;
+    'participant-left': RoomParticipantEvent;
+    'layout-changed': RoomLayoutEvent;
+    'track-started': RoomTrack;
+    'track-stopped': RoomTrack;
+    'manifest-written': RoomManifest;
+    'recording-started': { timestamp: number };
+    'recording-stopped': RecordingResult;
+    'ice-candidate': { participantId: string, candidate: IceCandidate };
+    'ice-gathering-done': { participantId: string };
+    'ice-component-state-changed': {
+        participantId: string,
+        streamId: number,
+        componentId: number,
+        state: IceComponentState
+    };
+    'error': Error;
+}
+
+/**
+ * Media elements of a room participant
+ */
+interface RoomParticipant {
+    participantId: string;
+    webRtcEndpoint: WebRtcEndpoint;
+    hubPort: HubPort;
+    webrtcHandler: WebRTCHandler;
+    joinedAt: number;
+    /** Recorder of the isolated track, null unless the room records isolated tracks */
+    recorderEndpoint: RecorderEndpoint | null;
+    trackPath: string | null;
+    /** Track being recorded, null before the participant's recording starts */
+    track: RoomTrack | null;
+}
+
+/**
+ * Copy a track so listeners cannot alter the manifest
+ *
+ * @param track Track to copy
+ * @returns Copy of the track
+ */
+function copyTrack(track: RoomTrack): RoomTrack {
+    return { ...track, timestamp: { ...track.timestamp } };
+}
+
+/**
+ * Records a room: every participant negotiates its own WebRTC connection and
+ * is fed into a Kurento Composite hub, whose mixed grid output is recorded.
+ * With isolatedTracks, every participant is also recorded into its own file
+ * and a manifest of the tracks' offsets is written when the recording stops
+ */
+export class RoomRecording extends TypedEventEmitter<RoomRecordingEvents> {
+    private logger: Logger;
+    private options: Required<RoomRecordingOptions>;
+    private pipeline: MediaPipeline;
+    private state: RecordingState = RecordingState.CREATED;
+    private composite: any = null;
+    private recorderEndpoint: RecorderEndpoint | null = null;
+    private participants: Map<string, RoomParticipant> = new Map();
+    private joining: Set<string> = new Set();
+    private tracks: RoomTrack[] = [];
+    private startTime: number = 0;
+    private stopTime: number = 0;
+
+    /**
+     * Create a new RoomRecording
+     *
+     * @param options Normalized room options
+     * @param pipeline Media pipeline
+     * @param logger Logger instance
+     */
+    constructor(
+        options: Required<RoomRecordingOptions>,
+        pipeline: MediaPipeline,
+        logger: Logger
+    ) {
+        super();
+
+        this.options = options;
+        this.pipeline = pipeline;
+        this.logger = logger.createChild({
+            name: 'RoomRecording',
+            context: { roomId: options.roomId }
+        });
+
+        this.logger.info('Room recording created', {
+            roomId: options.roomId,
+            mediaProfile: options.mediaProfile,
+            maxParticipants: options.maxParticipants,
+            isolatedTracks: options.isolatedTracks
+        });
+    }
+
+    /**
+     * Create the Composite hub and the recorder of the mixed output
+     */
+    async initialize(): Promise<void> {
+        this.assertState([RecordingState.CREATED], 'initialize room');
+
+        try {
+            this.logger.debug('Creating composite hub and recorder');
+
+            this.composite = await this.pipeline.createElement({ type: 'Composite' }, COMPOSITE_ELEMENT_ID);
+            const outputPort: HubPort = await this.pipeline.createElement(
+                { type: 'HubPort', options: { hub: this.composite } },
+                `${COMPOSITE_ELEMENT_ID}:output`
+            );
+
+            this.recorderEndpoint = await this.pipeline.createRecorderEndpoint(
+                {
+                    uri: toMediaUri(this.options.filePath),
+                    mediaProfile: this.options.mediaProfile,
+                    ...DEFAULT_RECORDER_OPTIONS
+                },
+                'recorder'
+            );
+            await this.pipeline.connect(outputPort, this.recorderEndpoint);
+
+            this.transition(RecordingState.READY, 'initialize');
+            this.logger.info('Room recording initialized');
+        } catch (error: any) {
+            this.logger.error('Error initializing room recording', { error });
+            this.transition(RecordingState.ERROR, 'initialize-failed');
+            throw new SessionError(
+                `Failed to initialize room recording: ${error.message}`,
+                ErrorCode.SESSION_CREATION_FAILED,
+                error
+            );
+        }
+    }
+
+    /**
+     * Add a participant to the room and negotiate its WebRTC connection
+     * Participants may join before and during the recording
+     *
+     * @param participantId Participant identifier, unique within the room
+     * @param sdpOffer SDP offer of the participant
+     * @returns SDP answer
+     */
+    async addParticipant(participantId: string, sdpOffer: string | SdpData): Promise<SdpData> {
+        this.assertState([RecordingState.READY, RecordingState.RECORDING], 'add participant');
+
+        if (this.participants.has(participantId) || this.joining.has(participantId)) {
+            throw new SessionError(
+                `Participant ${participantId} already joined room ${this.options.roomId}`,
+                ErrorCode.SESSION_ALREADY_EXISTS
+            );
+        }
+
+        const { maxParticipants } = this.options;
+        if (maxParticipants > 0 && this.participants.size + this.joining.size >= maxParticipants) {
+            throw new SessionError(
+                `Room ${this.options.roomId} is full (${maxParticipants} participants)`,
+                ErrorCode.SESSION_ADMISSION_REJECTED,
+                { maxParticipants }
+            );
+        }
+
+        let webRtcEndpoint: WebRtcEndpoint | null = null;
+        let hubPort: HubPort | null = null;
+        let recorderEndpoint: RecorderEndpoint | null = null;
+        let trackPath: string | null = null;
+
+        // Hold the slot while the participant negotiates
+        this.joining.add(participantId);
+
+        try {
+            this.logger.info('Adding participant', { participantId });
+
+            webRtcEndpoint = await this.pipeline.createWebRtcEndpoint(
+                { ...DEFAULT_WEBRTC_OPTIONS },
+                `webrtc:${participantId}`
+            );
+            hubPort = await this.pipeline.createElement(
+                { type: 'HubPort', options: { hub: this.composite } },
+                `${COMPOSITE_ELEMENT_ID}:${participantId}`
+            ) as HubPort;
+            await this.pipeline.connect(webRtcEndpoint, hubPort);
+
+            if (this.options.isolatedTracks) {
+                trackPath = this.getTrackPath(participantId);
+                recorderEndpoint = await this.pipeline.createRecorderEndpoint(
+                    {
+                        uri: toMediaUri(trackPath),
+                        mediaProfile: this.options.mediaProfile,
+                        ...DEFAULT_RECORDER_OPTIONS
+                    },
+                    `recorder:${participantId}`
+                );
+                await this.pipeline.connect(webRtcEndpoint, recorderEndpoint);
+            }
+
+            const webrtcHandler = new WebRTCHandler(
+                this.logger.createChild({ name: `WebRTC:${participantId}` })
+            );
+            webrtcHandler.setEndpoint(webRtcEndpoint);
+            this.forwardIceEvents(participantId, webrtcHandler);
+
+            const sdpAnswer = await webrtcHandler.processOffer(sdpOffer);
+            await webrtcHandler.gatherCandidates();
+            await webrtcHandler.setQualityParameters(this.options.minBitrate, this.options.maxBitrate);
+
+            const participant: RoomParticipant = {
+                participantId,
+                webRtcEndpoint,
+                hubPort,
+                webrtcHandler,
+                joinedAt: Date.now(),
+                recorderEndpoint,
+                trackPath,
+                track: null
+            };
+            this.participants.set(participantId, participant);
+
+            this.emit('participant-joined', {
+                roomId: this.options.roomId,
+                participantId,
+                timestamp: participant.joinedAt
+            });
+            this.emitLayout();
+
+            this.logger.info('Participant added', { participantId, participantCount: this.participants.size });
+
+            // A participant joining a running recording starts its track right away
+            if (this.state === RecordingState.RECORDING) {
+                await this.startTrack(participant).catch((error: any) => {
+                    this.logger.error('Error starting participant track', { error, participantId });
+                    this.emit('error', new MediaError(
+                        `Failed to start the track of participant ${participantId}: ${error.message}`,
+                        ErrorCode.RECORDING_START_ERROR,
+                        error
+                    ));
+                });
+            }
+
+            return sdpAnswer;
+        } catch (error: any) {
+            this.logger.error('Error adding participant', { error, participantId });
+
+            this.pipeline.removeElement(`webrtc:${participantId}`);
+            this.pipeline.removeElement(`${COMPOSITE_ELEMENT_ID}:${participantId}`);
+            this.pipeline.removeElement(`recorder:${participantId}`);
+            await recorderEndpoint?.release().catch(() => undefined);
+            await hubPort?.release().catch(() => undefined);
+            await webRtcEndpoint?.release().catch(() => undefined);
+
+            if (error instanceof WebRTCError || error instanceof MediaError) {
+                throw error;
+            }
+
+            throw new SessionError(
+                `Failed to add participant ${participantId}: ${error.message}`,
+                ErrorCode.SESSION_NOT_READY,
+                error
+            );
+        } finally {
+            this.joining.delete(participantId);
+        }
+    }
+
+    /**
+     * Add an ICE candidate of a participant
+     *
+     * @param participantId Participant identifier
+     * @param candidate ICE candidate
+     */
+    async addIceCandidate(participantId: string, candidate: IceCandidate): Promise<void> {
+        const participant = this.getParticipant(participantId);
+
+        try {
+            await participant.webrtcHandler.addIceCandidate(candidate);
+        } catch (error: any) {
+            this.logger.error('Error adding ICE candidate', { error, participantId });
+            // Don't throw here - ICE candidates can fail individually without failing the room
+        }
+    }
+
+    /**
+     * Remove a participant from the room
+     * The Composite re-arranges the remaining participants
+     *
+     * @param participantId Participant identifier
+     */
+    async removeParticipant(participantId: string): Promise<void> {
+        const participant = this.getParticipant(participantId);
+
+        this.logger.info('Removing participant', { participantId });
+        this.participants.delete(participantId);
+
+        try {
+            await this.stopTrack(participant);
+        } catch (error: any) {
+            this.logger.error('Error stopping participant track', { error, participantId });
+        }
+
+        await this.releaseParticipant(participant);
+
+        this.emit('participant-left', {
+            roomId: this.options.roomId,
+            participantId,
+            timestamp: Date.now()
+        });
+        this.emitLayout();
+
+        this.logger.info('Participant removed', { participantId, participantCount: this.participants.size });
+    }
+
+    /**
+     * Start recording the mixed output
+     */
+    async start(): Promise<void> {
+        if (!this.canTransition(RecordingState.STARTING)) {
+            this.rejectTransition(RecordingState.STARTING, 'start');
+        }
+
+        this.transition(RecordingState.STARTING, 'start');
+
+        try {
+            this.logger.info('Starting room recording');
+            await this.recorderEndpoint!.record();
+            this.startTime = Date.now();
+
+            for (const participant of this.participants.values()) {
+                await this.startTrack(participant);
+            }
+
+            this.transition(RecordingState.RECORDING, 'start');
+            this.emit('recording-started', { timestamp: this.startTime });
+            this.logger.info('Room recording started');
+        } catch (error: any) {
+            this.logger.error('Error starting room recording', { error });
+            this.transition(RecordingState.ERROR, 'start-failed');
+            throw new MediaError(
+                `Failed to start room recording: ${error.message}`,
+                ErrorCode.RECORDING_START_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Stop recording the mixed output
+     * Participants stay connected until the room is released
+     *
+     * @returns Recording result
+     */
+    async stop(): Promise<RecordingResult> {
+        this.transition(RecordingState.STOPPING, 'stop');
+
+        try {
+            this.logger.info('Stopping room recording');
+            await this.recorderEndpoint!.stop();
+            this.stopTime = Date.now();
+
+            for (const participant of this.participants.values()) {
+                await this.stopTrack(participant);
+            }
+
+            this.transition(RecordingState.STOPPED, 'stop');
+
+            if (this.options.isolatedTracks) {
+                await this.writeManifest();
+            }
+
+            const result = await this.createRecordingResult();
+            this.emit('recording-stopped', result);
+            this.logger.info('Room recording stopped', { duration: result.duration });
+            return result;
+        } catch (error: any) {
+            this.logger.error('Error stopping room recording', { error });
+            this.transition(RecordingState.ERROR, 'stop-failed');
+            throw new MediaError(
+                `Failed to stop room recording: ${error.message}`,
+                ErrorCode.RECORDING_STOP_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Release the participants, the hub and the pipeline
+     */
+    async release(): Promise<void> {
+        if (this.state === RecordingState.RELEASED) {
+            this.logger.debug('Room resources already released');
+            return;
+        }
+
+        try {
+            this.logger.debug('Releasing room resources');
+
+            for (const participant of this.participants.values()) {
+                await this.releaseParticipant(participant);
+            }
+            this.participants.clear();
+
+            // Releasing the pipeline releases the hub and the recorder
+            await this.pipeline.release();
+            this.composite = null;
+            this.recorderEndpoint = null;
+
+            this.transition(RecordingState.RELEASED, 'release');
+            this.logger.info('Room resources released');
+        } catch (error: any) {
+            this.logger.error('Error releasing room resources', { error });
+            throw new SessionError(
+                `Failed to release room resources: ${error.message}`,
+                ErrorCode.RESOURCE_RELEASE_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Get the current state of the room recording
+     *
+     * @returns Recording state
+     */
+    getState(): RecordingState {
+        return this.state;
+    }
+
+    /**
+     * Check whether the room can currently move to a state
+     *
+     * @param state Target state
+     * @returns true if the transition table allows it
+     */
+    canTransition(state: RecordingState): boolean {
+        return canTransition(this.state, state);
+    }
+
+    /**
+     * Get the room ID
+     *
+     * @returns Room ID
+     */
+    getRoomId(): string {
+        return this.options.roomId;
+    }
+
+    /**
+     * Get the room options
+     *
+     * @returns Room options
+     */
+    getOptions(): Required<RoomRecordingOptions> {
+        return { ...this.options };
+    }
+
+    /**
+     * Get the IDs of the participants in join order
+     *
+     * @returns Participant IDs
+     */
+    getParticipants(): string[] {
+        return [...this.participants.keys()];
+    }
+
+    /**
+     * Get the mixed recording file path
+     *
+     * @returns File path
+     */
+    getFilePath(): string {
+        return this.options.filePath;
+    }
+
+    /**
+     * Get the manifest of the isolated tracks recorded so far
+     *
+     * @returns Room manifest
+     */
+    getManifest(): RoomManifest {
+        return {
+            roomId: this.options.roomId,
+            path: this.options.filePath,
+            mediaProfile: this.options.mediaProfile,
+            timestamp: {
+                start: this.startTime,
+                end: this.stopTime
+            },
+            tracks: this.tracks.map(copyTrack)
+        };
+    }
+
+    /**
+     * Look up a participant
+     *
+     * @param participantId Participant identifier
+     * @returns The participant
+     * @throws SessionError if the participant is not in the room
+     */
+    private getParticipant(participantId: string): RoomParticipant {
+        const participant = this.participants.get(participantId);
+
+        if (!participant) {
+            throw new SessionError(
+                `Participant ${participantId} not found in room ${this.options.roomId}`,
+                ErrorCode.SESSION_NOT_FOUND
+            );
+        }
+
+        return participant;
+    }
+
+    /**
+     * Re-emit the ICE events of a participant's endpoint so they can be trickled to the browser
+     *
+     * @param participantId Participant identifier
+     * @param webrtcHandler Handler of the participant's endpoint
+     */
+    private forwardIceEvents(participantId: string, webrtcHandler: WebRTCHandler): void {
+        webrtcHandler.on('ice-candidate', (candidate) => {
+            this.emit('ice-candidate', { participantId, candidate });
+        });
+        webrtcHandler.on('ice-gathering-done', () => {
+            this.emit('ice-gathering-done', { participantId });
+        });
+        webrtcHandler.on('ice-component-state-changed', (event) => {
+            this.emit('ice-component-state-changed', { participantId, ...event });
+        });
+    }
+
+    /**
+     * Get the file path of a participant's next track
+     * Tracks are stored next to the mixed file; a participant who rejoins gets a numbered file
+     *
+     * @param participantId Participant identifier
+     * @returns Track file path
+     */
+    private getTrackPath(participantId: string): string {
+        const { dir, name, ext } = path.parse(this.options.filePath);
+        const previous = this.tracks.filter(track => track.participantId === participantId).length;
+        const suffix = previous > 0 ? `_${previous + 1}` : '';
+
+        return path.join(dir, `${name}_${participantId.replace(/[^\w.-]/g, '_')}${suffix}${ext}`);
+    }
+
+    /**
+     * Start recording the isolated track of a participant
+     *
+     * @param participant Participant to record
+     */
+    private async startTrack(participant: RoomParticipant): Promise<void> {
+        if (!participant.recorderEndpoint || participant.track) {
+            return;
+        }
+
+        await participant.recorderEndpoint.record();
+
+        const start = Date.now();
+        const track: RoomTrack = {
+            participantId: participant.participantId,
+            path: participant.trackPath!,
+            offset: start - this.startTime,
+            timestamp: { start, end: 0 }
+        };
+
+        participant.track = track;
+        this.tracks.push(track);
+
+        this.logger.debug('Participant track started', { participantId: track.participantId, offset: track.offset });
+        this.emit('track-started', copyTrack(track));
+    }
+
+    /**
+     * Stop recording the isolated track of a participant
+     *
+     * @param participant Participant being recorded
+     */
+    private async stopTrack(participant: RoomParticipant): Promise<void> {
+        const { track } = participant;
+
+        if (!track || track.timestamp.end > 0) {
+            return;
+        }
+
+        await participant.recorderEndpoint!.stop();
+        track.timestamp.end = Date.now();
+
+        this.logger.debug('Participant track stopped', { participantId: track.participantId });
+        this.emit('track-stopped', copyTrack(track));
+    }
+
+    /**
+     * Write the manifest of the isolated tracks
+     * A failed write is reported but does not fail the stop, the recordings are intact
+     */
+    private async writeManifest(): Promise<void> {
+        const manifest = this.getManifest();
+
+        try {
+            await writeFile(this.options.manifestPath, JSON.stringify(manifest, null, 2));
+            this.logger.info('Room manifest written', {
+                manifestPath: this.options.manifestPath,
+                trackCount: manifest.tracks.length
+            });
+            this.emit('manifest-written', manifest);
+        } catch (error: any) {
+            this.logger.error('Error writing room manifest', { error, manifestPath: this.options.manifestPath });
+            this.emit('error', new MediaError(
+                `Failed to write room manifest: ${error.message}`,
+                ErrorCode.RECORDING_FILE_ERROR,
+                error
+            ));
+        }
+    }
+
+    /**
+     * Release the elements of a participant
+     *
+     * @param participant Participant to release
+     */
+    private async releaseParticipant(participant: RoomParticipant): Promise<void> {
+        const { participantId } = participant;
+
+        this.pipeline.removeElement(`webrtc:${participantId}`);
+        this.pipeline.removeElement(`${COMPOSITE_ELEMENT_ID}:${participantId}`);
+        this.pipeline.removeElement(`recorder:${participantId}`);
+
+        try {
+            await participant.recorderEndpoint?.release();
+        } catch (error: any) {
+            this.logger.warn('Error releasing participant recorder', { error, participantId });
+        }
+
+        try {
+            await participant.hubPort.release();
+        } catch (error: any) {
+            this.logger.warn('Error releasing participant hub port', { error, participantId });
+        }
+
+        try {
+            await participant.webRtcEndpoint.release();
+        } catch (error: any) {
+            this.logger.warn('Error releasing participant WebRTC endpoint', { error, participantId });
+        }
+    }
+
+    /**
+     * Emit the current grid layout
+     * Kurento's Composite uses the smallest square-ish grid fitting all participants
+     */
+    private emitLayout(): void {
+        const participants = this.getParticipants();
+        const columns = Math.ceil(Math.sqrt(participants.length));
+        const rows = columns > 0 ? Math.ceil(participants.length / columns) : 0;
+
+        this.emit('layout-changed', {
+            roomId: this.options.roomId,
+            participants,
+            columns,
+            rows,
+            timestamp: Date.now()
+        });
+    }
+
+    /**
+     * Build the result of the mixed recording
+     *
+     * @returns Recording result
+     */
+    private async createRecordingResult(): Promise<RecordingResult> {
+        let size: number | undefined;
+        try {
+            size = (await stat(this.options.filePath)).size;
+        } catch (error) {
+            this.logger.debug('Recording file not accessible locally', { filePath: this.options.filePath });
+        }
+
+        return {
+            path: this.options.filePath,
+            duration: this.startTime > 0 ? Math.round((this.stopTime - this.startTime) / 1000) : 0,
+            size,
+            mediaProfile: this.options.mediaProfile,
+            sessionId: this.options.roomId,
+            stopReason: 'user',
+            timestamp: {
+                start: this.startTime,
+                end: this.stopTime
+            }
+        };
+    }
+
+    /**
+     * Move the room to a new state if the transition table allows it
+     *
+     * @param state New state
+     * @param reason Operation requesting the transition
+     * @throws SessionError if the transition is not allowed
+     */
+    private transition(state: RecordingState, reason: string): void {
+        if (!canTransition(this.state, state)) {
+            this.rejectTransition(state, reason);
+        }
+
+        const from = this.state;
+        this.logger.debug(`State change: ${from} -> ${state}`, { reason });
+        this.state = state;
+        this.emit('state-change', { from, to: state, reason, timestamp: Date.now() });
+    }
+
+    /**
+     * Reject a transition that is not allowed from the current state
+     *
+     * @param state Requested state
+     * @param reason Operation requesting the transition
+     * @throws SessionError always
+     */
+    private rejectTransition(state: RecordingState, reason: string): never {
+        const from = this.state;
+        this.logger.warn(`Rejected state change: ${from} -> ${state}`, { reason });
+        this.emit('transition-rejected', { from, to: state, reason, timestamp: Date.now() });
+
+        throw new SessionError(
+            `Cannot transition from ${from} to ${state} (${reason})`,
+            ErrorCode.SESSION_INVALID_STATE,
+            { from, to: state, reason }
+        );
+    }
+
+    /**
+     * Ensure the room is in one of the given states
+     *
+     * @param states Allowed states
+     * @param action Action being attempted, used in the error message
+     * @throws SessionError if the room is in another state
+     */
+    private assertState(states: RecordingState[], action: string): void {
+        if (!states.includes(this.state)) {
+            throw new SessionError(
+                `Cannot ${action} in state ${this.state}`,
+                ErrorCode.SESSION_INVALID_STATE
+            );
+        }
+    }
+}
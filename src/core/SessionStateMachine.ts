@@ -0,0 +1,63 @@
+/**
+ * SessionStateMachine: Allowed RecordingSession state transitions
+ */
+
+import { RecordingState } from '../types';
+
+/**
+ * Transition table over RecordingState
+ * Maps each state to the states a session may move to from it
+ */
+export const RECORDING_STATE_TRANSITIONS: Readonly<Record<RecordingState, readonly RecordingState[]>> = {
+    [RecordingState.CREATED]: [
+        RecordingState.READY,
+        RecordingState.ERROR,
+        RecordingState.RELEASED
+    ],
+    [RecordingState.READY]: [
+        RecordingState.STARTING,
+        RecordingState.ERROR,
+        RecordingState.RELEASED
+    ],
+    [RecordingState.STARTING]: [
+        RecordingState.RECORDING,
+        RecordingState.ERROR,
+        RecordingState.RELEASED
+    ],
+    [RecordingState.RECORDING]: [
+        RecordingState.PAUSED,
+        RecordingState.STOPPING,
+        RecordingState.ERROR,
+        RecordingState.RELEASED
+    ],
+    [RecordingState.PAUSED]: [
+        RecordingState.RECORDING,
+        RecordingState.STOPPING,
+        RecordingState.ERROR,
+        RecordingState.RELEASED
+    ],
+    [RecordingState.STOPPING]: [
+        RecordingState.STOPPED,
+        RecordingState.ERROR,
+        RecordingState.RELEASED
+    ],
+    [RecordingState.STOPPED]: [
+        RecordingState.RELEASED
+    ],
+    [RecordingState.ERROR]: [
+        RecordingState.STOPPING,
+        RecordingState.RELEASED
+    ],
+    [RecordingState.RELEASED]: []
+};
+
+/**
+ * Check whether the transition table allows moving between two states
+ *
+ * @param from Current state
+ * @param to Target state
+ * @returns true if the transition is allowed
+ */
+export function canTransition(from: RecordingState, to: RecordingState): boolean {
+    return RECORDING_STATE_TRANSITIONS[from].includes(to);
+}
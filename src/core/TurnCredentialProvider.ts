@@ -0,0 +1,125 @@
+/**
+ * TurnCredentialProvider: Issues short-lived TURN credentials to clients
+ */
+
+import * as crypto from 'crypto';
+import { Logger } from '../utils';
+import { ConfigError } from '../errors';
+import { ErrorCode } from '../constants';
+import { TurnCredentialConfig, TurnCredentials, TurnSecret } from '../types';
+
+/**
+ * Signs TURN REST API credentials (draft-uberti-behave-turn-rest) with a secret
+ * shared with the TURN server. The username carries the expiry time, so the
+ * TURN server can check the credentials without contacting the SDK
+ *
+ * Secrets are rotated by adding the next secret with a `validFrom` time: deploy it
+ * to the TURN server first, it signs the credentials from that time on. Keep the
+ * previous secret on the TURN server for `ttlSeconds` after the switch, until
+ * the last credentials it signed expire
+ */
+export class TurnCredentialProvider {
+    private logger: Logger;
+    private urls: string[];
+    private ttlSeconds: number;
+    /** Secrets ordered by validFrom, newest first */
+    private secrets: Required<TurnSecret>[] = [];
+
+    /**
+     * Create a new TurnCredentialProvider
+     *
+     * @param config Normalized TURN credential options
+     * @param logger Logger instance
+     */
+    constructor(config: Required<TurnCredentialConfig>, logger: Logger) {
+        this.urls = config.urls;
+        this.ttlSeconds = config.ttlSeconds;
+        this.logger = logger.createChild({ name: 'TurnCredentialProvider' });
+
+        config.secrets.forEach(secret => this.addSecret(secret));
+    }
+
+    /**
+     * Issue credentials for a client
+     *
+     * @param userId Identifier of the client, e.g. a session ID
+     * @returns Credentials and the ICE servers to use them with
+     */
+    issue(userId: string): TurnCredentials {
+        const now = Date.now();
+        const secret = this.getActiveSecret(now);
+        const expiry = Math.floor(now / 1000) + this.ttlSeconds;
+
+        const username = `${expiry}:${userId}`;
+        const credential = crypto.createHmac('sha1', secret.secret).update(username).digest('base64');
+
+        this.logger.debug('TURN credentials issued', { userId, expiresAt: expiry * 1000 });
+
+        return {
+            username,
+            credential,
+            expiresAt: expiry * 1000,
+            iceServers: [{ urls: [...this.urls], username, credential }]
+        };
+    }
+
+    /**
+     * Add the next shared secret
+     * Secrets replaced by a newer one that is already valid are dropped
+     *
+     * @param secret Shared secret
+     * @param validFrom Time in milliseconds since the epoch from which the secret signs credentials (default: now)
+     */
+    rotateSecret(secret: string, validFrom: number = Date.now()): void {
+        if (!secret) {
+            throw new ConfigError(
+                'TURN shared secret must not be empty',
+                ErrorCode.INVALID_PARAMETER
+            );
+        }
+
+        this.addSecret({ secret, validFrom });
+
+        const now = Date.now();
+        const active = this.secrets.find(candidate => candidate.validFrom <= now);
+        if (active) {
+            this.secrets = this.secrets.filter(candidate => candidate.validFrom >= active.validFrom);
+        }
+
+        this.logger.info('TURN shared secret rotated', {
+            validFrom,
+            pendingSecrets: this.secrets.filter(candidate => candidate.validFrom > now).length
+        });
+    }
+
+    /**
+     * Insert a secret keeping the newest first
+     *
+     * @param secret Secret to add
+     */
+    private addSecret(secret: TurnSecret): void {
+        this.secrets.push({ secret: secret.secret, validFrom: secret.validFrom ?? 0 });
+        this.secrets.sort((a, b) => b.validFrom - a.validFrom);
+    }
+
+    /**
+     * Get the secret that signs credentials at a given time
+     *
+     * @param now Time in milliseconds since the epoch
+     * @returns The newest secret that is already valid
+     * @throws ConfigError if all secrets only become valid later
+     */
+    private getActiveSecret(now: number): Required<TurnSecret> {
+        const secret = this.secrets.find(candidate => candidate.validFrom <= now);
+
+        if (!secret) {
+            throw new ConfigError(
+                'No TURN shared secret is valid yet',
+                ErrorCode.CONFIG_ERROR,
+                { validFrom: this.secrets.map(candidate => candidate.validFrom) }
+            );
+        }
+
+        return secret;
+    }
+}
@@ -0,0 +1,300 @@
+/**
+ * ViewerManager: Manages live viewers of a recording session
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { TypedEventEmitter } from '../events';
+import { Logger } from '../utils';
+import { SessionError, MediaError, WebRTCError } from '../errors';
+import { ErrorCode, DEFAULT_WEBRTC_OPTIONS } from '../constants';
+import {
+    SdpData,
+    IceCandidate,
+    IceComponentState,
+    WebRtcEndpoint,
+    PlayerEndpoint,
+    ViewerConnection
+} from '../types';
+import { MediaPipeline } from './MediaPipeline';
+import { WebRTCHandler } from './WebRTCHandler';
+
+/**
+ * Events emitted by ViewerManager
+ */
+export interface ViewerManagerEvents {
+    'ice-candidate': { viewerId: string, candidate: IceCandidate };
+    'ice-gathering-done': { viewerId: string };
+    'ice-component-state-changed': {
+        viewerId: string,
+        streamId: number,
+        componentId: number,
+        state: IceComponentState
+    };
+}
+
+/**
+ * Media elements of a viewer
+ */
+interface Viewer {
+    viewerId: string;
+    webRtcEndpoint: WebRtcEndpoint;
+    webrtcHandler: WebRTCHandler;
+    addedAt: number;
+}
+
+/**
+ * Manages the WebRTC endpoints sending a session's ingest to live viewers
+ * Viewer endpoints are only ever sinks of the ingest endpoint, so adding,
+ * removing or losing a viewer never touches the recording branch
+ */
+export class ViewerManager extends TypedEventEmitter<ViewerManagerEvents> {
+    private logger: Logger;
+    private pipeline: MediaPipeline;
+    private maxViewers: number;
+    private viewers: Map<string, Viewer> = new Map();
+    private joining: Set<string> = new Set();
+
+    /**
+     * Create a new ViewerManager
+     *
+     * @param pipeline Media pipeline of the session
+     * @param maxViewers Maximum number of viewers, 0 for unlimited
+     * @param logger Logger instance
+     */
+    constructor(pipeline: MediaPipeline, maxViewers: number, logger: Logger) {
+        super();
+        this.pipeline = pipeline;
+        this.maxViewers = maxViewers;
+        this.logger = logger.createChild({ name: 'ViewerManager' });
+    }
+
+    /**
+     * Add a viewer receiving the media of the ingest endpoint
+     *
+     * @param source Input endpoint of the session
+     * @param sdpOffer Receive-only SDP offer of the viewer
+     * @param viewerId Viewer identifier, generated if omitted
+     * @returns The viewer identifier and the SDP answer
+     */
+    async addViewer(
+        source: WebRtcEndpoint | PlayerEndpoint,
+        sdpOffer: string | SdpData,
+        viewerId: string = `viewer-${uuidv4().slice(0, 8)}`
+    ): Promise<ViewerConnection> {
+        if (this.viewers.has(viewerId) || this.joining.has(viewerId)) {
+            throw new SessionError(
+                `Viewer ${viewerId} already exists`,
+                ErrorCode.SESSION_ALREADY_EXISTS,
+                { viewerId }
+            );
+        }
+
+        if (this.maxViewers > 0 && this.viewers.size + this.joining.size >= this.maxViewers) {
+            throw new SessionError(
+                `Viewer limit reached (${this.maxViewers} viewers)`,
+                ErrorCode.SESSION_ADMISSION_REJECTED,
+                { maxViewers: this.maxViewers }
+            );
+        }
+
+        let webRtcEndpoint: WebRtcEndpoint | null = null;
+
+        // Hold the slot while the viewer negotiates
+        this.joining.add(viewerId);
+
+        try {
+            this.logger.info('Adding viewer', { viewerId });
+
+            webRtcEndpoint = await this.pipeline.createWebRtcEndpoint(
+                { ...DEFAULT_WEBRTC_OPTIONS },
+                this.getViewerElementId(viewerId)
+            );
+            await this.pipeline.connect(source, webRtcEndpoint);
+
+            const webrtcHandler = new WebRTCHandler(
+                this.logger.createChild({ name: `WebRTC:${viewerId}` })
+            );
+            this.forwardIceEvents(viewerId, webrtcHandler);
+            webrtcHandler.setEndpoint(webRtcEndpoint);
+
+            const sdpAnswer = await webrtcHandler.processOffer(sdpOffer);
+            await webrtcHandler.gatherCandidates();
+
+            this.viewers.set(viewerId, {
+                viewerId,
+                webRtcEndpoint,
+                webrtcHandler,
+                addedAt: Date.now()
+            });
+
+            this.logger.info('Viewer added', { viewerId, viewerCount: this.viewers.size });
+            return { viewerId, sdpAnswer };
+        } catch (error: any) {
+            this.logger.error('Error adding viewer', { error, viewerId });
+
+            this.pipeline.removeElement(this.getViewerElementId(viewerId));
+            await webRtcEndpoint?.release().catch(() => undefined);
+
+            if (error instanceof WebRTCError || error instanceof MediaError) {
+                throw error;
+            }
+
+            throw new SessionError(
+                `Failed to add viewer ${viewerId}: ${error.message}`,
+                ErrorCode.SESSION_NOT_READY,
+                error
+            );
+        } finally {
+            this.joining.delete(viewerId);
+        }
+    }
+
+    /**
+     * Add an ICE candidate of a viewer
+     *
+     * @param viewerId Viewer identifier
+     * @param candidate ICE candidate
+     */
+    async addIceCandidate(viewerId: string, candidate: IceCandidate): Promise<void> {
+        const viewer = this.getViewer(viewerId);
+
+        try {
+            await viewer.webrtcHandler.addIceCandidate(candidate);
+        } catch (error: any) {
+            this.logger.error('Error adding viewer ICE candidate', { error, viewerId });
+            // Don't throw here - ICE candidates can fail individually without failing the viewer
+        }
+    }
+
+    /**
+     * Remove a viewer and release its endpoint
+     *
+     * @param viewerId Viewer identifier
+     */
+    async removeViewer(viewerId: string): Promise<void> {
+        const viewer = this.getViewer(viewerId);
+
+        this.logger.info('Removing viewer', { viewerId });
+        this.viewers.delete(viewerId);
+        await this.releaseViewer(viewer);
+
+        this.logger.info('Viewer removed', { viewerId, viewerCount: this.viewers.size });
+    }
+
+    /**
+     * Remove all viewers
+     *
+     * @returns Identifiers of the removed viewers
+     */
+    async removeAllViewers(): Promise<string[]> {
+        const viewers = Array.from(this.viewers.values());
+        this.viewers.clear();
+
+        for (const viewer of viewers) {
+            await this.releaseViewer(viewer);
+        }
+
+        return viewers.map(viewer => viewer.viewerId);
+    }
+
+    /**
+     * Re-bind the viewers to the element proxies of a re-bound pipeline
+     */
+    rebindViewers(): void {
+        for (const viewer of this.viewers.values()) {
+            const webRtcEndpoint = this.pipeline.getElement(this.getViewerElementId(viewer.viewerId));
+
+            if (!webRtcEndpoint) {
+                this.logger.warn('Viewer endpoint missing after re-bind', { viewerId: viewer.viewerId });
+                continue;
+            }
+
+            viewer.webRtcEndpoint = webRtcEndpoint;
+
+            // Re-registers the endpoint event listeners on the new proxy
+            viewer.webrtcHandler.setEndpoint(webRtcEndpoint);
+        }
+    }
+
+    /**
+     * Get the identifiers of the current viewers
+     *
+     * @returns Viewer identifiers in the order they were added
+     */
+    getViewerIds(): string[] {
+        return Array.from(this.viewers.keys());
+    }
+
+    /**
+     * Get the number of current viewers
+     *
+     * @returns Number of viewers
+     */
+    getViewerCount(): number {
+        return this.viewers.size;
+    }
+
+    /**
+     * Get a viewer or throw if it does not exist
+     *
+     * @param viewerId Viewer identifier
+     * @returns The viewer
+     */
+    private getViewer(viewerId: string): Viewer {
+        const viewer = this.viewers.get(viewerId);
+
+        if (!viewer) {
+            throw new SessionError(
+                `Viewer ${viewerId} not found`,
+                ErrorCode.SESSION_NOT_FOUND,
+                { viewerId }
+            );
+        }
+
+        return viewer;
+    }
+
+    /**
+     * Forward the ICE events of a viewer's WebRTC handler with the viewer ID
+     *
+     * @param viewerId Viewer identifier
+     * @param webrtcHandler WebRTC handler of the viewer
+     */
+    private forwardIceEvents(viewerId: string, webrtcHandler: WebRTCHandler): void {
+        webrtcHandler.on('ice-candidate', (candidate) => {
+            this.emit('ice-candidate', { viewerId, candidate });
+        });
+        webrtcHandler.on('ice-gathering-done', () => {
+            this.emit('ice-gathering-done', { viewerId });
+        });
+        webrtcHandler.on('ice-component-state-changed', (event) => {
+            this.emit('ice-component-state-changed', { viewerId, ...event });
+        });
+    }
+
+    /**
+     * Release the endpoint of a viewer
+     * Releasing a sink disconnects it from the ingest endpoint
+     *
+     * @param viewer Viewer to release
+     */
+    private async releaseViewer(viewer: Viewer): Promise<void> {
+        this.pipeline.removeElement(this.getViewerElementId(viewer.viewerId));
+
+        try {
+            await viewer.webRtcEndpoint.release();
+        } catch (error: any) {
+            this.logger.warn('Error releasing viewer WebRTC endpoint', { error, viewerId: viewer.viewerId });
+        }
+    }
+
+    /**
+     * Get the pipeline registry ID of a viewer endpoint
+     *
+     * @param viewerId Viewer identifier
+     * @returns Element ID
+     */
+    private getViewerElementId(viewerId: string): string {
+        return `viewer:${viewerId}`;
+    }
+}
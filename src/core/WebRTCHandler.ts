@@ -2,6 +2,7 @@
  * WebRTCHandler: Manages WebRTC signaling and negotiation
  */
 
+import { TypedEventEmitter } from '../events';
 import { Logger } from '../utils';
 import { WebRTCError } from '../errors';
 import { ErrorCode } from '../constants';
@@ -9,16 +10,29 @@ import {
     WebRtcEndpoint,
     SdpData,
     WebRTCStats,
-    IceCandidate
+    IceCandidate,
+    IceComponentState
 } from '../types';
 
+/**
+ * Events emitted by WebRTCHandler
+ */
+export interface WebRTCHandlerEvents {
+    'media-flow-in': { mediaType: string, flowing: boolean };
+    'connection-state-changed': { state: string };
+    'ice-candidate': IceCandidate;
+    'ice-gathering-done': { timestamp: number };
+    'ice-component-state-changed': { streamId: number, componentId: number, state: IceComponentState };
+}
+
 /**
  * Handles WebRTC functionality including SDP processing and ICE candidates
  */
-export class WebRTCHandler {
+export class WebRTCHandler extends TypedEventEmitter<WebRTCHandlerEvents> {
     private logger: Logger;
     private webRtcEndpoint: WebRtcEndpoint | null = null;
     private pendingCandidates: IceCandidate[] = [];
+    /** Stats of the last collection */
     private stats: WebRTCStats = { timestamp: Date.now() };
 
     /**
@@ -27,6 +41,7 @@ export class WebRTCHandler {
      * @param logger Logger instance
      */
     constructor(logger: Logger) {
+        super();
         this.logger = logger.createChild({ name: 'WebRTCHandler' });
     }
 
@@ -39,8 +54,11 @@ export class WebRTCHandler {
         this.webRtcEndpoint = endpoint;
         this.logger.debug('WebRTC endpoint set');
 
-        // Set up ICE candidate event listener
+        // Set up ICE event listeners
         this.setupIceCandidateListener();
+        this.setupIceStateListeners();
+        this.setupMediaFlowListener();
+        this.setupConnectionStateListener();
 
         // Apply any pending ICE candidates
         if (this.pendingCandidates.length > 0) {
@@ -176,12 +194,84 @@ export class WebRTCHandler {
     /**
      * Get WebRTC connection statistics
      * 
-     * @returns Current WebRTC stats
+     * @returns Stats of the last collectStats() call
      */
     getStats(): WebRTCStats {
         return { ...this.stats };
     }
 
+    /**
+     * Collect the stats of the inbound media from the WebRTC endpoint
+     * Counters are summed over the audio and video streams. Bitrate and packet loss
+     * are measured since the previous collection, so the first one leaves the bitrate unset
+     * 
+     * @returns Current WebRTC stats
+     */
+    async collectStats(): Promise<WebRTCStats> {
+        if (!this.webRtcEndpoint) {
+            throw new WebRTCError(
+                'WebRTC endpoint not set, cannot collect stats',
+                ErrorCode.WEBRTC_STATS_ERROR
+            );
+        }
+
+        let report: Record<string, any>;
+        try {
+            report = await this.webRtcEndpoint.getStats();
+        } catch (error: any) {
+            throw new WebRTCError(
+                `Error collecting WebRTC stats: ${error.message}`,
+                ErrorCode.WEBRTC_STATS_ERROR,
+                error
+            );
+        }
+
+        const stats: WebRTCStats = {
+            timestamp: Date.now(),
+            mediaType: 'combined',
+            packetsReceived: 0,
+            packetsLost: 0,
+            bytesReceived: 0,
+            bytesSent: 0
+        };
+
+        // Kurento reports jitter and round-trip time in seconds and REMB in bps
+        for (const entry of Object.values(report)) {
+            if (entry.type === 'inboundrtp') {
+                stats.packetsReceived! += entry.packetsReceived ?? 0;
+                stats.packetsLost! += Math.max(entry.packetsLost ?? 0, 0);
+                stats.bytesReceived! += entry.bytesReceived ?? 0;
+
+                if (typeof entry.jitter === 'number') {
+                    stats.jitter = Math.max(stats.jitter ?? 0, entry.jitter * 1000);
+                }
+                if (entry.remb > 0) {
+                    stats.availableBandwidth = Math.max(stats.availableBandwidth ?? 0, entry.remb / 1000);
+                }
+            } else if (entry.type === 'outboundrtp') {
+                stats.bytesSent! += entry.bytesSent ?? 0;
+
+                if (entry.roundTripTime > 0) {
+                    stats.rtt = Math.max(stats.rtt ?? 0, entry.roundTripTime * 1000);
+                }
+            }
+        }
+
+        const previous = this.stats;
+        const elapsedMs = stats.timestamp - previous.timestamp;
+        const received = stats.packetsReceived! - (previous.packetsReceived ?? 0);
+        const lost = stats.packetsLost! - (previous.packetsLost ?? 0);
+
+        // Counters restart with a new endpoint, measure from scratch then
+        if (previous.bytesReceived !== undefined && elapsedMs > 0 && received >= 0 && lost >= 0) {
+            stats.bitrate = Math.max(stats.bytesReceived! - previous.bytesReceived, 0) * 8 / elapsedMs;
+            stats.packetLoss = received + lost > 0 ? lost / (received + lost) * 100 : 0;
+        }
+
+        this.stats = stats;
+        return { ...stats };
+    }
+
     /**
      * Set up ICE candidate event listener on the WebRTC endpoint
      */
@@ -190,8 +280,64 @@ export class WebRTCHandler {
 
         this.webRtcEndpoint.on('IceCandidateFound', (event: any) => {
             this.logger.debug('New ICE candidate found', { candidate: event.candidate });
-            // This would typically be emitted to allow sending to the client
-            // Implementation would depend on how events are handled in the SDK
+
+            // Copy the fields, the Kurento candidate is a client-side complex type
+            this.emit('ice-candidate', {
+                candidate: event.candidate.candidate,
+                sdpMid: event.candidate.sdpMid ?? null,
+                sdpMLineIndex: event.candidate.sdpMLineIndex ?? null
+            });
+        });
+    }
+
+    /**
+     * Set up ICE gathering and component state event listeners on the WebRTC endpoint
+     */
+    private setupIceStateListeners(): void {
+        if (!this.webRtcEndpoint) return;
+
+        this.webRtcEndpoint.on('IceGatheringDone', () => {
+            this.logger.debug('ICE candidate gathering done');
+            this.emit('ice-gathering-done', { timestamp: Date.now() });
+        });
+
+        this.webRtcEndpoint.on('IceComponentStateChange', (event: any) => {
+            this.logger.debug('ICE component state changed', {
+                streamId: event.streamId,
+                componentId: event.componentId,
+                state: event.state
+            });
+            this.emit('ice-component-state-changed', {
+                streamId: event.streamId,
+                componentId: event.componentId,
+                state: event.state
+            });
+        });
+    }
+
+    /**
+     * Set up inbound media flow event listener on the WebRTC endpoint
+     */
+    private setupMediaFlowListener(): void {
+        if (!this.webRtcEndpoint) return;
+
+        this.webRtcEndpoint.on('MediaFlowInStateChange', (event: any) => {
+            const flowing = event.state === 'FLOWING';
+            this.logger.debug('Inbound media flow changed', { mediaType: event.mediaType, state: event.state });
+            this.emit('media-flow-in', { mediaType: event.mediaType, flowing });
+        });
+    }
+
+    /**
+     * Set up connection state event listener on the WebRTC endpoint
+     * Kurento reports DISCONNECTED once the peer's media connection is gone
+     */
+    private setupConnectionStateListener(): void {
+        if (!this.webRtcEndpoint) return;
+
+        this.webRtcEndpoint.on('ConnectionStateChanged', (event: any) => {
+            this.logger.debug('Connection state changed', { oldState: event.oldState, newState: event.newState });
+            this.emit('connection-state-changed', { state: event.newState });
         });
     }
 
@@ -0,0 +1,151 @@
+import { DEFAULT_ADAPTIVE_BITRATE_OPTIONS } from '../../constants';
+import { AdaptiveBitrateOptions, NetworkQualityEvent } from '../../types';
+import { AdaptiveBitrateController } from '../AdaptiveBitrateController';
+import { createSilentLogger } from './helpers';
+
+/**
+ * Network quality measurement
+ */
+function measure(packetLoss: number, bandwidth: number = 5000): NetworkQualityEvent {
+    return {
+        sessionId: 'session',
+        bandwidth,
+        bitrate: bandwidth,
+        rtt: 0,
+        jitter: 0,
+        packetLoss,
+        qualityRating: 5,
+        timestamp: 0
+    };
+}
+
+const POOR = measure(10);
+const GOOD = measure(0);
+/** Between the upgrade and degrade loss thresholds */
+const FAIR = measure(3);
+
+/**
+ * Feed measurements and collect the decisions that were not null
+ */
+function feed(controller: AdaptiveBitrateController, event: NetworkQualityEvent, count: number) {
+    const decisions = [];
+    for (let i = 0; i < count; i++) {
+        const decision = controller.evaluate(event);
+        if (decision) {
+            decisions.push(decision);
+        }
+    }
+    return decisions;
+}
+
+describe('AdaptiveBitrateController', () => {
+    const logger = createSilentLogger();
+
+    // Steps: 500-1000, 350-700 and 245-500 kbps
+    function createController(options: AdaptiveBitrateOptions = {}): AdaptiveBitrateController {
+        return new AdaptiveBitrateController(
+            { ...DEFAULT_ADAPTIVE_BITRATE_OPTIONS, ...options },
+            { minBitrate: 500, maxBitrate: 1000 },
+            500,
+            logger
+        );
+    }
+
+    it('steps down after consecutive poor measurements', () => {
+        const controller = createController();
+
+        expect(controller.evaluate(POOR)).toBeNull();
+        expect(controller.evaluate(POOR)).toEqual({ minBitrate: 350, maxBitrate: 700, audioOnly: false });
+    });
+
+    it('counts a bandwidth below the current minimum as poor', () => {
+        const controller = createController();
+
+        expect(feed(controller, measure(0, 400), 2)).toEqual([
+            { minBitrate: 350, maxBitrate: 700, audioOnly: false }
+        ]);
+    });
+
+    it('keeps the bitrate when fair measurements interrupt poor ones', () => {
+        const controller = createController();
+
+        for (let i = 0; i < 5; i++) {
+            expect(controller.evaluate(POOR)).toBeNull();
+            expect(controller.evaluate(FAIR)).toBeNull();
+        }
+    });
+
+    it('steps up only after consecutive good measurements', () => {
+        const controller = createController();
+        feed(controller, POOR, 2);
+
+        expect(feed(controller, GOOD, 4)).toEqual([]);
+        expect(controller.evaluate(FAIR)).toBeNull();
+        expect(feed(controller, GOOD, 4)).toEqual([]);
+        expect(controller.evaluate(GOOD)).toEqual({ minBitrate: 500, maxBitrate: 1000, audioOnly: false });
+    });
+
+    it('steps up only once the bandwidth carries the next step', () => {
+        const controller = createController();
+        feed(controller, POOR, 2);
+
+        expect(feed(controller, measure(0, 450), 10)).toEqual([]);
+        expect(feed(controller, measure(0, 500), 5)).toEqual([
+            { minBitrate: 500, maxBitrate: 1000, audioOnly: false }
+        ]);
+    });
+
+    it('falls back to audio only when the lowest step stays poor', () => {
+        const controller = createController();
+
+        expect(feed(controller, POOR, 4)).toEqual([
+            { minBitrate: 350, maxBitrate: 700, audioOnly: false },
+            { minBitrate: 245, maxBitrate: 500, audioOnly: false }
+        ]);
+        expect(feed(controller, POOR, 2)).toEqual([]);
+        expect(controller.evaluate(POOR)).toEqual({ minBitrate: 245, maxBitrate: 500, audioOnly: true });
+        expect(controller.isAudioOnly()).toBe(true);
+        expect(feed(controller, POOR, 10)).toEqual([]);
+    });
+
+    it('recovers from audio only to the lowest step', () => {
+        const controller = createController();
+        feed(controller, POOR, 7);
+
+        expect(feed(controller, GOOD, 5)).toEqual([
+            { minBitrate: 245, maxBitrate: 500, audioOnly: false }
+        ]);
+        expect(controller.isAudioOnly()).toBe(false);
+    });
+
+    it('stays at the lowest step without the audio-only fallback', () => {
+        const controller = createController({ audioOnlyFallback: false });
+
+        expect(feed(controller, POOR, 20)).toHaveLength(2);
+        expect(controller.isAudioOnly()).toBe(false);
+    });
+
+    it('returns to the previous step on rollback', () => {
+        const controller = createController();
+        feed(controller, POOR, 7);
+        expect(controller.isAudioOnly()).toBe(true);
+
+        controller.rollback();
+
+        expect(controller.isAudioOnly()).toBe(false);
+        expect(feed(controller, POOR, 3)).toEqual([
+            { minBitrate: 245, maxBitrate: 500, audioOnly: true }
+        ]);
+    });
+
+    it('starts over from a new ceiling', () => {
+        const controller = createController();
+        feed(controller, POOR, 2);
+
+        controller.setCeiling({ minBitrate: 400, maxBitrate: 800 });
+
+        expect(feed(controller, POOR, 2)).toEqual([
+            { minBitrate: 280, maxBitrate: 560, audioOnly: false }
+        ]);
+    });
+});
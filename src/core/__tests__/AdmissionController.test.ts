@@ -0,0 +1,92 @@
+import { DEFAULT_ADMISSION_CONFIG } from '../../constants';
+import { AdmissionControlConfig } from '../../types';
+import { AdmissionController, AdmissionTicket } from '../AdmissionController';
+import { createSilentLogger } from './helpers';
+
+/**
+ * Ticket of a session with default usage
+ */
+function ticket(sessionId: string, usage: Partial<AdmissionTicket> = {}): AdmissionTicket {
+    return { sessionId, key: 'default', priority: 0, bitrate: 0, admittedAt: 0, ...usage };
+}
+
+describe('AdmissionController.evaluate', () => {
+    const logger = createSilentLogger();
+
+    function createController(config: AdmissionControlConfig, active: AdmissionTicket[]): AdmissionController {
+        const controller = new AdmissionController({ ...DEFAULT_ADMISSION_CONFIG, ...config }, logger);
+        active.forEach(activeTicket => controller.admit(activeTicket));
+        return controller;
+    }
+
+    it('admits a session within the limits without preempting', () => {
+        const controller = createController({ maxSessions: 2 }, [ticket('a')]);
+
+        expect(controller.evaluate(ticket('b'))).toEqual({ admitted: true, preempt: [] });
+    });
+
+    it('rejects a session over the limits when preemption is disabled', () => {
+        const controller = createController({ maxSessions: 1, allowPreemption: false }, [ticket('a')]);
+
+        const decision = controller.evaluate(ticket('b', { priority: 5 }));
+
+        expect(decision.admitted).toBe(false);
+        expect(decision.preempt).toEqual([]);
+        expect(decision.limit).toBe('max-sessions');
+    });
+
+    it('preempts the most recently admitted of the lowest-priority sessions', () => {
+        const older = ticket('older', { priority: 1, admittedAt: 1 });
+        const newer = ticket('newer', { priority: 1, admittedAt: 2 });
+        const important = ticket('important', { priority: 5, admittedAt: 3 });
+        const controller = createController({ maxSessions: 3 }, [older, newer, important]);
+
+        const decision = controller.evaluate(ticket('candidate', { priority: 3 }));
+
+        expect(decision).toEqual({ admitted: true, preempt: [newer] });
+    });
+
+    it('preempts lowest priority first until the bitrate budget fits', () => {
+        const low = ticket('low', { priority: 1, bitrate: 500 });
+        const medium = ticket('medium', { priority: 2, bitrate: 2000 });
+        const controller = createController({ maxTotalBitrate: 3000 }, [low, medium]);
+
+        const decision = controller.evaluate(ticket('candidate', { priority: 3, bitrate: 1500 }));
+
+        expect(decision).toEqual({ admitted: true, preempt: [low, medium] });
+    });
+
+    it('skips sessions of other keys for a per-key limit', () => {
+        const otherKey = ticket('other-key', { key: 'tenant-b', admittedAt: 2 });
+        const sameKey = ticket('same-key', { key: 'tenant-a', admittedAt: 1 });
+        const controller = createController({ keyLimits: { 'tenant-a': 1 } }, [otherKey, sameKey]);
+
+        const decision = controller.evaluate(ticket('candidate', { key: 'tenant-a', priority: 1 }));
+
+        expect(decision).toEqual({ admitted: true, preempt: [sameKey] });
+    });
+
+    it('rejects instead of preempting when preemption is not allowed for the request', () => {
+        const controller = createController({ maxSessions: 1 }, [ticket('low', { priority: 1 })]);
+
+        const decision = controller.evaluate(ticket('candidate', { priority: 3 }), false);
+
+        expect(decision.admitted).toBe(false);
+        expect(decision.preempt).toEqual([]);
+        expect(decision.limit).toBe('max-sessions');
+    });
+
+    it('preempts nothing if stopping every lower-priority session is not enough', () => {
+        const controller = createController({ maxSessions: 2 }, [
+            ticket('low', { priority: 1 }),
+            ticket('equal', { priority: 3 }),
+            ticket('high', { priority: 5 })
+        ]);
+
+        const decision = controller.evaluate(ticket('candidate', { priority: 3 }));
+
+        expect(decision.admitted).toBe(false);
+        expect(decision.preempt).toEqual([]);
+        expect(decision.limit).toBe('max-sessions');
+    });
+});
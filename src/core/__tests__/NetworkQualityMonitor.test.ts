@@ -0,0 +1,45 @@
+import { rateNetworkQuality } from '../NetworkQualityMonitor';
+
+describe('rateNetworkQuality', () => {
+    it.each([
+        [0, 5],
+        [0.9, 5],
+        [1, 4],
+        [2.9, 4],
+        [3, 3],
+        [5, 2],
+        [9.9, 2],
+        [10, 1],
+        [50, 1]
+    ])('rates %d%% packet loss %d', (packetLoss, rating) => {
+        expect(rateNetworkQuality({ packetLoss, timestamp: 0 })).toBe(rating);
+    });
+
+    it.each([
+        [19, 5],
+        [20, 4],
+        [40, 3],
+        [80, 2],
+        [150, 1]
+    ])('rates %d ms of jitter %d', (jitter, rating) => {
+        expect(rateNetworkQuality({ packetLoss: 0, jitter, timestamp: 0 })).toBe(rating);
+    });
+
+    it.each([
+        [149, 5],
+        [150, 4],
+        [300, 3],
+        [500, 2],
+        [1000, 1]
+    ])('rates %d ms of round-trip time %d', (rtt, rating) => {
+        expect(rateNetworkQuality({ packetLoss: 0, rtt, timestamp: 0 })).toBe(rating);
+    });
+
+    it('takes the worst of the ratings', () => {
+        expect(rateNetworkQuality({ packetLoss: 0.5, jitter: 45, rtt: 200, timestamp: 0 })).toBe(3);
+    });
+
+    it('rates a measurement without any values as excellent', () => {
+        expect(rateNetworkQuality({ timestamp: 0 })).toBe(5);
+    });
+});
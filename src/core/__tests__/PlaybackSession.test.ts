@@ -0,0 +1,97 @@
+import { PlaybackState } from '../../types';
+import { MediaPipeline } from '../MediaPipeline';
+import { PlaybackSession } from '../PlaybackSession';
+import { createSilentLogger } from './helpers';
+
+/**
+ * Kurento endpoint double that can raise its events
+ */
+function createFakeEndpoint(): any {
+    const handlers: Record<string, (event: any) => void> = {};
+
+    return {
+        on: jest.fn((event: string, handler: (event: any) => void) => {
+            handlers[event] = handler;
+        }),
+        raise: (event: string, data: any = {}) => handlers[event]?.(data),
+        processOffer: jest.fn().mockResolvedValue('v=0 answer'),
+        gatherCandidates: jest.fn().mockResolvedValue(undefined)
+    };
+}
+
+describe('PlaybackSession release of unreachable viewers', () => {
+    const logger = createSilentLogger();
+
+    async function connectPlayback(connectTimeoutMs: number) {
+        const webRtcEndpoint = createFakeEndpoint();
+        const pipeline = {
+            createPlayerEndpoint: jest.fn().mockResolvedValue(createFakeEndpoint()),
+            createWebRtcEndpoint: jest.fn().mockResolvedValue(webRtcEndpoint),
+            connect: jest.fn().mockResolvedValue(undefined),
+            release: jest.fn().mockResolvedValue(undefined)
+        };
+        const playback = new PlaybackSession(
+            'playback',
+            'file:///tmp/recording.webm',
+            pipeline as unknown as MediaPipeline,
+            connectTimeoutMs,
+            logger
+        );
+        const released = jest.fn();
+        playback.on('released', released);
+
+        await playback.connect('v=0 offer');
+
+        return { playback, pipeline, webRtcEndpoint, released };
+    }
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('releases the playback when an ICE component fails', async () => {
+        const { playback, pipeline, webRtcEndpoint, released } = await connectPlayback(0);
+
+        webRtcEndpoint.raise('IceComponentStateChange', { streamId: 1, componentId: 1, state: 'FAILED' });
+        await Promise.resolve();
+
+        expect(pipeline.release).toHaveBeenCalledTimes(1);
+        expect(playback.getState()).toBe(PlaybackState.RELEASED);
+        expect(released).toHaveBeenCalledWith(expect.objectContaining({ reason: 'ice-failed' }));
+    });
+
+    it('releases the playback when the viewer does not connect in time', async () => {
+        jest.useFakeTimers();
+        const { pipeline, released } = await connectPlayback(5000);
+
+        jest.advanceTimersByTime(4999);
+        expect(pipeline.release).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(1);
+        await Promise.resolve();
+
+        expect(pipeline.release).toHaveBeenCalledTimes(1);
+        expect(released).toHaveBeenCalledWith(expect.objectContaining({ reason: 'connect-timeout' }));
+    });
+
+    it('keeps a playback whose viewer connected', async () => {
+        jest.useFakeTimers();
+        const { playback, pipeline, webRtcEndpoint } = await connectPlayback(5000);
+
+        webRtcEndpoint.raise('ConnectionStateChanged', { oldState: 'DISCONNECTED', newState: 'CONNECTED' });
+        jest.advanceTimersByTime(10000);
+
+        expect(pipeline.release).not.toHaveBeenCalled();
+        expect(playback.getState()).toBe(PlaybackState.READY);
+    });
+
+    it('releases the playback when the viewer disconnects', async () => {
+        const { pipeline, webRtcEndpoint, released } = await connectPlayback(0);
+
+        webRtcEndpoint.raise('ConnectionStateChanged', { oldState: 'CONNECTED', newState: 'DISCONNECTED' });
+        await Promise.resolve();
+
+        expect(pipeline.release).toHaveBeenCalledTimes(1);
+        expect(released).toHaveBeenCalledWith(expect.objectContaining({ reason: 'disconnected' }));
+    });
+});
@@ -0,0 +1,278 @@
+import { ConfigManager } from '../../utils';
+import { PauseType, RecordingMode, RecordingState, SessionJournalEntry } from '../../types';
+import { AdaptiveBitrateController } from '../AdaptiveBitrateController';
+import { MediaPipeline } from '../MediaPipeline';
+import { RecordingSession } from '../RecordingSession';
+import { createSilentLogger } from './helpers';
+
+/**
+ * Kurento element double recording its connect and disconnect calls
+ */
+function createFakeElement(id: string): any {
+    return {
+        id,
+        on: jest.fn(),
+        connect: jest.fn().mockResolvedValue(undefined),
+        disconnect: jest.fn().mockResolvedValue(undefined),
+        processOffer: jest.fn().mockResolvedValue('v=0 answer'),
+        gatherCandidates: jest.fn().mockResolvedValue(undefined),
+        setMinVideoSendBandwidth: jest.fn().mockResolvedValue(undefined),
+        setMaxVideoSendBandwidth: jest.fn().mockResolvedValue(undefined),
+        record: jest.fn().mockResolvedValue(undefined),
+        stop: jest.fn().mockResolvedValue(undefined),
+        getState: jest.fn().mockResolvedValue('START'),
+        release: jest.fn().mockResolvedValue(undefined)
+    };
+}
+
+/**
+ * MediaPipeline double handing out fake elements
+ */
+function createFakePipeline(): { pipeline: MediaPipeline, elements: Record<string, any> } {
+    const elements: Record<string, any> = {};
+    const create = jest.fn(async (_options: any, id: string) => {
+        elements[id] = createFakeElement(id);
+        return elements[id];
+    });
+
+    const pipeline = {
+        createWebRtcEndpoint: create,
+        createRecorderEndpoint: create,
+        connect: jest.fn(async (source: any, sink: any, type?: 'AUDIO' | 'VIDEO') => {
+            await source.connect(sink, type);
+        }),
+        getMediaObject: jest.fn(async (kurentoId: string, id: string) => {
+            elements[id] = createFakeElement(kurentoId);
+            return elements[id];
+        }),
+        attachSlate: jest.fn(async (ids: any, id: string) => {
+            elements[id] = createFakeElement(ids.inputId);
+            return { input: elements[id], output: elements[id] };
+        }),
+        createSlate: jest.fn(async (_options: any, id: string) => {
+            elements[id] = createFakeElement(id);
+            return { input: elements[id], output: elements[id] };
+        }),
+        getSlateIds: jest.fn((id: string) => elements[id] ? { inputId: elements[id].id } : undefined),
+        releaseSlate: jest.fn().mockResolvedValue(undefined),
+        getId: jest.fn().mockReturnValue('pipeline-id')
+    };
+
+    return { pipeline: pipeline as unknown as MediaPipeline, elements };
+}
+
+describe('RecordingSession audio pause', () => {
+    const logger = createSilentLogger();
+    const configManager = new ConfigManager(logger);
+
+    async function createRecordingSession(recordingMode: RecordingMode) {
+        const { pipeline, elements } = createFakePipeline();
+        const options = configManager.validateSessionOptions(
+            { recordingMode, statsIntervalMs: 0 },
+            '/tmp'
+        );
+        const session = new RecordingSession(options, pipeline, logger);
+
+        await session.initialize();
+        await session.processOffer('v=0 offer');
+        await session.start();
+
+        elements.webrtc.connect.mockClear();
+        elements.webrtc.disconnect.mockClear();
+
+        return { session, elements };
+    }
+
+    it('disconnects only the audio going to the recorder', async () => {
+        const { session, elements } = await createRecordingSession(RecordingMode.AUDIO_VIDEO);
+
+        await session.pause(PauseType.AUDIO_ONLY);
+
+        expect(elements.webrtc.disconnect).toHaveBeenCalledTimes(1);
+        expect(elements.webrtc.disconnect).toHaveBeenCalledWith(elements.recorder, 'AUDIO');
+        expect(elements.webrtc.connect).not.toHaveBeenCalled();
+        expect(session.getState()).toBe(RecordingState.RECORDING);
+        expect(session.getPausedMedia()).toEqual({ audio: true, video: false });
+    });
+
+    it('reconnects the audio on resume', async () => {
+        const { session, elements } = await createRecordingSession(RecordingMode.AUDIO_VIDEO);
+
+        await session.pause(PauseType.AUDIO_ONLY);
+        await session.resume(PauseType.AUDIO_ONLY);
+
+        expect(elements.webrtc.connect).toHaveBeenCalledTimes(1);
+        expect(elements.webrtc.connect).toHaveBeenCalledWith(elements.recorder, 'AUDIO');
+        expect(elements.webrtc.disconnect).not.toHaveBeenCalledWith(expect.anything(), 'VIDEO');
+        expect(session.getPausedMedia()).toEqual({ audio: false, video: false });
+    });
+
+    it('disconnects the audio from the audio recorder of a split recording', async () => {
+        const { session, elements } = await createRecordingSession(RecordingMode.SPLIT_AUDIO_VIDEO);
+
+        await session.pause(PauseType.AUDIO_ONLY);
+
+        expect(elements.webrtc.disconnect).toHaveBeenCalledTimes(1);
+        expect(elements.webrtc.disconnect).toHaveBeenCalledWith(elements['recorder:audio'], 'AUDIO');
+    });
+});
+
+describe('RecordingSession state changes', () => {
+    const logger = createSilentLogger();
+    const configManager = new ConfigManager(logger);
+
+    it('emits the previous state, the new state and the reason', async () => {
+        const { pipeline } = createFakePipeline();
+        const options = configManager.validateSessionOptions({ statsIntervalMs: 0 }, '/tmp');
+        const session = new RecordingSession(options, pipeline, logger);
+        const stateChange = jest.fn();
+        session.on('state-change', stateChange);
+
+        await session.initialize();
+        await session.processOffer('v=0 offer');
+        await session.start();
+
+        expect(stateChange.mock.calls.map(([event]) => [event.from, event.to])).toEqual([
+            [RecordingState.CREATED, RecordingState.READY],
+            [RecordingState.READY, RecordingState.STARTING],
+            [RecordingState.STARTING, RecordingState.RECORDING]
+        ]);
+        expect(stateChange).toHaveBeenLastCalledWith(expect.objectContaining({
+            reason: expect.any(String),
+            timestamp: expect.any(Number)
+        }));
+    });
+});
+
+describe('RecordingSession adaptive quality', () => {
+    const logger = createSilentLogger();
+    const configManager = new ConfigManager(logger);
+    const measurement = {
+        sessionId: 'session',
+        bandwidth: 100,
+        bitrate: 100,
+        rtt: 0,
+        jitter: 0,
+        packetLoss: 20,
+        qualityRating: 1,
+        timestamp: 0
+    };
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    async function createAdaptiveSession() {
+        const { pipeline, elements } = createFakePipeline();
+        const options = configManager.validateSessionOptions(
+            { statsIntervalMs: 60000, adaptiveBitrate: {} },
+            '/tmp'
+        );
+        const session = new RecordingSession(options, pipeline, logger);
+        const qualityChanged = jest.fn();
+        session.on('quality-changed', qualityChanged);
+
+        await session.initialize();
+        await session.processOffer('v=0 offer');
+        await session.start();
+
+        // Measurements are emitted by the test instead of polled from the endpoint
+        (session as any).qualityMonitor.stop();
+        const measure = async () => {
+            (session as any).qualityMonitor.emit('network-quality', measurement);
+            await new Promise(resolve => setImmediate(resolve));
+        };
+
+        jest.spyOn(AdaptiveBitrateController.prototype, 'evaluate')
+            .mockReturnValue({ minBitrate: 100, maxBitrate: 200, audioOnly: true });
+        const rollback = jest.spyOn(AdaptiveBitrateController.prototype, 'rollback');
+
+        return { session, pipeline, elements, qualityChanged, rollback, measure };
+    }
+
+    it('falls back to audio only by inserting the slate', async () => {
+        const { elements, qualityChanged, rollback, measure } = await createAdaptiveSession();
+
+        await measure();
+
+        expect(elements['blank-screen'].connect).toHaveBeenCalledWith(elements.recorder, 'VIDEO');
+        expect(qualityChanged).toHaveBeenCalledWith(expect.objectContaining({ audioOnly: true }));
+        expect(rollback).not.toHaveBeenCalled();
+    });
+
+    it('rolls the controller back when the slate cannot be inserted', async () => {
+        const { pipeline, qualityChanged, rollback, measure } = await createAdaptiveSession();
+        (pipeline.createSlate as jest.Mock).mockRejectedValueOnce(new Error('slate failed'));
+
+        await measure();
+
+        expect(rollback).toHaveBeenCalledTimes(1);
+        expect(qualityChanged).not.toHaveBeenCalled();
+
+        // The fallback was not recorded as applied, so the next decision tries again
+        await measure();
+
+        expect(pipeline.createSlate).toHaveBeenCalledTimes(2);
+        expect(qualityChanged).toHaveBeenCalledWith(expect.objectContaining({ audioOnly: true }));
+    });
+});
+
+describe('RecordingSession restore', () => {
+    const logger = createSilentLogger();
+    const configManager = new ConfigManager(logger);
+
+    it('removes the slate of a session restored while paused', async () => {
+        const { pipeline, elements } = createFakePipeline();
+        const options = configManager.validateSessionOptions({ statsIntervalMs: 0 }, '/tmp');
+        const now = Date.now();
+        const entry: SessionJournalEntry = {
+            sessionId: options.sessionId,
+            options,
+            state: RecordingState.PAUSED,
+            webRtcEndpointId: 'webrtc-id',
+            recorderEndpointId: 'recorder-id',
+            slateElementIds: { inputId: 'slate-id' },
+            startTime: now - 2000,
+            pauseStartTime: now - 1000,
+            totalPausedTime: 0,
+            pauseType: PauseType.BOTH,
+            createdAt: now - 2000,
+            updatedAt: now - 1000,
+            transitions: []
+        };
+        const session = new RecordingSession(options, pipeline, logger);
+
+        await session.initialize();
+        await session.restore(entry);
+        expect(session.getSnapshot().slateElementIds).toEqual({ inputId: 'slate-id' });
+
+        await session.resume();
+
+        const slate = elements['blank-screen'];
+        expect(slate.disconnect).toHaveBeenCalledWith(elements.recorder, 'VIDEO');
+        expect(elements.webrtc.connect).toHaveBeenCalledWith(elements.recorder, 'VIDEO');
+        expect(pipeline.releaseSlate).toHaveBeenCalledWith('blank-screen');
+        expect(session.getState()).toBe(RecordingState.RECORDING);
+    });
+});
+
+describe('RecordingSession markLost', () => {
+    const logger = createSilentLogger();
+    const configManager = new ConfigManager(logger);
+
+    it('finalizes a session that already failed', async () => {
+        const { pipeline } = createFakePipeline();
+        const options = configManager.validateSessionOptions({ statsIntervalMs: 0 }, '/tmp');
+        const session = new RecordingSession(options, pipeline, logger);
+        (pipeline.createWebRtcEndpoint as jest.Mock).mockRejectedValueOnce(new Error('endpoint failed'));
+
+        await session.initialize();
+        await expect(session.processOffer('v=0 offer')).rejects.toThrow();
+        expect(session.getState()).toBe(RecordingState.ERROR);
+
+        const result = await session.markLost(new Error('pipeline gone'));
+
+        expect(result.stopReason).toBe('lost');
+        expect(session.getState()).toBe(RecordingState.ERROR);
+    });
+});
@@ -0,0 +1,88 @@
+import { ConfigError } from '../../errors';
+import { TurnCredentialProvider } from '../TurnCredentialProvider';
+import { createSilentLogger } from './helpers';
+
+/** Fixed clock, 2023-11-14T22:13:20Z */
+const NOW = 1700000000000;
+
+const TURN_URLS = ['turn:203.0.113.10:3478?transport=udp'];
+
+describe('TurnCredentialProvider', () => {
+    const logger = createSilentLogger();
+
+    beforeEach(() => {
+        jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    function createProvider(secrets: { secret: string, validFrom?: number }[], ttlSeconds: number) {
+        return new TurnCredentialProvider(
+            { secrets: secrets.map(secret => ({ validFrom: 0, ...secret })), urls: TURN_URLS, ttlSeconds },
+            logger
+        );
+    }
+
+    // Expected credentials computed with `printf %s "$username" | openssl dgst -sha1 -hmac "$secret" -binary | base64`
+    it('signs the expiry and user ID with HMAC-SHA1', () => {
+        const provider = createProvider([{ secret: 'north-secret' }], 86400);
+
+        const credentials = provider.issue('alice');
+
+        expect(credentials.username).toBe('1700086400:alice');
+        expect(credentials.credential).toBe('Nni2GlD6PVaoCP0Cx2DhLKDWjyY=');
+    });
+
+    it('expires the credentials after the TTL', () => {
+        const provider = createProvider([{ secret: 'north-secret' }], 3600);
+
+        const credentials = provider.issue('session-1');
+
+        expect(credentials.username).toBe('1700003600:session-1');
+        expect(credentials.credential).toBe('zuqpvLSo4aJf3oI8tMjrWw6LfQQ=');
+        expect(credentials.expiresAt).toBe(NOW + 3600 * 1000);
+    });
+
+    it('hands out the configured URLs with the credentials', () => {
+        const provider = createProvider([{ secret: 'north-secret' }], 3600);
+
+        const credentials = provider.issue('session-1');
+
+        expect(credentials.iceServers).toEqual([{
+            urls: TURN_URLS,
+            username: credentials.username,
+            credential: credentials.credential
+        }]);
+    });
+
+    it('signs with a pending secret only from its validFrom time', () => {
+        const provider = createProvider([
+            { secret: 'north-secret' },
+            { secret: 'south-secret', validFrom: NOW + 1000 }
+        ], 3600);
+
+        expect(provider.issue('session-1').credential).toBe('zuqpvLSo4aJf3oI8tMjrWw6LfQQ=');
+
+        jest.spyOn(Date, 'now').mockReturnValue(NOW + 1000);
+        const credentials = provider.issue('session-1');
+
+        expect(credentials.username).toBe('1700003601:session-1');
+        expect(credentials.credential).toBe('j6jXf/u/oykryqVXbtImuT8vXnQ=');
+    });
+
+    it('signs with a rotated secret right away', () => {
+        const provider = createProvider([{ secret: 'north-secret' }], 3600);
+
+        provider.rotateSecret('south-secret');
+
+        expect(provider.issue('session-1').credential).toBe('Tizs9e0Phy11EY3bRVMa72TgWI4=');
+    });
+
+    it('throws if no secret is valid yet', () => {
+        const provider = createProvider([{ secret: 'north-secret', validFrom: NOW + 1000 }], 3600);
+
+        expect(() => provider.issue('session-1')).toThrow(ConfigError);
+    });
+});
@@ -0,0 +1,12 @@
+import { Logger } from '../../utils';
+
+/**
+ * Logger that drops every message, keeping the test output readable
+ */
+export function createSilentLogger(): Logger {
+    const noop = () => undefined;
+
+    return new Logger({
+        externalLogger: { error: noop, warn: noop, info: noop, debug: noop, trace: noop }
+    });
+}
@@ -4,9 +4,19 @@
 
 export { RecordingManager } from './RecordingManager';
 export { RecordingSession } from './RecordingSession';
+export { RoomRecording } from './RoomRecording';
+export { PipSession } from './PipSession';
+export { PlaybackSession } from './PlaybackSession';
 export { MediaPipeline } from './MediaPipeline';
 export { WebRTCHandler } from './WebRTCHandler';
+export { PlayerHandler } from './PlayerHandler';
 export { EndpointManager } from './EndpointManager';
+export { ViewerManager } from './ViewerManager';
+export { NetworkQualityMonitor, rateNetworkQuality } from './NetworkQualityMonitor';
+export { AdaptiveBitrateController } from './AdaptiveBitrateController';
+export { RECORDING_STATE_TRANSITIONS, canTransition } from './SessionStateMachine';
+export { AdmissionController } from './AdmissionController';
+export { TurnCredentialProvider } from './TurnCredentialProvider';
 
 // Add a placeholder for KurentoConnector until the file is properly implemented
 // This will be properly exported once KurentoConnector is fully implemented
@@ -5,14 +5,46 @@
  */
 
 // Export core classes (main API for consumers)
-export { RecordingManager } from './core/RecordingManager';
+export { RecordingManager, SessionRecoveryReport } from './core/RecordingManager';
 export { RecordingSession, RecordingSessionEvents } from './core/RecordingSession';
+export { RoomRecording, RoomRecordingEvents } from './core/RoomRecording';
+export { PipSession, PipSessionEvents } from './core/PipSession';
+export { PlaybackSession, PlaybackSessionEvents, PlaybackConnection } from './core/PlaybackSession';
+export { RECORDING_STATE_TRANSITIONS, canTransition } from './core/SessionStateMachine';
+export { AdmissionTicket, AdmissionLimit, AdmissionDecision } from './core/AdmissionController';
 
 // Export types and enums
 export {
     RecordingManagerConfig,
     RecordingSessionOptions,
+    RoomRecordingOptions,
+    RoomParticipantEvent,
+    RoomLayoutEvent,
+    RoomTrack,
+    RoomManifest,
+    PipSessionOptions,
+    PipSource,
+    PipBorderOptions,
+    PipSourceEvent,
+    PipLayoutEvent,
+    ViewerConnection,
+    ViewerEvent,
+    SourceType,
+    SourceOptions,
+    SourceEvent,
+    PlaybackOptions,
+    PlaybackState,
+    PlaybackEvent,
+    PlaybackReleaseReason,
     RecordingResult,
+    RecordingStopReason,
+    RecordingSegment,
+    RecordingOutput,
+    OutputOptions,
+    SegmentationOptions,
+    AdaptiveBitrateOptions,
+    RecordingLimit,
+    RecordingLimitEvent,
     RecordingQuality,
     RecordingMode,
     MediaProfile,
@@ -20,10 +52,37 @@ export {
     LogLevel,
     ILogger,
     PauseType,
+    PauseMode,
+    PauseSlateOptions,
+    OverlayOptions,
+    OverlayPosition,
+    FilterSpec,
     RecordingState,
+    StateTransitionEvent,
+    SessionTimeoutEvent,
+    SessionTimeoutReason,
+    SessionTimeoutConfig,
     // WebRTC types
     SdpData,
-    IceCandidate
+    IceCandidate,
+    WebRTCStats,
+    NetworkQualityEvent,
+    NetworkQualityPeriod,
+    NetworkQualitySummary,
+    IceCandidateEvent,
+    IceGatheringDoneEvent,
+    IceComponentStateEvent,
+    IceComponentState,
+    WebRTCConfig,
+    TurnSecret,
+    TurnCredentialConfig,
+    TurnCredentials,
+    // Session journal types
+    SessionJournal,
+    SessionJournalEntry,
+    SessionJournalTransition,
+    // Admission control
+    AdmissionControlConfig
 } from './types';
 
 // Export error types
@@ -42,7 +101,18 @@ export { ErrorCode } from './constants/ErrorCodes';
 // Export internal classes for documentation
 export { ConfigManager } from './utils/ConfigManager';
 export { Logger } from './utils/Logger';
+export { FileSessionJournal } from './utils/SessionJournal';
 export { KurentoConnector } from './core/KurentoConnector';
 export { EndpointManager } from './core/EndpointManager';
+export { ViewerManager } from './core/ViewerManager';
+export { NetworkQualityMonitor, rateNetworkQuality } from './core/NetworkQualityMonitor';
+export {
+    AdaptiveBitrateController,
+    AdaptiveBitrateDecision,
+    BitrateRange
+} from './core/AdaptiveBitrateController';
 export { MediaPipeline } from './core/MediaPipeline';
-export { WebRTCHandler } from './core/WebRTCHandler';
\ No newline at end of file
+export { WebRTCHandler } from './core/WebRTCHandler';
+export { PlayerHandler } from './core/PlayerHandler';
+export { AdmissionController } from './core/AdmissionController';
+export { TurnCredentialProvider } from './core/TurnCredentialProvider';
\ No newline at end of file
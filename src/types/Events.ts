@@ -2,6 +2,10 @@
  * Event-related types for the Recording SDK
  */
 
+import { PipSource, ShareType } from './RecordingOptions';
+import { IceCandidate } from './WebRTCTypes';
+import { IceComponentState } from './KurentoTypes';
+
 /**
  * Recording event types
  */
@@ -17,6 +21,8 @@ export type RecordingEventType =
     | 'quality-changed'
     | 'error'
     | 'ice-candidate'
+    | 'ice-gathering-done'
+    | 'ice-component-state-changed'
     | 'network-quality';
 
 /**
@@ -27,24 +33,127 @@ export enum RecordingState {
     CREATED = 'created',
     /** Session ready to accept WebRTC offers */
     READY = 'ready',
+    /** Recorder is being started */
+    STARTING = 'starting',
     /** Recording in progress */
     RECORDING = 'recording',
     /** Recording paused */
     PAUSED = 'paused',
+    /** Recorder is being stopped */
+    STOPPING = 'stopping',
     /** Recording stopped */
     STOPPED = 'stopped',
     /** Error state */
-    ERROR = 'error'
+    ERROR = 'error',
+    /** All session resources released */
+    RELEASED = 'released'
+}
+
+/**
+ * Playback state
+ */
+export enum PlaybackState {
+    /** Connected to the viewer, not playing yet */
+    READY = 'ready',
+    /** Playing */
+    PLAYING = 'playing',
+    /** Paused */
+    PAUSED = 'paused',
+    /** The end of the recording was reached */
+    ENDED = 'ended',
+    /** All playback resources released */
+    RELEASED = 'released'
+}
+
+/**
+ * Why a playback was released
+ */
+export type PlaybackReleaseReason = 'user' | 'disconnected' | 'ice-failed' | 'connect-timeout';
+
+/**
+ * Playback started, paused, seeked, ended or was released
+ */
+export interface PlaybackEvent {
+    /** Playback identifier */
+    playbackId: string;
+    /** State after the event */
+    state: PlaybackState;
+    /** Position in milliseconds after a seek */
+    position?: number;
+    /** Why the playback was released */
+    reason?: PlaybackReleaseReason;
+    /** Timestamp of the event */
+    timestamp: number;
+}
+
+/**
+ * State transition event data
+ * Emitted for applied ('state-change') and rejected ('transition-rejected') transitions
+ */
+export interface StateTransitionEvent {
+    /** State before the transition */
+    from: RecordingState;
+    /** Target state of the transition */
+    to: RecordingState;
+    /** Operation that requested the transition */
+    reason: string;
+    /** Timestamp of the transition */
+    timestamp: number;
+}
+
+/**
+ * Reason a session timed out
+ */
+export type SessionTimeoutReason = 'no-offer' | 'no-media' | 'pause-too-long';
+
+/**
+ * Session timeout event data
+ */
+export interface SessionTimeoutEvent {
+    /** Which timeout fired */
+    reason: SessionTimeoutReason;
+    /** State the session was stuck in */
+    state: RecordingState;
+    /** Configured timeout in milliseconds */
+    timeoutMs: number;
+    /** Timestamp of the timeout */
+    timestamp: number;
+}
+
+/**
+ * Recording limit that can end a session
+ */
+export type RecordingLimit = 'max-duration' | 'max-file-size';
+
+/**
+ * Recording limit event data
+ * Emitted when a limit crosses the warning threshold ('limit-warning')
+ */
+export interface RecordingLimitEvent {
+    /** Limit being approached */
+    limit: RecordingLimit;
+    /** Current value (milliseconds or bytes) */
+    current: number;
+    /** Configured maximum (milliseconds or bytes) */
+    max: number;
+    /** Timestamp of the check */
+    timestamp: number;
 }
 
 /**
  * Network quality event data
  */
 export interface NetworkQualityEvent {
-    /** Current bandwidth estimation in kbps */
+    /** Session ID */
+    sessionId: string;
+    /** Current bandwidth estimation in kbps (REMB, or the received bitrate without one) */
     bandwidth: number;
-    /** Round-trip time in milliseconds */
+    /** Received bitrate in kbps */
+    bitrate: number;
+    /** Round-trip time in milliseconds, 0 if Kurento reported none */
     rtt: number;
+    /** Jitter in milliseconds */
+    jitter: number;
     /** Packet loss percentage (0-100) */
     packetLoss: number;
     /** Quality rating (1-5, where 5 is best) */
@@ -67,16 +176,143 @@ export interface QualityChangedEvent {
     qualityLevel?: number;
     /** Quality change reason */
     reason: 'network' | 'user' | 'auto';
+    /** Whether the slate replaces the recorded video because the network cannot carry it */
+    audioOnly?: boolean;
     /** Timestamp of change */
     timestamp: number;
 }
 
 /**
- * ICE candidate event
+ * ICE candidate found by a Kurento WebRTC endpoint, to be sent to the browser
  */
 export interface IceCandidateEvent {
     /** ICE candidate data */
-    candidate: RTCIceCandidate;
+    candidate: IceCandidate;
+    /** Session ID */
+    sessionId: string;
+    /** Viewer the candidate belongs to, unset for the session's own endpoint */
+    viewerId?: string;
+    /** Timestamp of the event */
+    timestamp: number;
+}
+
+/**
+ * A Kurento WebRTC endpoint finished gathering ICE candidates
+ */
+export interface IceGatheringDoneEvent {
     /** Session ID */
     sessionId: string;
-} 
\ No newline at end of file
+    /** Viewer the endpoint belongs to, unset for the session's own endpoint */
+    viewerId?: string;
+    /** Timestamp of the event */
+    timestamp: number;
+}
+
+/**
+ * ICE component of a Kurento WebRTC endpoint changed state
+ */
+export interface IceComponentStateEvent {
+    /** Session ID */
+    sessionId: string;
+    /** Viewer the endpoint belongs to, unset for the session's own endpoint */
+    viewerId?: string;
+    /** ICE stream identifier */
+    streamId: number;
+    /** ICE component identifier */
+    componentId: number;
+    /** New state of the component */
+    state: IceComponentState;
+    /** Timestamp of the event */
+    timestamp: number;
+}
+
+/**
+ * Player source of a session ended or failed
+ */
+export interface SourceEvent {
+    /** Session identifier */
+    sessionId: string;
+    /** URI played by the source */
+    uri: string;
+    /** Error reported by the source */
+    error?: Error;
+    /** Timestamp of the event */
+    timestamp: number;
+}
+
+/**
+ * Live viewer added to or removed from a session
+ */
+export interface ViewerEvent {
+    /** Session identifier */
+    sessionId: string;
+    /** Viewer identifier */
+    viewerId: string;
+    /** Number of viewers after the change */
+    viewerCount: number;
+    /** Timestamp of the event */
+    timestamp: number;
+}
+
+/**
+ * Participant joined or left a room
+ */
+export interface RoomParticipantEvent {
+    /** Room identifier */
+    roomId: string;
+    /** Participant identifier */
+    participantId: string;
+    /** Timestamp of the event */
+    timestamp: number;
+}
+
+/**
+ * Grid layout of a room's mixed recording
+ * Kurento's Composite arranges participants in join order, row by row
+ */
+export interface RoomLayoutEvent {
+    /** Room identifier */
+    roomId: string;
+    /** Participants in grid order */
+    participants: string[];
+    /** Number of grid columns */
+    columns: number;
+    /** Number of grid rows */
+    rows: number;
+    /** Timestamp of the change */
+    timestamp: number;
+}
+
+/**
+ * Source of a picture-in-picture session connected
+ */
+export interface PipSourceEvent {
+    /** Session identifier */
+    sessionId: string;
+    /** Source that connected */
+    source: PipSource;
+    /** Content of the source */
+    shareType: ShareType;
+    /** Whether the source sends audio */
+    hasAudio: boolean;
+    /** Timestamp of the event */
+    timestamp: number;
+}
+
+/**
+ * Layout of a picture-in-picture session
+ */
+export interface PipLayoutEvent {
+    /** Session identifier */
+    sessionId: string;
+    /** Source filling the frame */
+    main: PipSource;
+    /** Source drawn as the inset */
+    inset: PipSource;
+    /** Whether the inset is shown */
+    insetVisible: boolean;
+    /** Source the recorded audio is taken from, or null if neither sends audio */
+    audioSource: PipSource | null;
+    /** Timestamp of the change */
+    timestamp: number;
+}
@@ -0,0 +1,78 @@
+/**
+ * Session journal types for crash recovery
+ */
+
+import { RecordingSessionOptions, PauseType, RecordingSegment } from './RecordingOptions';
+import { RecordingState } from './Events';
+import { SlateElementIds } from './KurentoTypes';
+
+/**
+ * A single recorded state transition
+ */
+export interface SessionJournalTransition {
+    /** State the session moved into */
+    state: RecordingState;
+    /** Timestamp of the transition (milliseconds since epoch) */
+    timestamp: number;
+}
+
+/**
+ * Persisted snapshot of a recording session
+ */
+export interface SessionJournalEntry {
+    /** Session identifier */
+    sessionId: string;
+    /** Normalized session options */
+    options: Required<RecordingSessionOptions>;
+    /** Last known session state */
+    state: RecordingState;
+    /** Kurento media pipeline ID */
+    pipelineId?: string;
+    /** Kurento WebRTC endpoint ID */
+    webRtcEndpointId?: string;
+    /** Kurento player endpoint ID of a session recording a file or stream */
+    playerEndpointId?: string;
+    /** Kurento recorder endpoint ID */
+    recorderEndpointId?: string;
+    /** Kurento ID of the audio recorder of a split recording */
+    audioRecorderEndpointId?: string;
+    /** Kurento ID of the PassThrough feeding the recorders of additional outputs */
+    fanOutId?: string;
+    /** Kurento IDs of the recorders of additional outputs, in order */
+    outputRecorderEndpointIds?: string[];
+    /** Kurento image overlay ID */
+    overlayId?: string;
+    /** Kurento media filter IDs by filter ID */
+    filterIds?: Record<string, string>;
+    /** Kurento IDs of the pause slate while it replaces the video */
+    slateElementIds?: SlateElementIds;
+    /** Recording start timestamp (0 if not started) */
+    startTime: number;
+    /** Start timestamp of the current pause (0 if not paused) */
+    pauseStartTime: number;
+    /** Accumulated paused time in milliseconds */
+    totalPausedTime: number;
+    /** Type of the current pause */
+    pauseType: PauseType;
+    /** Output segments, the last one being recorded (end = 0) */
+    segments?: RecordingSegment[];
+    /** Session creation timestamp */
+    createdAt: number;
+    /** Last time the entry was written */
+    updatedAt: number;
+    /** State transition history */
+    transitions: SessionJournalTransition[];
+}
+
+/**
+ * Storage backend for session journal entries
+ * Implementations must make writes durable before resolving
+ */
+export interface SessionJournal {
+    /** Load all persisted entries */
+    load(): Promise<SessionJournalEntry[]>;
+    /** Persist (create or replace) an entry */
+    save(entry: SessionJournalEntry): Promise<void>;
+    /** Remove an entry */
+    remove(sessionId: string): Promise<void>;
+}
@@ -55,6 +55,18 @@ export interface WebRtcEndpointOptions {
     maxQP?: number;
 }
 
+/**
+ * STUN and TURN settings of a WebRTC endpoint
+ */
+export interface KurentoIceConfig {
+    /** IP address of the STUN server */
+    stunServerAddress?: string;
+    /** Port of the STUN server */
+    stunServerPort?: number;
+    /** TURN relay as user:password@address:port?transport=udp|tcp|tls */
+    turnUrl?: string;
+}
+
 /**
  * Recorder endpoint configuration options
  */
@@ -69,6 +81,90 @@ export interface RecorderEndpointOptions {
     quality?: number;
 }
 
+/**
+ * Player endpoint configuration options
+ */
+export interface PlayerEndpointOptions {
+    /** URI of the media to play (file://, http(s):// or rtsp://) */
+    uri: string;
+    /** Whether to pass the encoded media through without decoding it */
+    useEncodedMedia?: boolean;
+    /** Milliseconds of a network stream buffered before playing */
+    networkCache?: number;
+}
+
+/**
+ * Seek information of the media played by a Player endpoint
+ */
+export interface PlayerVideoInfo {
+    /** Whether the media supports seeking */
+    isSeekable: boolean;
+    /** First seekable position in milliseconds */
+    seekableInit: number;
+    /** Last seekable position in milliseconds */
+    seekableEnd: number;
+    /** Duration in milliseconds */
+    duration: number;
+}
+
+/**
+ * Options for the pause slate chain
+ */
+export interface SlateElementOptions {
+    /** Output width in pixels */
+    width: number;
+    /** Output height in pixels */
+    height: number;
+    /** Image URIs drawn over the blanked video, in order */
+    images: Array<{ uri: string; fit: 'fill' | 'contain' }>;
+    /** Text rendered in the middle of the slate */
+    text?: string;
+}
+
+/**
+ * Elements of a pause slate chain
+ * Video is fed into input and the slate is taken from output
+ */
+export interface SlateElements {
+    input: any;
+    output: any;
+}
+
+/**
+ * Kurento IDs of the elements of a pause slate chain
+ */
+export interface SlateElementIds {
+    /** ID of the element video is fed into */
+    inputId: string;
+    /** ID of the image overlay, if the slate has images */
+    imageId?: string;
+    /** ID of the text overlay, if the slate has text */
+    textId?: string;
+}
+
+/**
+ * Options for an image overlay element
+ * Geometry is in pixels of the expected video frame
+ */
+export interface OverlayElementOptions {
+    /** Image path on the Kurento server, or URL */
+    location: string;
+    /** Offset of the image from the left edge */
+    x: number;
+    /** Offset of the image from the top edge */
+    y: number;
+    /** Image width */
+    width: number;
+    /** Image height */
+    height: number;
+    /** Expected video width */
+    frameWidth: number;
+    /** Expected video height */
+    frameHeight: number;
+    /** Image opacity between 0 and 1 */
+    opacity: number;
+}
+
 /**
  * Pipeline creation options
  */
@@ -96,23 +192,70 @@ export interface MediaPipeline {
 }
 
 export interface WebRtcEndpoint {
+    id: string;
     processOffer(sdpOffer: string): Promise<string>;
     gatherCandidates(): Promise<void>;
     addIceCandidate(candidate: any): Promise<void>;
     connect(sink: any, type?: string): Promise<void>;
+    disconnect(sink: any, type?: string): Promise<void>;
     release(): Promise<void>;
     on(event: string, callback: Function): void;
     setMinVideoSendBandwidth(bandwidth: number): Promise<void>;
     setMaxVideoSendBandwidth(bandwidth: number): Promise<void>;
+    setStunServerAddress(address: string): Promise<void>;
+    setStunServerPort(port: number): Promise<void>;
+    setTurnUrl(url: string): Promise<void>;
+    /** RTC stats by ID, e.g. inboundrtp and outboundrtp stats of each SSRC */
+    getStats(mediaType?: 'AUDIO' | 'VIDEO'): Promise<Record<string, any>>;
 }
 
 export interface RecorderEndpoint {
+    id: string;
     record(): Promise<void>;
+    pause(): Promise<void>;
     stop(): Promise<void>;
     release(): Promise<void>;
     getState(): Promise<string>;
+    /** Minimum bitrate in bps of the video encoded when the recorder transcodes */
+    setMinEncoderBitrate(bitrate: number): Promise<void>;
+    /** Maximum bitrate in bps of the video encoded when the recorder transcodes */
+    setMaxEncoderBitrate(bitrate: number): Promise<void>;
 }
 
+export interface PlayerEndpoint {
+    id: string;
+    play(): Promise<void>;
+    pause(): Promise<void>;
+    stop(): Promise<void>;
+    /** Seek to a position in milliseconds */
+    setPosition(position: number): Promise<void>;
+    /** Current position in milliseconds */
+    getPosition(): Promise<number>;
+    getVideoInfo(): Promise<PlayerVideoInfo>;
+    connect(sink: any, type?: string): Promise<void>;
+    disconnect(sink: any, type?: string): Promise<void>;
+    release(): Promise<void>;
+    on(event: string, callback: Function): void;
+}
+
+export interface HubPort {
+    id: string;
+    connect(sink: any, type?: string): Promise<void>;
+    disconnect(sink: any, type?: string): Promise<void>;
+    release(): Promise<void>;
+}
+
+/**
+ * State of an ICE component of a Kurento WebRTC endpoint
+ */
+export type IceComponentState =
+    | 'DISCONNECTED'
+    | 'GATHERING'
+    | 'CONNECTING'
+    | 'CONNECTED'
+    | 'READY'
+    | 'FAILED';
+
 /**
  * ICE candidate from Kurento
  */
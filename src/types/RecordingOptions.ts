@@ -2,6 +2,9 @@
  * Recording SDK configuration and options types
  */
 
+import { SessionJournal } from './Journal';
+import { WebRTCConfig, TurnCredentialConfig, NetworkQualitySummary } from './WebRTCTypes';
+
 /**
  * Logging verbosity levels
  */
@@ -43,16 +46,19 @@ export enum ShareType {
     WINDOW = 'window',
     BROWSER = 'browser',
     APPLICATION = 'application',
+    CAMERA = 'camera',
     UNKNOWN = 'unknown'
 }
 
 /**
- * Recording mode (audio+video, audio-only, video-only)
+ * Recording mode (audio+video, audio-only, video-only, or audio and video in separate files)
  */
 export enum RecordingMode {
     AUDIO_VIDEO = 'audio-video',
     AUDIO_ONLY = 'audio-only',
-    VIDEO_ONLY = 'video-only'
+    VIDEO_ONLY = 'video-only',
+    /** Audio and video recorded into separate files, e.g. session.audio.webm and session.video.webm */
+    SPLIT_AUDIO_VIDEO = 'split-audio-video'
 }
 
 /**
@@ -67,6 +73,159 @@ export enum PauseType {
     AUDIO_ONLY = 'audio-only'
 }
 
+/**
+ * How a full pause is reflected in the recorded file
+ */
+export enum PauseMode {
+    /** Pause the recorder itself, paused time is cut from the file */
+    CUT = 'cut',
+    /** Keep recording and show a placeholder (slate) while paused */
+    SLATE = 'slate'
+}
+
+/**
+ * Kind of media source a session records
+ */
+export enum SourceType {
+    /** A browser publishing over WebRTC, negotiated with processOffer */
+    WEBRTC = 'webrtc',
+    /** A file or network stream played by Kurento */
+    PLAYER = 'player'
+}
+
+/**
+ * Media source of a recording session
+ */
+export interface SourceOptions {
+    /** Kind of source (default: WEBRTC) */
+    type: SourceType;
+    /** Media played by a PLAYER source: a file://, http(s):// or rtsp:// URI, or an absolute file path */
+    uri?: string;
+    /** Milliseconds of a network stream buffered before it is played (default: Kurento's, 2000) */
+    networkCache?: number;
+    /** Pass the source's encoded media through without decoding it, where the recording allows (default: false) */
+    useEncodedMedia?: boolean;
+}
+
+/**
+ * Where an overlay image is anchored in the video frame
+ */
+export enum OverlayPosition {
+    TOP_LEFT = 'top-left',
+    TOP_RIGHT = 'top-right',
+    BOTTOM_LEFT = 'bottom-left',
+    BOTTOM_RIGHT = 'bottom-right',
+    CENTER = 'center'
+}
+
+/**
+ * Admission control limits applied when creating sessions
+ * A limit of 0 means unlimited
+ */
+export interface AdmissionControlConfig {
+    /** Maximum number of concurrent sessions (default: 0) */
+    maxSessions?: number;
+    /** Maximum number of concurrent sessions per admission key (default: 0) */
+    maxSessionsPerKey?: number;
+    /** Per-key overrides of maxSessionsPerKey */
+    keyLimits?: Record<string, number>;
+    /** Total ingest bitrate budget in kbps, summed over each session's maxBitrate (default: 0) */
+    maxTotalBitrate?: number;
+    /** Whether higher-priority sessions may stop lower-priority ones to make room (default: true) */
+    allowPreemption?: boolean;
+}
+
+/**
+ * Per-state session timeouts in milliseconds
+ * A timeout of 0 disables it
+ */
+export interface SessionTimeoutConfig {
+    /** Maximum time in CREATED/READY without an SDP offer (default: 0) */
+    offerTimeoutMs?: number;
+    /** Maximum time in RECORDING without inbound media (default: 0) */
+    mediaTimeoutMs?: number;
+    /** Maximum time in PAUSED (default: 0) */
+    pauseTimeoutMs?: number;
+}
+
+/**
+ * Appearance of the slate shown while video is paused
+ * The slate is filled with blankScreenColor
+ */
+export interface PauseSlateOptions {
+    /** PNG/JPEG path or URL drawn centred on the slate */
+    imagePath?: string;
+    /** Text drawn in the middle of the slate, e.g. "Recording paused" (default: none) */
+    text?: string;
+}
+
+/**
+ * Logo or watermark burnt into the recorded video
+ * The overlay stays in place while the pause slate is shown
+ */
+export interface OverlayOptions {
+    /** PNG/JPEG path or URL; opacity below 1 requires a path readable by the Kurento server */
+    imagePath: string;
+    /** Corner or centre the image is anchored to (default: BOTTOM_RIGHT) */
+    position?: OverlayPosition;
+    /** Image width as a fraction of the video width (default: 0.15) */
+    scale?: number;
+    /** Image opacity between 0 and 1 (default: 1) */
+    opacity?: number;
+    /** Distance from the frame edges as a fraction of the video size (default: 0.02) */
+    margin?: number;
+}
+
+/**
+ * Media filter inserted between the WebRTC input and the recorder
+ * Filters of the same media type are chained in order
+ */
+export interface FilterSpec {
+    /** Identifier used to remove the filter from a live session (default: generated) */
+    id?: string;
+    /** Media type the filter processes */
+    mediaType: 'AUDIO' | 'VIDEO';
+    /** GStreamer pipeline description of a GStreamerFilter, e.g. "volume volume=2.0" */
+    command?: string;
+    /** Kurento element type (default: "GStreamerFilter") */
+    type?: string;
+    /** Constructor options of the element; command and filterType are added for GStreamerFilter */
+    options?: Record<string, any>;
+}
+
+/**
+ * Adaptive bitrate options
+ * The bitrate steps down from the session's minBitrate/maxBitrate to the minBitrate of
+ * its quality preset while the network is poor, and back up once it recovers
+ */
+export interface AdaptiveBitrateOptions {
+    /** Packet loss percentage at or above which a measurement counts as poor (default: 5) */
+    degradeLossPercent?: number;
+    /** Packet loss percentage at or below which a measurement counts as good (default: 1) */
+    upgradeLossPercent?: number;
+    /** Consecutive poor measurements before the bitrate steps down (default: 2) */
+    degradeAfter?: number;
+    /** Consecutive good measurements before the bitrate steps up (default: 5) */
+    upgradeAfter?: number;
+    /** Factor applied to the bitrates at each step down, between 0 and 1 (default: 0.7) */
+    stepFactor?: number;
+    /** Whether to record the slate instead of the video when the lowest bitrate is still poor (default: true) */
+    audioOnlyFallback?: boolean;
+    /** Consecutive poor measurements at the lowest bitrate before falling back to audio only (default: 3) */
+    audioOnlyAfter?: number;
+}
+
+/**
+ * Segmented recording options
+ * A threshold of 0 disables it; session.rotate() works regardless
+ */
+export interface SegmentationOptions {
+    /** Start a new segment after this many milliseconds (default: 0) */
+    segmentDurationMs?: number;
+    /** Start a new segment once the current file reaches this many bytes (default: 0) */
+    segmentSizeBytes?: number;
+}
+
 /**
  * RecordingManager configuration
  */
@@ -87,6 +246,18 @@ export interface RecordingManagerConfig {
     preservePipelinesOnDisconnect?: boolean;
     /** Maximum time in milliseconds to wait for reconnection before releasing pipelines (default: 30000) */
     maxReconnectionTimeMs?: number;
+    /** Session journal used to recover sessions after a restart, or false to disable (default: file journal in journalDir) */
+    journal?: SessionJournal | false;
+    /** Directory for the default file-backed session journal (default: tempDir/journal) */
+    journalDir?: string;
+    /** Session admission limits (default: unlimited) */
+    admission?: AdmissionControlConfig;
+    /** Default per-state timeouts of every session (default: disabled) */
+    sessionTimeouts?: SessionTimeoutConfig;
+    /** STUN/TURN servers of every Kurento WebRTC endpoint, given by IP address (default: none) */
+    webrtc?: WebRTCConfig;
+    /** Short-lived TURN credentials issued to clients (default: disabled) */
+    turnCredentials?: TurnCredentialConfig | null;
 }
 
 /**
@@ -117,7 +288,7 @@ export interface RecordingSessionOptions {
     maxBitrate?: number;
     /** Minimum bitrate in kbps (overrides quality preset) */
     minBitrate?: number;
-    /** Recording mode (audio+video, audio-only, video-only) */
+    /** Recording mode (audio+video, audio-only, video-only, split audio and video) */
     recordingMode?: RecordingMode;
     /** Whether to expect audio in the media stream */
     hasAudio?: boolean;
@@ -129,12 +300,233 @@ export interface RecordingSessionOptions {
     frameRate?: number;
     /** Type of content being shared */
     shareType?: ShareType;
+    /** Media source of the session (default: a WebRTC publisher) */
+    source?: SourceOptions;
+    /** STUN/TURN servers of the session's WebRTC endpoints (default: the manager's) */
+    webrtc?: WebRTCConfig;
     /** Custom recording file path (default: tempDir/sessionId.ext) */
     filePath?: string;
-    /** Whether to insert blank screen during paused periods (default: true) */
+    /** Whether to insert blank screen during paused periods (default: true), selects the default pauseMode */
     insertBlankScreenOnPause?: boolean;
+    /** How full pauses are recorded (default: SLATE if insertBlankScreenOnPause, otherwise CUT) */
+    pauseMode?: PauseMode;
     /** Color of the blank screen when paused (default: "black") */
     blankScreenColor?: string;
+    /** Image and text shown on the blank screen (default: colour only) */
+    pauseSlate?: PauseSlateOptions;
+    /** Image overlay burnt into the video (default: none) */
+    overlay?: OverlayOptions | null;
+    /** Media filters applied before recording, in order (default: none) */
+    filters?: FilterSpec[];
+    /** Additional copies recorded from the same input, e.g. an MP4 next to a WEBM master (default: none) */
+    outputs?: OutputOptions[];
+    /** Maximum number of live viewers, 0 for unlimited (default: 0) */
+    maxViewers?: number;
+    /** Interval in milliseconds at which WebRTC stats are collected, 0 to disable (default: 5000) */
+    statsIntervalMs?: number;
+    /** Adapt the bitrate to the measured network quality, `{}` for the defaults (default: disabled) */
+    adaptiveBitrate?: AdaptiveBitrateOptions | null;
+    /** Key used for per-key admission limits, e.g. a tenant ID (default: "default") */
+    admissionKey?: string;
+    /** Session priority, higher values may preempt lower ones (default: 0) */
+    priority?: number;
+    /** Per-state timeouts, merged over the manager's sessionTimeouts */
+    timeouts?: SessionTimeoutConfig;
+    /** Maximum recording duration in milliseconds, 0 for unlimited (default: 0) */
+    maxDurationMs?: number;
+    /** Maximum output file size in bytes, 0 for unlimited (default: 0) */
+    maxFileSizeBytes?: number;
+    /** Fraction of a limit at which a limit-warning event is emitted (default: 0.9) */
+    limitWarningThreshold?: number;
+    /** Whether paused time counts towards maxDurationMs (default: true) */
+    countPausedTimeTowardsLimit?: boolean;
+    /** Rotate the output into numbered segment files (default: disabled) */
+    segmentation?: SegmentationOptions;
+}
+
+/**
+ * Room recording options
+ * Participants are mixed into a single grid recording
+ */
+export interface RoomRecordingOptions {
+    /** Optional custom room ID (random UUID if not provided) */
+    roomId?: string;
+    /** Media container format of the mixed recording (default: WEBM) */
+    mediaProfile?: MediaProfile;
+    /** Quality preset applied to every participant */
+    quality?: RecordingQuality;
+    /** Maximum bitrate of each participant in kbps (overrides quality preset) */
+    maxBitrate?: number;
+    /** Minimum bitrate of each participant in kbps (overrides quality preset) */
+    minBitrate?: number;
+    /** Mixed recording file path (default: tempDir/room_roomId.ext) */
+    filePath?: string;
+    /** Maximum number of participants, 0 for unlimited (default: 0) */
+    maxParticipants?: number;
+    /** Also record every participant into its own file (default: false) */
+    isolatedTracks?: boolean;
+    /** Manifest of the isolated tracks (default: mixed file path with a .manifest.json extension) */
+    manifestPath?: string;
+}
+
+/**
+ * Source of a picture-in-picture session
+ */
+export type PipSource = 'primary' | 'secondary';
+
+/**
+ * Border drawn around the picture-in-picture inset
+ */
+export interface PipBorderOptions {
+    /** Border width in pixels of the inset source (default: 4) */
+    width?: number;
+    /** Border colour (default: "white") */
+    color?: 'black' | 'white' | 'green' | 'blue';
+}
+
+/**
+ * Picture-in-picture session options
+ * The primary source fills the frame and the secondary one is drawn as an inset
+ */
+export interface PipSessionOptions {
+    /** Optional custom session ID (random UUID if not provided) */
+    sessionId?: string;
+    /** Media container format (default: WEBM) */
+    mediaProfile?: MediaProfile;
+    /** Quality preset applied to both sources */
+    quality?: RecordingQuality;
+    /** Maximum bitrate of each source in kbps (overrides quality preset) */
+    maxBitrate?: number;
+    /** Minimum bitrate of each source in kbps (overrides quality preset) */
+    minBitrate?: number;
+    /** Custom recording file path (default: tempDir/pip_sessionId.ext) */
+    filePath?: string;
+    /** Content of the primary source (default: SCREEN) */
+    primaryShareType?: ShareType;
+    /** Content of the secondary source (default: CAMERA) */
+    secondaryShareType?: ShareType;
+    /** Corner the inset is drawn in (default: BOTTOM_RIGHT) */
+    corner?: OverlayPosition;
+    /** Inset size as a fraction of the frame (default: 0.25) */
+    insetSize?: number;
+    /** Distance of the inset from the frame edges as a fraction of the frame (default: 0.02) */
+    insetMargin?: number;
+    /** Border around the inset, or null for none (default: none) */
+    insetBorder?: PipBorderOptions | null;
+}
+
+/**
+ * Why a recording was stopped
+ */
+export type RecordingStopReason =
+    | 'user'
+    | 'max-duration'
+    | 'max-file-size'
+    | 'timeout'
+    | 'preempted'
+    | 'lost'
+    | 'end-of-stream';
+
+/**
+ * Playback options
+ */
+export interface PlaybackOptions {
+    /** Optional custom playback ID (random UUID if not provided) */
+    playbackId?: string;
+    /** Milliseconds the viewer has to connect before the playback is released, 0 to disable (default: 30000) */
+    connectTimeoutMs?: number;
+}
+
+/**
+ * An additional copy of a session recording
+ */
+export interface OutputOptions {
+    /** Media profile of the copy */
+    mediaProfile: MediaProfile;
+    /** File path of the copy (default: recording file path with the profile's extension) */
+    filePath?: string;
+    /** Quality preset of the copy's encoder when it transcodes (default: session quality) */
+    quality?: RecordingQuality;
+}
+
+/**
+ * A file written in parallel with others for the same part of a recording
+ */
+export interface RecordingOutput {
+    /** File path of the output */
+    path: string;
+    /** Format of the output */
+    mediaProfile: MediaProfile;
+    /** Media written to the output */
+    recordingMode: RecordingMode;
+    /** Quality preset of an additional copy */
+    quality?: RecordingQuality;
+    /** File size in bytes if available */
+    size?: number;
+}
+
+/**
+ * A single output file of a segmented recording
+ */
+export interface RecordingSegment {
+    /** Position of the segment in the recording (0-based) */
+    index: number;
+    /** File path of the segment */
+    path: string;
+    /** Duration in seconds */
+    duration: number;
+    /** File size in bytes if available */
+    size?: number;
+    /** Files of the segment when it is written to more than one file */
+    outputs?: RecordingOutput[];
+    /** Segment timestamps */
+    timestamp: {
+        /** Start timestamp (milliseconds since epoch) */
+        start: number;
+        /** End timestamp (milliseconds since epoch, 0 while recording) */
+        end: number;
+    };
+}
+
+/**
+ * Isolated recording of one room participant
+ */
+export interface RoomTrack {
+    /** Participant identifier */
+    participantId: string;
+    /** File path of the track */
+    path: string;
+    /** Milliseconds between the start of the mixed recording and the start of the track */
+    offset: number;
+    /** Track timestamps */
+    timestamp: {
+        /** Start timestamp (milliseconds since epoch) */
+        start: number;
+        /** End timestamp (milliseconds since epoch, 0 while recording) */
+        end: number;
+    };
+}
+
+/**
+ * Manifest of a room recorded with isolated tracks
+ * Tracks are listed in start order; a participant who rejoins gets a new track
+ */
+export interface RoomManifest {
+    /** Room identifier */
+    roomId: string;
+    /** File path of the mixed recording */
+    path: string;
+    /** Format of the mixed recording and the tracks */
+    mediaProfile: MediaProfile;
+    /** Mixed recording timestamps */
+    timestamp: {
+        /** Start timestamp (milliseconds since epoch) */
+        start: number;
+        /** End timestamp (milliseconds since epoch, 0 while recording) */
+        end: number;
+    };
+    /** Participant tracks */
+    tracks: RoomTrack[];
 }
 
 /**
@@ -151,6 +543,17 @@ export interface RecordingResult {
     mediaProfile: MediaProfile;
     /** Session identifier */
     sessionId: string;
+    /** Why the recording was stopped */
+    stopReason?: RecordingStopReason;
+    /** Output files in recording order (a single entry unless the recording was rotated) */
+    segments?: RecordingSegment[];
+    /**
+     * Files written in parallel when the recording is written to more than one file;
+     * path is then the base path the files are named after
+     */
+    outputs?: RecordingOutput[];
+    /** Network quality of the WebRTC ingest, when stats were collected */
+    networkQuality?: NetworkQualitySummary;
     /** Recording timestamps */
     timestamp: {
         /** Start timestamp (milliseconds since epoch) */
@@ -12,11 +12,21 @@ export interface SdpData {
     sdp: string;
 }
 
+/**
+ * Result of adding a live viewer to a session
+ */
+export interface ViewerConnection {
+    /** Viewer identifier */
+    viewerId: string;
+    /** SDP answer for the viewer */
+    sdpAnswer: SdpData;
+}
+
 /**
  * WebRTC configuration options
  */
 export interface WebRTCConfig {
-    /** ICE servers for NAT traversal */
+    /** ICE servers for NAT traversal, Kurento endpoints use the first STUN and the first TURN server */
     iceServers?: RTCIceServer[];
     /** ICE transport policy */
     iceTransportPolicy?: RTCIceTransportPolicy;
@@ -38,6 +48,12 @@ export interface WebRTCStats {
     packetLoss?: number;
     /** Available bandwidth estimation in kbps */
     availableBandwidth?: number;
+    /** Received bitrate in kbps since the previous measurement */
+    bitrate?: number;
+    /** Packets received */
+    packetsReceived?: number;
+    /** Packets lost */
+    packetsLost?: number;
     /** Bytes received */
     bytesReceived?: number;
     /** Bytes sent */
@@ -48,6 +64,42 @@ export interface WebRTCStats {
     mediaType?: 'audio' | 'video' | 'combined';
 }
 
+/**
+ * Stretch of consecutive poor network quality measurements
+ */
+export interface NetworkQualityPeriod {
+    /** Timestamp of the first measurement */
+    start: number;
+    /** Timestamp of the last measurement */
+    end: number;
+    /** Lowest quality rating in the period */
+    minQualityRating: number;
+    /** Average packet loss percentage in the period */
+    averagePacketLoss: number;
+}
+
+/**
+ * Network quality of a session over its lifetime
+ */
+export interface NetworkQualitySummary {
+    /** Number of measurements */
+    samples: number;
+    /** Average quality rating (1-5) */
+    averageQualityRating: number;
+    /** Lowest quality rating */
+    minQualityRating: number;
+    /** Average packet loss percentage */
+    averagePacketLoss: number;
+    /** Average received bitrate in kbps */
+    averageBitrate: number;
+    /** Average jitter in milliseconds */
+    averageJitter: number;
+    /** Average round-trip time in milliseconds, if Kurento reported one */
+    averageRtt?: number;
+    /** Periods of poor quality, worst first */
+    worstPeriods: NetworkQualityPeriod[];
+}
+
 /**
  * ICE candidate data
  */
@@ -62,6 +114,42 @@ export interface IceCandidate {
     usernameFragment?: string | null;
 }
 
+/**
+ * Shared secret of a TURN server using the TURN REST API (coturn `static-auth-secret`)
+ */
+export interface TurnSecret {
+    /** Shared secret */
+    secret: string;
+    /** Time in milliseconds since the epoch from which credentials are signed with the secret (default: immediately) */
+    validFrom?: number;
+}
+
+/**
+ * Issuing of short-lived TURN credentials for clients
+ */
+export interface TurnCredentialConfig {
+    /** Shared secrets, the newest one already valid signs the credentials */
+    secrets: TurnSecret[];
+    /** STUN/TURN URLs handed to clients (default: the URLs of the manager's `webrtc.iceServers`) */
+    urls?: string[];
+    /** Lifetime of issued credentials in seconds (default: 86400) */
+    ttlSeconds?: number;
+}
+
+/**
+ * Time-limited TURN credentials of a client
+ */
+export interface TurnCredentials {
+    /** TURN REST API username, `expiry:userId` */
+    username: string;
+    /** Base64 HMAC-SHA1 of the username */
+    credential: string;
+    /** Expiry time in milliseconds since the epoch */
+    expiresAt: number;
+    /** ICE servers ready to pass to RTCPeerConnection */
+    iceServers: RTCIceServer[];
+}
+
 /**
  * WebRTC connection state
  */
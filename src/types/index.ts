@@ -6,6 +6,7 @@ export * from './RecordingOptions';
 export * from './Events';
 export * from './KurentoTypes';
 export * from './WebRTCTypes';
+export * from './Journal';
 
 // Re-export logger interface
 export { ILogger } from '../utils/Logger'; 
\ No newline at end of file
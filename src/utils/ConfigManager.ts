@@ -10,18 +10,43 @@ import {
     MediaProfile,
     RecordingQuality,
     RecordingMode,
-    ShareType
+    ShareType,
+    SourceType,
+    SourceOptions,
+    PauseMode,
+    SessionTimeoutConfig,
+    OverlayOptions,
+    AdaptiveBitrateOptions,
+    OutputOptions,
+    RoomRecordingOptions,
+    PipSessionOptions,
+    WebRTCConfig,
+    TurnCredentialConfig
 } from '../types';
 import { ConfigError } from '../errors';
 import {
     DEFAULT_MANAGER_CONFIG,
+    DEFAULT_ADMISSION_CONFIG,
+    DEFAULT_SESSION_TIMEOUTS,
+    DEFAULT_TURN_CREDENTIAL_CONFIG,
     DEFAULT_SESSION_OPTIONS,
+    DEFAULT_OVERLAY_OPTIONS,
+    DEFAULT_ADAPTIVE_BITRATE_OPTIONS,
+    DEFAULT_PIP_OPTIONS,
+    DEFAULT_PIP_BORDER,
     DEFAULT_QUALITY_SETTINGS,
     MEDIA_PROFILE_EXTENSIONS,
     RECORDING_MODE_PROFILES,
     ErrorCode
 } from '../constants';
 import { Logger } from './Logger';
+import { FileSessionJournal } from './SessionJournal';
+import { parseColor, isUrl, toMediaUri } from './ImageUtils';
+import { normalizeFilterSpec } from './FilterUtils';
+import { getIceServerUrls, parseIceServerUrl, toKurentoIceConfig } from './IceUtils';
+
+/** URI schemes a PlayerEndpoint can open */
+const PLAYER_URI_PATTERN = /^(file|https?|rtsps?):\/\//i;
 
 /**
  * Configuration Manager class
@@ -65,24 +90,49 @@ export class ConfigManager {
             );
         }
 
+        const tempDir = config.tempDir ?? DEFAULT_MANAGER_CONFIG.tempDir;
+        const journalDir = config.journalDir ?? path.join(tempDir, DEFAULT_MANAGER_CONFIG.journalDirName);
+
         // Apply default values and normalize
         const normalized: Required<RecordingManagerConfig> = {
             kurentoUrl: config.kurentoUrl,
             reconnectAttempts: config.reconnectAttempts ?? DEFAULT_MANAGER_CONFIG.reconnectAttempts,
             reconnectInterval: config.reconnectInterval ?? DEFAULT_MANAGER_CONFIG.reconnectInterval,
             logLevel: config.logLevel ?? DEFAULT_MANAGER_CONFIG.logLevel,
-            tempDir: config.tempDir ?? DEFAULT_MANAGER_CONFIG.tempDir,
+            tempDir,
             logger: config.logger ?? undefined,
             preservePipelinesOnDisconnect: config.preservePipelinesOnDisconnect ?? DEFAULT_MANAGER_CONFIG.preservePipelinesOnDisconnect,
-            maxReconnectionTimeMs: config.maxReconnectionTimeMs ?? DEFAULT_MANAGER_CONFIG.maxReconnectionTimeMs
+            maxReconnectionTimeMs: config.maxReconnectionTimeMs ?? DEFAULT_MANAGER_CONFIG.maxReconnectionTimeMs,
+            journal: config.journal ?? new FileSessionJournal(journalDir, this.logger),
+            journalDir,
+            admission: {
+                ...DEFAULT_ADMISSION_CONFIG,
+                ...config.admission
+            },
+            sessionTimeouts: this.normalizeTimeouts(DEFAULT_SESSION_TIMEOUTS, config.sessionTimeouts),
+            webrtc: this.normalizeWebRtc({}, config.webrtc),
+            turnCredentials: null
         };
 
+        if (config.turnCredentials) {
+            normalized.turnCredentials = this.normalizeTurnCredentials(config.turnCredentials, normalized.webrtc);
+        }
+
         // Validate reconnect attempts
         if (normalized.reconnectAttempts < 0) {
             this.logger.warn('Negative reconnect attempts provided, setting to 0');
             normalized.reconnectAttempts = 0;
         }
 
+        // Validate admission limits
+        const admission = normalized.admission;
+        for (const key of ['maxSessions', 'maxSessionsPerKey', 'maxTotalBitrate'] as const) {
+            if ((admission[key] ?? 0) < 0) {
+                this.logger.warn(`Negative admission limit ${key} provided, treating as unlimited`);
+                admission[key] = 0;
+            }
+        }
+
         // Validate reconnect interval
         if (normalized.reconnectInterval < 100) {
             this.logger.warn('Reconnect interval too low, setting to 1000ms');
@@ -97,11 +147,15 @@ export class ConfigManager {
      * 
      * @param options User-provided session options
      * @param tempDir Base temporary directory from manager config
+     * @param defaultTimeouts Session timeouts from manager config
+     * @param defaultWebRtc WebRTC configuration from manager config
      * @returns Normalized session options
      */
     validateSessionOptions(
         options: RecordingSessionOptions,
-        tempDir: string
+        tempDir: string,
+        defaultTimeouts: SessionTimeoutConfig = DEFAULT_SESSION_TIMEOUTS,
+        defaultWebRtc: WebRTCConfig = {}
     ): Required<RecordingSessionOptions> {
         this.logger.debug('Validating session options', options);
 
@@ -135,6 +189,9 @@ export class ConfigManager {
         const quality = options.quality || DEFAULT_SESSION_OPTIONS.quality;
         const qualitySettings = DEFAULT_QUALITY_SETTINGS[quality];
 
+        const insertBlankScreenOnPause = options.insertBlankScreenOnPause ??
+            DEFAULT_SESSION_OPTIONS.insertBlankScreenOnPause;
+
         // Apply default values and normalize
         const normalized: Required<RecordingSessionOptions> = {
             sessionId,
@@ -149,9 +206,36 @@ export class ConfigManager {
             height: options.height ?? 1080,
             frameRate: options.frameRate ?? qualitySettings.frameRate,
             shareType: options.shareType ?? ShareType.UNKNOWN,
+            source: this.normalizeSource(options.source),
+            webrtc: this.normalizeWebRtc(defaultWebRtc, options.webrtc),
             filePath,
-            insertBlankScreenOnPause: options.insertBlankScreenOnPause ?? DEFAULT_SESSION_OPTIONS.insertBlankScreenOnPause,
-            blankScreenColor: options.blankScreenColor ?? DEFAULT_SESSION_OPTIONS.blankScreenColor
+            insertBlankScreenOnPause,
+            pauseMode: options.pauseMode ?? (insertBlankScreenOnPause ? PauseMode.SLATE : PauseMode.CUT),
+            blankScreenColor: options.blankScreenColor ?? DEFAULT_SESSION_OPTIONS.blankScreenColor,
+            pauseSlate: {
+                ...DEFAULT_SESSION_OPTIONS.pauseSlate,
+                ...options.pauseSlate
+            },
+            overlay: options.overlay ? this.normalizeOverlay(options.overlay) : DEFAULT_SESSION_OPTIONS.overlay,
+            filters: [],
+            outputs: [],
+            maxViewers: options.maxViewers ?? DEFAULT_SESSION_OPTIONS.maxViewers,
+            statsIntervalMs: options.statsIntervalMs ?? DEFAULT_SESSION_OPTIONS.statsIntervalMs,
+            adaptiveBitrate: options.adaptiveBitrate
+                ? this.normalizeAdaptiveBitrate(options.adaptiveBitrate)
+                : DEFAULT_SESSION_OPTIONS.adaptiveBitrate,
+            admissionKey: options.admissionKey ?? DEFAULT_SESSION_OPTIONS.admissionKey,
+            priority: options.priority ?? DEFAULT_SESSION_OPTIONS.priority,
+            timeouts: this.normalizeTimeouts(defaultTimeouts, options.timeouts),
+            maxDurationMs: options.maxDurationMs ?? DEFAULT_SESSION_OPTIONS.maxDurationMs,
+            maxFileSizeBytes: options.maxFileSizeBytes ?? DEFAULT_SESSION_OPTIONS.maxFileSizeBytes,
+            limitWarningThreshold: options.limitWarningThreshold ?? DEFAULT_SESSION_OPTIONS.limitWarningThreshold,
+            countPausedTimeTowardsLimit: options.countPausedTimeTowardsLimit ??
+                DEFAULT_SESSION_OPTIONS.countPausedTimeTowardsLimit,
+            segmentation: {
+                ...DEFAULT_SESSION_OPTIONS.segmentation,
+                ...options.segmentation
+            }
         };
 
         // Ensure audio-only recording has audio enabled
@@ -160,6 +244,12 @@ export class ConfigManager {
             normalized.hasAudio = true;
         }
 
+        // A split recording writes an audio file, so it needs audio as well
+        if (recordingMode === RecordingMode.SPLIT_AUDIO_VIDEO && !normalized.hasAudio) {
+            this.logger.warn('Split audio/video recording mode selected but hasAudio is false, enabling audio');
+            normalized.hasAudio = true;
+        }
+
         // Ensure video-only recording has valid dimensions
         if (recordingMode === RecordingMode.VIDEO_ONLY &&
             (normalized.width <= 0 || normalized.height <= 0)) {
@@ -170,6 +260,71 @@ export class ConfigManager {
             );
         }
 
+        // Assign filter IDs and reject filters the recording mode cannot apply
+        for (const filter of options.filters ?? []) {
+            normalized.filters.push(
+                normalizeFilterSpec(filter, recordingMode, normalized.filters.map(existing => existing.id!))
+            );
+        }
+
+        // Fail early on a blank screen colour the slate cannot render
+        parseColor(normalized.blankScreenColor);
+
+        // Ensure recording limits are reasonable
+        if (normalized.maxDurationMs < 0 || normalized.maxFileSizeBytes < 0) {
+            throw new ConfigError(
+                'Recording limits must not be negative',
+                ErrorCode.INVALID_PARAMETER,
+                { maxDurationMs: normalized.maxDurationMs, maxFileSizeBytes: normalized.maxFileSizeBytes }
+            );
+        }
+
+        const { segmentDurationMs = 0, segmentSizeBytes = 0 } = normalized.segmentation;
+        if (segmentDurationMs < 0 || segmentSizeBytes < 0) {
+            throw new ConfigError(
+                'Segmentation thresholds must not be negative',
+                ErrorCode.INVALID_PARAMETER,
+                normalized.segmentation
+            );
+        }
+
+        // Name the additional copies and reject copies that cannot be recorded with the session
+        normalized.outputs = this.normalizeOutputs(options.outputs ?? [], normalized);
+
+        if (normalized.maxViewers < 0) {
+            this.logger.warn('Negative viewer limit provided, treating as unlimited');
+            normalized.maxViewers = 0;
+        }
+
+        if (normalized.statsIntervalMs < 0) {
+            this.logger.warn('Negative stats interval provided, disabling stats collection');
+            normalized.statsIntervalMs = 0;
+        } else if (normalized.statsIntervalMs > 0 && normalized.statsIntervalMs < 1000) {
+            this.logger.warn('Stats interval too low, setting to 1000ms');
+            normalized.statsIntervalMs = 1000;
+        }
+
+        // The controller is driven by the stats collection and adapts the WebRTC video
+        if (normalized.adaptiveBitrate) {
+            if (normalized.statsIntervalMs === 0) {
+                throw new ConfigError(
+                    'Adaptive bitrate needs stats collection, statsIntervalMs must not be 0',
+                    ErrorCode.INVALID_PARAMETER,
+                    { adaptiveBitrate: normalized.adaptiveBitrate }
+                );
+            }
+
+            if (recordingMode === RecordingMode.AUDIO_ONLY || normalized.source.type === SourceType.PLAYER) {
+                this.logger.warn('Adaptive bitrate only applies to WebRTC video, disabling it');
+                normalized.adaptiveBitrate = null;
+            }
+        }
+
+        if (normalized.limitWarningThreshold <= 0 || normalized.limitWarningThreshold > 1) {
+            this.logger.warn('Limit warning threshold must be in (0, 1], setting to default');
+            normalized.limitWarningThreshold = DEFAULT_SESSION_OPTIONS.limitWarningThreshold;
+        }
+
         // Ensure bitrate values are reasonable
         if (normalized.minBitrate <= 0) {
             this.logger.warn('Minimum bitrate must be positive, setting to default');
@@ -191,6 +346,417 @@ export class ConfigManager {
         return normalized;
     }
 
+    /**
+     * Validate and normalize room recording options
+     * 
+     * @param options User-provided room options
+     * @param tempDir Base temporary directory from manager config
+     * @returns Normalized room options
+     */
+    validateRoomOptions(options: RoomRecordingOptions, tempDir: string): Required<RoomRecordingOptions> {
+        this.logger.debug('Validating room options', options);
+
+        const roomId = options.roomId || uuidv4();
+        const mediaProfile = options.mediaProfile || DEFAULT_SESSION_OPTIONS.mediaProfile;
+
+        // The mixed recording always has audio and video
+        this.validateMediaProfileForMode(mediaProfile, RecordingMode.AUDIO_VIDEO);
+
+        const quality = options.quality || DEFAULT_SESSION_OPTIONS.quality;
+        const qualitySettings = DEFAULT_QUALITY_SETTINGS[quality];
+
+        const filePath = options.filePath ??
+            path.join(tempDir, `room_${roomId}${MEDIA_PROFILE_EXTENSIONS[mediaProfile]}`);
+        const { dir, name } = path.parse(filePath);
+
+        const normalized: Required<RoomRecordingOptions> = {
+            roomId,
+            mediaProfile,
+            quality,
+            maxBitrate: options.maxBitrate ?? qualitySettings.maxBitrate,
+            minBitrate: options.minBitrate ?? qualitySettings.minBitrate,
+            filePath,
+            maxParticipants: options.maxParticipants ?? 0,
+            isolatedTracks: options.isolatedTracks ?? false,
+            manifestPath: options.manifestPath ?? path.join(dir, `${name}.manifest.json`)
+        };
+
+        if (normalized.maxParticipants < 0) {
+            this.logger.warn('Negative participant limit provided, treating as unlimited');
+            normalized.maxParticipants = 0;
+        }
+
+        if (normalized.minBitrate <= 0 || normalized.maxBitrate <= 0 ||
+            normalized.minBitrate > normalized.maxBitrate) {
+            this.logger.warn('Invalid participant bitrate range, using quality preset');
+            normalized.minBitrate = qualitySettings.minBitrate;
+            normalized.maxBitrate = qualitySettings.maxBitrate;
+        }
+
+        return normalized;
+    }
+
+    /**
+     * Validate and normalize picture-in-picture session options
+     * 
+     * @param options User-provided session options
+     * @param tempDir Base temporary directory from manager config
+     * @returns Normalized session options
+     * @throws ConfigError if the inset geometry is out of range
+     */
+    validatePipSessionOptions(options: PipSessionOptions, tempDir: string): Required<PipSessionOptions> {
+        this.logger.debug('Validating picture-in-picture session options', options);
+
+        const sessionId = options.sessionId || uuidv4();
+        const mediaProfile = options.mediaProfile || DEFAULT_SESSION_OPTIONS.mediaProfile;
+
+        // The composited recording always has video, audio depends on the sources
+        this.validateMediaProfileForMode(mediaProfile, RecordingMode.AUDIO_VIDEO);
+
+        const quality = options.quality || DEFAULT_SESSION_OPTIONS.quality;
+        const qualitySettings = DEFAULT_QUALITY_SETTINGS[quality];
+
+        const normalized: Required<PipSessionOptions> = {
+            sessionId,
+            mediaProfile,
+            quality,
+            maxBitrate: options.maxBitrate ?? qualitySettings.maxBitrate,
+            minBitrate: options.minBitrate ?? qualitySettings.minBitrate,
+            filePath: options.filePath ??
+                path.join(tempDir, `pip_${sessionId}${MEDIA_PROFILE_EXTENSIONS[mediaProfile]}`),
+            primaryShareType: options.primaryShareType ?? DEFAULT_PIP_OPTIONS.primaryShareType,
+            secondaryShareType: options.secondaryShareType ?? DEFAULT_PIP_OPTIONS.secondaryShareType,
+            corner: options.corner ?? DEFAULT_PIP_OPTIONS.corner,
+            insetSize: options.insetSize ?? DEFAULT_PIP_OPTIONS.insetSize,
+            insetMargin: options.insetMargin ?? DEFAULT_PIP_OPTIONS.insetMargin,
+            insetBorder: options.insetBorder ? { ...DEFAULT_PIP_BORDER, ...options.insetBorder } : null
+        };
+
+        if (normalized.insetSize <= 0 || normalized.insetSize >= 1 ||
+            normalized.insetMargin < 0 || normalized.insetSize + normalized.insetMargin > 1) {
+            throw new ConfigError(
+                'Inset size must be in (0, 1) and fit in the frame with its margin',
+                ErrorCode.INVALID_PARAMETER,
+                { insetSize: normalized.insetSize, insetMargin: normalized.insetMargin }
+            );
+        }
+
+        if (normalized.insetBorder && (normalized.insetBorder.width ?? 0) < 0) {
+            throw new ConfigError(
+                'Inset border width must not be negative',
+                ErrorCode.INVALID_PARAMETER,
+                normalized.insetBorder
+            );
+        }
+
+        if (normalized.minBitrate <= 0 || normalized.maxBitrate <= 0 ||
+            normalized.minBitrate > normalized.maxBitrate) {
+            this.logger.warn('Invalid source bitrate range, using quality preset');
+            normalized.minBitrate = qualitySettings.minBitrate;
+            normalized.maxBitrate = qualitySettings.maxBitrate;
+        }
+
+        return normalized;
+    }
+
+    /**
+     * Merge timeout overrides over defaults, disabling negative values
+     * 
+     * @param defaults Default timeouts
+     * @param overrides User-provided timeouts
+     * @returns Normalized timeouts
+     */
+    private normalizeTimeouts(
+        defaults: SessionTimeoutConfig,
+        overrides: SessionTimeoutConfig = {}
+    ): Required<SessionTimeoutConfig> {
+        const timeouts = { ...DEFAULT_SESSION_TIMEOUTS, ...defaults, ...overrides };
+
+        for (const key of ['offerTimeoutMs', 'mediaTimeoutMs', 'pauseTimeoutMs'] as const) {
+            if (timeouts[key] < 0) {
+                this.logger.warn(`Negative session timeout ${key} provided, disabling it`);
+                timeouts[key] = 0;
+            }
+        }
+
+        return timeouts;
+    }
+
+    /**
+     * Merge WebRTC configuration overrides and validate the ICE servers for Kurento
+     * The servers of the defaults were validated with the manager configuration
+     *
+     * @param defaults Configuration the overrides apply to
+     * @param overrides User-provided configuration
+     * @returns Merged configuration
+     * @throws ConfigError if an ICE server cannot be used by Kurento
+     */
+    private normalizeWebRtc(defaults: WebRTCConfig, overrides: WebRTCConfig = {}): WebRTCConfig {
+        const webrtc = { ...defaults, ...overrides };
+
+        if (overrides.iceServers === undefined) {
+            return webrtc;
+        }
+
+        if (!Array.isArray(overrides.iceServers)) {
+            throw new ConfigError(
+                'ICE servers must be an array',
+                ErrorCode.INVALID_PARAMETER,
+                { iceServers: overrides.iceServers }
+            );
+        }
+
+        const iceConfig = toKurentoIceConfig(webrtc);
+        const usedCount = (iceConfig.stunServerAddress ? 1 : 0) + (iceConfig.turnUrl ? 1 : 0);
+
+        if (getIceServerUrls(webrtc).length > usedCount) {
+            this.logger.warn('Kurento endpoints use one STUN and one TURN server, ignoring the other ICE servers');
+        }
+
+        return webrtc;
+    }
+
+    /**
+     * Apply TURN credential defaults and validate the secrets and URLs
+     *
+     * @param config User-provided TURN credential options
+     * @param webrtc Normalized WebRTC configuration of the manager
+     * @returns Normalized TURN credential options
+     * @throws ConfigError if there is no usable secret or TURN URL
+     */
+    private normalizeTurnCredentials(
+        config: TurnCredentialConfig,
+        webrtc: WebRTCConfig
+    ): Required<TurnCredentialConfig> {
+        const normalized = {
+            ...DEFAULT_TURN_CREDENTIAL_CONFIG,
+            ...config,
+            urls: config.urls ?? getIceServerUrls(webrtc)
+        };
+
+        if (!Array.isArray(normalized.secrets) || normalized.secrets.length === 0 ||
+            normalized.secrets.some(secret => typeof secret.secret !== 'string' || !secret.secret)) {
+            throw new ConfigError(
+                'TURN credentials need at least one non-empty shared secret',
+                ErrorCode.INVALID_PARAMETER
+            );
+        }
+
+        // Later secrets are for rotation, one has to sign the credentials right away
+        const now = Date.now();
+        if (!normalized.secrets.some(secret => (secret.validFrom ?? 0) <= now)) {
+            throw new ConfigError(
+                'TURN credentials need a shared secret that is already valid',
+                ErrorCode.INVALID_PARAMETER,
+                { validFrom: normalized.secrets.map(secret => secret.validFrom) }
+            );
+        }
+
+        if (!(normalized.ttlSeconds > 0)) {
+            throw new ConfigError(
+                'TURN credential lifetime must be positive',
+                ErrorCode.INVALID_PARAMETER,
+                { ttlSeconds: normalized.ttlSeconds }
+            );
+        }
+
+        // Clients may resolve host names, so only the URL syntax is checked
+        const schemes = normalized.urls.map(url => parseIceServerUrl(url).scheme);
+        if (!schemes.some(scheme => scheme === 'turn' || scheme === 'turns')) {
+            throw new ConfigError(
+                'TURN credentials need a turn: or turns: URL, in urls or in webrtc.iceServers',
+                ErrorCode.INVALID_PARAMETER,
+                { urls: normalized.urls }
+            );
+        }
+
+        return normalized;
+    }
+
+    /**
+     * Apply defaults to the additional outputs of a session and validate them
+     * A copy without a file path is named after the recording with its profile's extension
+     *
+     * @param outputs User-provided outputs
+     * @param session Normalized session options
+     * @returns Outputs with their file path and quality set
+     * @throws ConfigError if an output is invalid or the session cannot record copies
+     */
+    private normalizeOutputs(
+        outputs: OutputOptions[],
+        session: Required<RecordingSessionOptions>
+    ): Required<OutputOptions>[] {
+        if (outputs.length === 0) {
+            return [];
+        }
+
+        if (session.recordingMode === RecordingMode.SPLIT_AUDIO_VIDEO) {
+            throw new ConfigError(
+                'Additional outputs are not supported with split audio/video recording',
+                ErrorCode.INVALID_PARAMETER,
+                outputs
+            );
+        }
+
+        const { segmentDurationMs = 0, segmentSizeBytes = 0 } = session.segmentation;
+        if (segmentDurationMs > 0 || segmentSizeBytes > 0) {
+            throw new ConfigError(
+                'Additional outputs are not supported with segmented recording',
+                ErrorCode.INVALID_PARAMETER,
+                outputs
+            );
+        }
+
+        const { dir, name } = path.parse(session.filePath);
+        const filePaths = new Set([session.filePath]);
+
+        return outputs.map((output, index) => {
+            if (!Object.values(MediaProfile).includes(output.mediaProfile)) {
+                throw new ConfigError(
+                    `Invalid output media profile: ${output.mediaProfile}`,
+                    ErrorCode.INVALID_PARAMETER,
+                    output
+                );
+            }
+
+            this.validateMediaProfileForMode(output.mediaProfile, session.recordingMode);
+
+            const extension = MEDIA_PROFILE_EXTENSIONS[output.mediaProfile];
+            let filePath = output.filePath;
+            if (!filePath) {
+                filePath = path.join(dir, `${name}${extension}`);
+                if (filePaths.has(filePath)) {
+                    filePath = path.join(dir, `${name}_${index + 2}${extension}`);
+                }
+            }
+
+            if (filePaths.has(filePath)) {
+                throw new ConfigError(
+                    `Duplicate output file path: ${filePath}`,
+                    ErrorCode.INVALID_PARAMETER,
+                    output
+                );
+            }
+            filePaths.add(filePath);
+
+            return {
+                mediaProfile: output.mediaProfile,
+                filePath,
+                quality: output.quality ?? session.quality
+            };
+        });
+    }
+
+    /**
+     * Apply source defaults and validate the URI of a player source
+     *
+     * @param source User-provided source options
+     * @returns Normalized source options
+     * @throws ConfigError if a player source has no playable URI
+     */
+    private normalizeSource(source?: SourceOptions): SourceOptions {
+        const normalized = { ...DEFAULT_SESSION_OPTIONS.source, ...source };
+
+        if (normalized.type !== SourceType.PLAYER) {
+            return { type: normalized.type };
+        }
+
+        const uri = normalized.uri ? toMediaUri(normalized.uri) : '';
+        if (!PLAYER_URI_PATTERN.test(uri)) {
+            throw new ConfigError(
+                'Player source needs a file://, http(s):// or rtsp:// URI, or an absolute file path',
+                ErrorCode.INVALID_PARAMETER,
+                source
+            );
+        }
+
+        if (normalized.networkCache !== undefined && normalized.networkCache < 0) {
+            throw new ConfigError(
+                'Player network cache must not be negative',
+                ErrorCode.INVALID_PARAMETER,
+                source
+            );
+        }
+
+        return { ...normalized, uri };
+    }
+
+    /**
+     * Apply adaptive bitrate defaults and validate the thresholds
+     *
+     * @param options User-provided adaptive bitrate options
+     * @returns Normalized adaptive bitrate options
+     * @throws ConfigError if the thresholds leave no band between poor and good or a count is not positive
+     */
+    private normalizeAdaptiveBitrate(options: AdaptiveBitrateOptions): Required<AdaptiveBitrateOptions> {
+        const normalized = { ...DEFAULT_ADAPTIVE_BITRATE_OPTIONS, ...options };
+
+        if (!(normalized.upgradeLossPercent >= 0) ||
+            !(normalized.degradeLossPercent > normalized.upgradeLossPercent)) {
+            throw new ConfigError(
+                'Adaptive bitrate upgradeLossPercent must be at least 0 and below degradeLossPercent',
+                ErrorCode.INVALID_PARAMETER,
+                options
+            );
+        }
+
+        if (!(normalized.stepFactor > 0 && normalized.stepFactor < 1)) {
+            throw new ConfigError(
+                'Adaptive bitrate stepFactor must be in (0, 1)',
+                ErrorCode.INVALID_PARAMETER,
+                options
+            );
+        }
+
+        const counts = [normalized.degradeAfter, normalized.upgradeAfter, normalized.audioOnlyAfter];
+        if (!counts.every(count => Number.isInteger(count) && count > 0)) {
+            throw new ConfigError(
+                'Adaptive bitrate degradeAfter, upgradeAfter and audioOnlyAfter must be positive integers',
+                ErrorCode.INVALID_PARAMETER,
+                options
+            );
+        }
+
+        return normalized;
+    }
+
+    /**
+     * Apply overlay defaults and validate the overlay geometry
+     *
+     * @param overlay User-provided overlay options
+     * @returns Normalized overlay options
+     * @throws ConfigError if the image is missing or the geometry is out of range
+     */
+    private normalizeOverlay(overlay: OverlayOptions): Required<OverlayOptions> {
+        const normalized = { ...DEFAULT_OVERLAY_OPTIONS, ...overlay };
+
+        if (!normalized.imagePath) {
+            throw new ConfigError(
+                'Overlay image path is required',
+                ErrorCode.INVALID_PARAMETER,
+                overlay
+            );
+        }
+
+        if (normalized.scale <= 0 || normalized.scale > 1 ||
+            normalized.margin < 0 || normalized.margin >= 0.5 ||
+            normalized.opacity < 0 || normalized.opacity > 1) {
+            throw new ConfigError(
+                'Overlay scale must be in (0, 1], margin in [0, 0.5) and opacity in [0, 1]',
+                ErrorCode.INVALID_PARAMETER,
+                overlay
+            );
+        }
+
+        // URLs are drawn by ImageOverlayFilter, which has no opacity
+        if (normalized.opacity < 1 && isUrl(normalized.imagePath)) {
+            this.logger.warn('Overlay opacity is not supported for image URLs, drawing it opaque');
+            normalized.opacity = 1;
+        }
+
+        return normalized;
+    }
+
     /**
      * Validate that the selected media profile matches the recording mode
      * 
@@ -217,6 +783,16 @@ export class ConfigManager {
                 }
                 break;
 
+            case RecordingMode.SPLIT_AUDIO_VIDEO:
+                // The container is kept, each file gets the matching single-media profile
+                if (![MediaProfile.WEBM, MediaProfile.MP4].includes(mediaProfile)) {
+                    this.logger.warn(
+                        `Media profile ${mediaProfile} may not be optimal for split audio/video recording, ` +
+                        `consider using WEBM or MP4`
+                    );
+                }
+                break;
+
             case RecordingMode.AUDIO_VIDEO:
                 if (![MediaProfile.WEBM, MediaProfile.MP4].includes(mediaProfile)) {
                     this.logger.warn(
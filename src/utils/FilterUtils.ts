@@ -0,0 +1,88 @@
+/**
+ * Helpers for media filter specifications
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { FilterSpec, RecordingMode } from '../types';
+import { ConfigError } from '../errors';
+import { ErrorCode } from '../constants';
+
+/** Kurento element type used when a filter does not name one */
+const DEFAULT_FILTER_TYPE = 'GStreamerFilter';
+
+/**
+ * Apply filter defaults and validate a filter against the recording mode
+ *
+ * @param spec User-provided filter
+ * @param recordingMode Recording mode of the session
+ * @param existingIds IDs of the filters already in the chain
+ * @returns Normalized filter with its ID and type set
+ * @throws ConfigError if the filter is invalid
+ */
+export function normalizeFilterSpec(
+    spec: FilterSpec,
+    recordingMode: RecordingMode,
+    existingIds: Iterable<string> = []
+): FilterSpec {
+    const normalized: FilterSpec = {
+        ...spec,
+        id: spec.id ?? `filter-${uuidv4().slice(0, 8)}`,
+        type: spec.type ?? DEFAULT_FILTER_TYPE
+    };
+
+    if (normalized.mediaType !== 'AUDIO' && normalized.mediaType !== 'VIDEO') {
+        throw new ConfigError(
+            `Invalid filter media type: ${normalized.mediaType}`,
+            ErrorCode.INVALID_PARAMETER,
+            spec
+        );
+    }
+
+    const recordsMedia = normalized.mediaType === 'AUDIO'
+        ? recordingMode !== RecordingMode.VIDEO_ONLY
+        : recordingMode !== RecordingMode.AUDIO_ONLY;
+
+    if (!recordsMedia) {
+        throw new ConfigError(
+            `${normalized.mediaType} filter ${normalized.id} does not apply to ${recordingMode} recordings`,
+            ErrorCode.INVALID_PARAMETER,
+            spec
+        );
+    }
+
+    if (normalized.type === DEFAULT_FILTER_TYPE && !normalized.command) {
+        throw new ConfigError(
+            `Filter ${normalized.id} has no GStreamer command`,
+            ErrorCode.INVALID_PARAMETER,
+            spec
+        );
+    }
+
+    if ([...existingIds].includes(normalized.id!)) {
+        throw new ConfigError(
+            `Duplicate filter ID: ${normalized.id}`,
+            ErrorCode.INVALID_PARAMETER,
+            spec
+        );
+    }
+
+    return normalized;
+}
+
+/**
+ * Get the Kurento constructor options of a filter
+ *
+ * @param spec Normalized filter
+ * @returns Element options
+ */
+export function getFilterElementOptions(spec: FilterSpec): Record<string, any> {
+    if (spec.type !== DEFAULT_FILTER_TYPE) {
+        return { ...spec.options };
+    }
+
+    return {
+        ...spec.options,
+        command: spec.command,
+        filterType: spec.mediaType
+    };
+}
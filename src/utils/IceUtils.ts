@@ -0,0 +1,165 @@
+/**
+ * Helpers translating WebRTC ICE server lists into the STUN/TURN settings of Kurento endpoints
+ */
+
+import * as net from 'net';
+import { ConfigError } from '../errors';
+import { ErrorCode } from '../constants';
+import { WebRTCConfig, KurentoIceConfig } from '../types';
+
+/** Default port of STUN and TURN over UDP or TCP */
+const DEFAULT_ICE_PORT = 3478;
+
+/** Default port of TURN over TLS */
+const DEFAULT_ICE_TLS_PORT = 5349;
+
+/** stun:, stuns:, turn: and turns: URLs (RFC 7064 and RFC 7065) */
+const ICE_URL_PATTERN = /^(stuns?|turns?):(\[[^\]]+\]|[^:?[\]]+)(?::(\d+))?(?:\?transport=(udp|tcp))?$/i;
+
+/**
+ * Parsed STUN or TURN server URL
+ */
+export interface IceServerUrl {
+    scheme: 'stun' | 'stuns' | 'turn' | 'turns';
+    /** Host, IPv6 addresses without brackets */
+    host: string;
+    port: number;
+    transport?: 'udp' | 'tcp';
+}
+
+/**
+ * Parse a STUN or TURN server URL
+ *
+ * @param url Server URL, e.g. `turn:203.0.113.10:3478?transport=udp`
+ * @returns Parsed URL
+ * @throws ConfigError if the URL is not a STUN or TURN URL
+ */
+export function parseIceServerUrl(url: string): IceServerUrl {
+    const match = ICE_URL_PATTERN.exec(url.trim());
+
+    if (!match) {
+        throw new ConfigError(
+            `Invalid ICE server URL: ${url}`,
+            ErrorCode.INVALID_PARAMETER,
+            { url }
+        );
+    }
+
+    const scheme = match[1].toLowerCase() as IceServerUrl['scheme'];
+    const port = match[3] ? parseInt(match[3], 10) : (scheme === 'turns' ? DEFAULT_ICE_TLS_PORT : DEFAULT_ICE_PORT);
+
+    if (port < 1 || port > 65535) {
+        throw new ConfigError(
+            `Invalid ICE server port in ${url}`,
+            ErrorCode.INVALID_PARAMETER,
+            { url }
+        );
+    }
+
+    return {
+        scheme,
+        host: match[2].replace(/^\[|\]$/g, ''),
+        port,
+        transport: match[4]?.toLowerCase() as IceServerUrl['transport']
+    };
+}
+
+/**
+ * Get the URLs of all ICE servers in a WebRTC configuration
+ *
+ * @param config WebRTC configuration
+ * @returns Server URLs in the order they are listed
+ */
+export function getIceServerUrls(config: WebRTCConfig = {}): string[] {
+    return (config.iceServers ?? []).flatMap(server =>
+        Array.isArray(server.urls) ? server.urls : [server.urls]
+    );
+}
+
+/**
+ * Translate the ICE servers of a WebRTC configuration into Kurento endpoint settings
+ * Kurento endpoints use one STUN and one TURN server, so the first of each kind is
+ * taken. Kurento does not resolve host names, the servers must be given by IP address
+ *
+ * @param config WebRTC configuration
+ * @returns STUN and TURN settings, empty if no servers are configured
+ * @throws ConfigError if a server cannot be used by Kurento
+ */
+export function toKurentoIceConfig(config: WebRTCConfig = {}): KurentoIceConfig {
+    const iceConfig: KurentoIceConfig = {};
+
+    for (const server of config.iceServers ?? []) {
+        const urls = Array.isArray(server.urls) ? server.urls : [server.urls];
+
+        for (const url of urls) {
+            const parsed = parseIceServerUrl(url);
+
+            if (!net.isIP(parsed.host)) {
+                throw new ConfigError(
+                    `ICE server ${url} must be given by IP address, Kurento does not resolve host names`,
+                    ErrorCode.INVALID_PARAMETER,
+                    { url }
+                );
+            }
+
+            if (parsed.scheme === 'stuns') {
+                throw new ConfigError(
+                    `Kurento does not support STUN over TLS: ${url}`,
+                    ErrorCode.INVALID_PARAMETER,
+                    { url }
+                );
+            }
+
+            if (parsed.scheme === 'stun') {
+                if (!iceConfig.stunServerAddress) {
+                    iceConfig.stunServerAddress = parsed.host;
+                    iceConfig.stunServerPort = parsed.port;
+                }
+                continue;
+            }
+
+            if (typeof server.username !== 'string' || typeof server.credential !== 'string' ||
+                !server.username || !server.credential) {
+                throw new ConfigError(
+                    `TURN server ${url} needs a username and a credential`,
+                    ErrorCode.INVALID_PARAMETER,
+                    { url }
+                );
+            }
+
+            // Kurento splits turnUrl at ':' and '@' and does not decode percent-encoding
+            if (/[:@]/.test(server.username) || /[:@]/.test(server.credential)) {
+                throw new ConfigError(
+                    `TURN credentials of ${url} must not contain ':' or '@', Kurento cannot parse them`,
+                    ErrorCode.INVALID_PARAMETER,
+                    { url }
+                );
+            }
+
+            if (!iceConfig.turnUrl) {
+                const host = net.isIPv6(parsed.host) ? `[${parsed.host}]` : parsed.host;
+                const transport = parsed.scheme === 'turns' ? 'tls' : (parsed.transport ?? 'udp');
+
+                // Format: user:password@address:port?transport=udp
+                iceConfig.turnUrl = `${server.username}:${server.credential}@${host}:${parsed.port}?transport=${transport}`;
+            }
+        }
+    }
+
+    return iceConfig;
+}
+
+/**
+ * Describe Kurento ICE settings for logging, without the TURN credentials
+ *
+ * @param iceConfig Kurento ICE settings
+ * @returns STUN and TURN server addresses
+ */
+export function describeIceConfig(iceConfig: KurentoIceConfig): { stunServer?: string, turnServer?: string } {
+    return {
+        stunServer: iceConfig.stunServerAddress
+            ? `${iceConfig.stunServerAddress}:${iceConfig.stunServerPort}`
+            : undefined,
+        turnServer: iceConfig.turnUrl?.replace(/^[^@]*@/, '')
+    };
+}
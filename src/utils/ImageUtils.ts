@@ -0,0 +1,232 @@
+/**
+ * Image helpers for generated pause slates and overlays
+ */
+
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import * as path from 'path';
+import { promisify } from 'util';
+import { ConfigError } from '../errors';
+import { ErrorCode } from '../constants';
+
+/**
+ * RGB colour with 0-255 channels
+ */
+export interface RgbColor {
+    r: number;
+    g: number;
+    b: number;
+}
+
+const readFile = promisify(fs.readFile);
+
+/** Colour names accepted in addition to hex and rgb() notation */
+const NAMED_COLORS: Record<string, RgbColor> = {
+    black: { r: 0, g: 0, b: 0 },
+    white: { r: 255, g: 255, b: 255 },
+    gray: { r: 128, g: 128, b: 128 },
+    grey: { r: 128, g: 128, b: 128 },
+    red: { r: 255, g: 0, b: 0 },
+    green: { r: 0, g: 128, b: 0 },
+    blue: { r: 0, g: 0, b: 255 },
+    yellow: { r: 255, g: 255, b: 0 },
+    navy: { r: 0, g: 0, b: 128 },
+    purple: { r: 128, g: 0, b: 128 }
+};
+
+/** PNG file signature */
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** CRC-32 lookup table used by PNG chunks */
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * Parse a CSS-like colour ("black", "#00F", "#0000FF" or "rgb(0, 0, 255)")
+ *
+ * @param color Colour string
+ * @returns RGB colour
+ * @throws ConfigError if the colour cannot be parsed
+ */
+export function parseColor(color: string): RgbColor {
+    const value = color.trim().toLowerCase();
+
+    if (NAMED_COLORS[value]) {
+        return { ...NAMED_COLORS[value] };
+    }
+
+    const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(value);
+    if (hex) {
+        const digits = hex[1].length === 3
+            ? hex[1].split('').map(digit => digit + digit).join('')
+            : hex[1];
+
+        return {
+            r: parseInt(digits.slice(0, 2), 16),
+            g: parseInt(digits.slice(2, 4), 16),
+            b: parseInt(digits.slice(4, 6), 16)
+        };
+    }
+
+    const rgb = /^rgb\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*\)$/.exec(value);
+    if (rgb) {
+        const [r, g, b] = rgb.slice(1).map(Number);
+        if (r <= 255 && g <= 255 && b <= 255) {
+            return { r, g, b };
+        }
+    }
+
+    throw new ConfigError(
+        `Invalid colour: ${color}`,
+        ErrorCode.INVALID_PARAMETER,
+        { color }
+    );
+}
+
+/**
+ * Encode a PNG image filled with a single colour
+ *
+ * @param width Image width in pixels
+ * @param height Image height in pixels
+ * @param color Fill colour
+ * @returns PNG file contents
+ */
+export function encodeSolidColorPng(width: number, height: number, color: RgbColor): Buffer {
+    // Every scanline starts with filter type 0 followed by RGB triplets
+    const row = Buffer.alloc(1 + width * 3);
+    for (let x = 0; x < width; x++) {
+        row[1 + x * 3] = color.r;
+        row[2 + x * 3] = color.g;
+        row[3 + x * 3] = color.b;
+    }
+
+    const raw = Buffer.alloc(row.length * height);
+    for (let y = 0; y < height; y++) {
+        row.copy(raw, y * row.length);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8; // Bit depth
+    header[9] = 2; // Colour type: truecolour
+
+    return Buffer.concat([
+        PNG_SIGNATURE,
+        createPngChunk('IHDR', header),
+        createPngChunk('IDAT', zlib.deflateSync(raw)),
+        createPngChunk('IEND', Buffer.alloc(0))
+    ]);
+}
+
+/**
+ * Convert a file path or URL into a URI Kurento can open
+ * Absolute paths become file:// URIs; URLs and relative paths (resolved on the
+ * Kurento server) are passed through
+ *
+ * @param location File path or URL
+ * @returns Media URI
+ */
+export function toMediaUri(location: string): string {
+    if (isUrl(location)) {
+        return location;
+    }
+
+    const normalizedPath = path.normalize(location);
+
+    if (path.isAbsolute(normalizedPath)) {
+        // Format: file:///path/to/file
+        return `file://${normalizedPath.replace(/\\/g, '/')}`;
+    }
+
+    return normalizedPath.replace(/\\/g, '/');
+}
+
+/**
+ * Check whether a location is a URL rather than a file path
+ *
+ * @param location File path or URL
+ * @returns true for URLs
+ */
+export function isUrl(location: string): boolean {
+    return /^[a-z][a-z0-9+.-]*:\/\//i.test(location);
+}
+
+/**
+ * Read the pixel size of a PNG or JPEG file
+ *
+ * @param filePath Image file path
+ * @returns Image size, or null if the file cannot be read or is not a PNG/JPEG
+ */
+export async function readImageSize(filePath: string): Promise<{ width: number; height: number } | null> {
+    let data: Buffer;
+    try {
+        data = await readFile(filePath);
+    } catch (error) {
+        return null;
+    }
+
+    // PNG: the IHDR chunk always comes first
+    if (data.length >= 24 && data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+        return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+    }
+
+    // JPEG: walk the markers up to the first start-of-frame
+    if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+        let offset = 2;
+        while (offset + 9 < data.length && data[offset] === 0xff) {
+            const marker = data[offset + 1];
+            const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf &&
+                marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+            if (isStartOfFrame) {
+                return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+            }
+
+            offset += 2 + data.readUInt16BE(offset + 2);
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Build a PNG chunk with its length and CRC
+ *
+ * @param type Chunk type
+ * @param data Chunk data
+ * @returns Encoded chunk
+ */
+function createPngChunk(type: string, data: Buffer): Buffer {
+    const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length, 0);
+
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(typeAndData), 0);
+
+    return Buffer.concat([length, typeAndData, crc]);
+}
+
+/**
+ * Compute the CRC-32 of a buffer
+ *
+ * @param buffer Data
+ * @returns CRC-32 value
+ */
+function crc32(buffer: Buffer): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < buffer.length; i++) {
+        crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
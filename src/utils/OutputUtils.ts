@@ -0,0 +1,97 @@
+/**
+ * Helpers for the files a recording is written to
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { MediaProfile, RecordingMode, RecordingOutput, OutputOptions } from '../types';
+
+const stat = promisify(fs.stat);
+
+/**
+ * Get the files a split recording is written to
+ * `session.webm` is recorded as `session.audio.webm` and `session.video.webm`
+ *
+ * @param filePath Base file path of the recording
+ * @param mediaProfile Media profile of the recording, only its container is used
+ * @returns Audio output followed by the video output
+ */
+export function getSplitOutputs(filePath: string, mediaProfile: MediaProfile): RecordingOutput[] {
+    const { dir, name, ext } = path.parse(filePath);
+    const mp4 = mediaProfile.startsWith('MP4');
+
+    return [
+        {
+            path: path.join(dir, `${name}.audio${ext}`),
+            mediaProfile: mp4 ? MediaProfile.MP4_AUDIO_ONLY : MediaProfile.WEBM_AUDIO_ONLY,
+            recordingMode: RecordingMode.AUDIO_ONLY
+        },
+        {
+            path: path.join(dir, `${name}.video${ext}`),
+            mediaProfile: mp4 ? MediaProfile.MP4_VIDEO_ONLY : MediaProfile.WEBM_VIDEO_ONLY,
+            recordingMode: RecordingMode.VIDEO_ONLY
+        }
+    ];
+}
+
+/**
+ * Get the files a recording is written to
+ *
+ * @param filePath File path of the recording
+ * @param mediaProfile Media profile of the recording
+ * @param recordingMode Recording mode of the recording
+ * @param copies Normalized additional outputs of the recording
+ * @returns The files, a single one unless the mode splits the media or there are copies
+ */
+export function getRecordingOutputs(
+    filePath: string,
+    mediaProfile: MediaProfile,
+    recordingMode: RecordingMode,
+    copies: OutputOptions[] = []
+): RecordingOutput[] {
+    if (recordingMode === RecordingMode.SPLIT_AUDIO_VIDEO) {
+        return getSplitOutputs(filePath, mediaProfile);
+    }
+
+    return [
+        { path: filePath, mediaProfile, recordingMode },
+        ...copies.map(copy => ({
+            path: copy.filePath!,
+            mediaProfile: copy.mediaProfile,
+            recordingMode,
+            quality: copy.quality
+        }))
+    ];
+}
+
+/**
+ * Read the sizes of output files
+ * Files that cannot be read locally (e.g. on a remote Kurento server) are left without a size
+ *
+ * @param outputs Output files
+ * @returns Copies of the outputs with their size set when known
+ */
+export async function readOutputSizes(outputs: RecordingOutput[]): Promise<RecordingOutput[]> {
+    return Promise.all(outputs.map(async (output) => {
+        try {
+            return { ...output, size: (await stat(output.path)).size };
+        } catch (error) {
+            return { ...output };
+        }
+    }));
+}
+
+/**
+ * Get the total size of output files
+ *
+ * @param outputs Output files with their sizes read
+ * @returns Sum of the known sizes, undefined if no size is known
+ */
+export function getTotalSize(outputs: RecordingOutput[]): number | undefined {
+    const sizes = outputs
+        .map(output => output.size)
+        .filter((size): size is number => size !== undefined);
+
+    return sizes.length > 0 ? sizes.reduce((total, size) => total + size, 0) : undefined;
+}
@@ -0,0 +1,74 @@
+/**
+ * Helpers removing credentials from options before they leave the process
+ */
+
+/** Replacement of a redacted value */
+export const REDACTED = '***';
+
+/** Keys whose values are credentials, e.g. the username and credential of a TURN server */
+const SECRET_KEY_PATTERN = /^(username|user|credential|credentials|password|passwd|secret|token|api[-_]?key|auth|authorization)$/i;
+
+/** Query parameters carrying credentials, e.g. the token of a stream or the signature of a signed URL */
+const SECRET_PARAM_PATTERN = /token|secret|password|passwd|key|signature|sig$|credential|auth/i;
+
+/** URLs embedded in text, e.g. in the GStreamer command of a filter */
+const URL_PATTERN = /\b[a-z][a-z0-9+.-]*:\/\/[^\s"'<>]+/gi;
+
+/**
+ * Mask the user, the password and the secret query parameters of a URL
+ *
+ * @param uri URL, or a file path which is returned unchanged
+ * @returns URL without credentials
+ */
+export function redactUri(uri: string): string {
+    let url: URL;
+    try {
+        url = new URL(uri);
+    } catch (error) {
+        return uri;
+    }
+
+    const secretParams = [...url.searchParams.keys()].filter(key => SECRET_PARAM_PATTERN.test(key));
+    if (!url.username && !url.password && secretParams.length === 0) {
+        return uri;
+    }
+
+    if (url.username) {
+        url.username = REDACTED;
+    }
+    if (url.password) {
+        url.password = REDACTED;
+    }
+    secretParams.forEach(key => url.searchParams.set(key, REDACTED));
+
+    return url.toString();
+}
+
+/**
+ * Copy a value without its credentials
+ * Properties named like credentials are dropped and URLs in strings are masked with redactUri()
+ *
+ * @param value Options or any other JSON-like value
+ * @returns Redacted copy
+ */
+export function redactSecrets<T>(value: T): T {
+    if (typeof value === 'string') {
+        return value.replace(URL_PATTERN, match => redactUri(match)) as unknown as T;
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(item => redactSecrets(item)) as unknown as T;
+    }
+
+    if (value && typeof value === 'object') {
+        const redacted: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            if (!SECRET_KEY_PATTERN.test(key)) {
+                redacted[key] = redactSecrets(item);
+            }
+        }
+        return redacted as T;
+    }
+
+    return value;
+}
@@ -0,0 +1,229 @@
+/**
+ * File-backed session journal for crash recovery
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { SessionJournal, SessionJournalEntry } from '../types';
+import { IOError } from '../errors';
+import { ErrorCode } from '../constants';
+import { Logger } from './Logger';
+
+const mkdir = promisify(fs.mkdir);
+const readdir = promisify(fs.readdir);
+const readFile = promisify(fs.readFile);
+const writeFile = promisify(fs.writeFile);
+const rename = promisify(fs.rename);
+const unlink = promisify(fs.unlink);
+const open = promisify(fs.open);
+const fsync = promisify(fs.fsync);
+const close = promisify(fs.close);
+
+const ENTRY_EXTENSION = '.json';
+
+/**
+ * Stores one JSON file per session in a directory
+ * Entries are written to a temporary file and renamed into place so a crash
+ * never leaves a half-written entry behind
+ */
+export class FileSessionJournal implements SessionJournal {
+    private directory: string;
+    private logger: Logger;
+    private directoryReady: Promise<void> | null = null;
+    private pendingWrites: Map<string, Promise<void>> = new Map();
+
+    /**
+     * Create a new FileSessionJournal
+     *
+     * @param directory Directory to store entries in
+     * @param logger Logger instance
+     */
+    constructor(directory: string, logger: Logger) {
+        this.directory = directory;
+        this.logger = logger.createChild({ name: 'SessionJournal' });
+    }
+
+    /**
+     * Load all persisted entries
+     * Unreadable entries are skipped and logged
+     *
+     * @returns Journal entries
+     */
+    async load(): Promise<SessionJournalEntry[]> {
+        await this.ensureDirectory();
+
+        let files: string[];
+        try {
+            files = await readdir(this.directory);
+        } catch (error: any) {
+            throw new IOError(
+                `Failed to read session journal: ${error.message}`,
+                ErrorCode.FILE_SYSTEM_ERROR,
+                error
+            );
+        }
+
+        const entries: SessionJournalEntry[] = [];
+        for (const file of files) {
+            if (path.extname(file) !== ENTRY_EXTENSION) {
+                continue;
+            }
+
+            let entry: SessionJournalEntry;
+            try {
+                const content = await readFile(path.join(this.directory, file), 'utf8');
+                entry = JSON.parse(content) as SessionJournalEntry;
+            } catch (error) {
+                this.logger.warn('Skipping unreadable journal entry', { file, error });
+                continue;
+            }
+
+            await this.migrateEntry(file, entry.sessionId);
+            entries.push(entry);
+        }
+
+        this.logger.debug(`Loaded ${entries.length} journal entries`);
+        return entries;
+    }
+
+    /**
+     * Persist an entry
+     * Writes for the same session are serialized so the latest snapshot always wins
+     *
+     * @param entry Journal entry
+     */
+    async save(entry: SessionJournalEntry): Promise<void> {
+        const content = JSON.stringify(entry, null, 2);
+        await this.enqueue(entry.sessionId, () => this.writeEntry(entry.sessionId, content));
+    }
+
+    /**
+     * Remove an entry
+     *
+     * @param sessionId Session ID
+     */
+    async remove(sessionId: string): Promise<void> {
+        await this.enqueue(sessionId, async () => {
+            try {
+                await unlink(this.getEntryPath(sessionId));
+            } catch (error: any) {
+                if (error.code !== 'ENOENT') {
+                    throw new IOError(
+                        `Failed to remove journal entry: ${error.message}`,
+                        ErrorCode.FILE_SYSTEM_ERROR,
+                        error
+                    );
+                }
+            }
+        });
+    }
+
+    /**
+     * Chain an operation after any pending operation for the same session
+     *
+     * @param sessionId Session ID
+     * @param operation Operation to run
+     */
+    private async enqueue(sessionId: string, operation: () => Promise<void>): Promise<void> {
+        const previous = this.pendingWrites.get(sessionId) || Promise.resolve();
+        const next = previous.catch(() => undefined).then(operation);
+        this.pendingWrites.set(sessionId, next);
+
+        try {
+            await next;
+        } finally {
+            if (this.pendingWrites.get(sessionId) === next) {
+                this.pendingWrites.delete(sessionId);
+            }
+        }
+    }
+
+    /**
+     * Write an entry atomically
+     *
+     * @param sessionId Session ID
+     * @param content Serialized entry
+     */
+    private async writeEntry(sessionId: string, content: string): Promise<void> {
+        await this.ensureDirectory();
+
+        const entryPath = this.getEntryPath(sessionId);
+        const tempPath = `${entryPath}.tmp`;
+
+        try {
+            await writeFile(tempPath, content, { encoding: 'utf8', mode: 0o600 });
+
+            // Flush to disk before the rename makes the entry visible
+            const fd = await open(tempPath, 'r');
+            try {
+                await fsync(fd);
+            } finally {
+                await close(fd);
+            }
+
+            await rename(tempPath, entryPath);
+        } catch (error: any) {
+            this.logger.error('Error writing journal entry', { error, sessionId });
+            throw new IOError(
+                `Failed to write journal entry: ${error.message}`,
+                ErrorCode.FILE_SYSTEM_ERROR,
+                error
+            );
+        }
+    }
+
+    /**
+     * Ensure the journal directory exists
+     */
+    private ensureDirectory(): Promise<void> {
+        if (!this.directoryReady) {
+            this.directoryReady = mkdir(this.directory, { recursive: true, mode: 0o700 })
+                .then(() => undefined)
+                .catch((error: any) => {
+                    this.directoryReady = null;
+                    throw new IOError(
+                        `Failed to create journal directory: ${error.message}`,
+                        ErrorCode.FILE_SYSTEM_ERROR,
+                        error
+                    );
+                });
+        }
+
+        return this.directoryReady;
+    }
+
+    /**
+     * Move an entry written under a file name of an earlier version to its current path
+     * so later writes replace it instead of leaving a stale copy behind
+     *
+     * @param file File name of the entry
+     * @param sessionId Session ID stored in the entry
+     */
+    private async migrateEntry(file: string, sessionId: string): Promise<void> {
+        const entryPath = this.getEntryPath(sessionId);
+        if (path.join(this.directory, file) === entryPath) {
+            return;
+        }
+
+        try {
+            await rename(path.join(this.directory, file), entryPath);
+        } catch (error) {
+            this.logger.warn('Failed to migrate journal entry', { file, sessionId, error });
+        }
+    }
+
+    /**
+     * Get the file path for a session entry
+     *
+     * @param sessionId Session ID
+     * @returns Entry file path
+     */
+    private getEntryPath(sessionId: string): string {
+        // Session IDs are user-provided: hashing keeps them from escaping the directory, and
+        // unlike replacing characters, two IDs cannot share a file, even on case-insensitive file systems
+        const name = crypto.createHash('sha256').update(sessionId).digest('hex');
+        return path.join(this.directory, `${name}${ENTRY_EXTENSION}`);
+    }
+}
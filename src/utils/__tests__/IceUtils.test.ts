@@ -0,0 +1,86 @@
+import { ConfigError } from '../../errors';
+import { parseIceServerUrl, toKurentoIceConfig } from '../IceUtils';
+
+describe('parseIceServerUrl', () => {
+    it('parses a TURN URL with a transport', () => {
+        expect(parseIceServerUrl('turn:203.0.113.10:3478?transport=udp')).toEqual({
+            scheme: 'turn',
+            host: '203.0.113.10',
+            port: 3478,
+            transport: 'udp'
+        });
+    });
+
+    it('defaults the port of turn: to 3478 and of turns: to 5349', () => {
+        expect(parseIceServerUrl('turn:203.0.113.10').port).toBe(3478);
+        expect(parseIceServerUrl('turns:203.0.113.10').port).toBe(5349);
+    });
+
+    it('parses a TURN over TLS URL with a TCP transport', () => {
+        expect(parseIceServerUrl('TURNS:203.0.113.10:443?transport=TCP')).toEqual({
+            scheme: 'turns',
+            host: '203.0.113.10',
+            port: 443,
+            transport: 'tcp'
+        });
+    });
+
+    it('strips the brackets of an IPv6 host', () => {
+        expect(parseIceServerUrl('stun:[2001:db8::1]:19302')).toEqual({
+            scheme: 'stun',
+            host: '2001:db8::1',
+            port: 19302,
+            transport: undefined
+        });
+    });
+
+    it.each([
+        'http://203.0.113.10:3478',
+        'turn:203.0.113.10:3478?transport=sctp',
+        'turn:203.0.113.10:70000',
+        'turn:'
+    ])('rejects %s', (url) => {
+        expect(() => parseIceServerUrl(url)).toThrow(ConfigError);
+    });
+});
+
+describe('toKurentoIceConfig', () => {
+    it('takes the first STUN and TURN server', () => {
+        const iceConfig = toKurentoIceConfig({
+            iceServers: [
+                { urls: ['stun:203.0.113.10:3478', 'stun:203.0.113.11'] },
+                { urls: 'turns:203.0.113.10', username: 'kurento', credential: 's3cr3t' },
+                { urls: 'turn:203.0.113.11', username: 'other', credential: 'other' }
+            ]
+        });
+
+        expect(iceConfig).toEqual({
+            stunServerAddress: '203.0.113.10',
+            stunServerPort: 3478,
+            turnUrl: 'kurento:s3cr3t@203.0.113.10:5349?transport=tls'
+        });
+    });
+
+    it('passes the TURN credentials unencoded', () => {
+        const iceConfig = toKurentoIceConfig({
+            iceServers: [{ urls: 'turn:[2001:db8::1]?transport=tcp', username: 'user+1', credential: 'a/b=c%' }]
+        });
+
+        expect(iceConfig.turnUrl).toBe('user+1:a/b=c%@[2001:db8::1]:3478?transport=tcp');
+    });
+
+    it.each([
+        ['a username containing :', { username: '1700000000:alice', credential: 'secret' }],
+        ['a credential containing @', { username: 'kurento', credential: 'p@ss' }],
+        ['missing credentials', {}]
+    ])('rejects %s', (_description, credentials) => {
+        expect(() => toKurentoIceConfig({
+            iceServers: [{ urls: 'turn:203.0.113.10', ...credentials }]
+        })).toThrow(ConfigError);
+    });
+
+    it('rejects host names and STUN over TLS', () => {
+        expect(() => toKurentoIceConfig({ iceServers: [{ urls: 'stun:stun.example.com' }] })).toThrow(ConfigError);
+        expect(() => toKurentoIceConfig({ iceServers: [{ urls: 'stuns:203.0.113.10' }] })).toThrow(ConfigError);
+    });
+});
@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PauseType, RecordingState, SessionJournalEntry } from '../../types';
+import { createSilentLogger } from '../../core/__tests__/helpers';
+import { FileSessionJournal } from '../SessionJournal';
+
+/**
+ * Journal entry of a session that has not started
+ */
+function createEntry(sessionId: string): SessionJournalEntry {
+    return {
+        sessionId,
+        options: { sessionId } as SessionJournalEntry['options'],
+        state: RecordingState.READY,
+        startTime: 0,
+        pauseStartTime: 0,
+        totalPausedTime: 0,
+        pauseType: PauseType.BOTH,
+        createdAt: 0,
+        updatedAt: 0,
+        transitions: []
+    };
+}
+
+describe('FileSessionJournal', () => {
+    const logger = createSilentLogger();
+    let directory: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'session-journal-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('keeps the entries of IDs that only differ in special characters or case apart', async () => {
+        const journal = new FileSessionJournal(directory, logger);
+        const sessionIds = ['tenant/a', 'tenant_a', 'tenant:a', 'Tenant_A', '../tenant_a'];
+
+        for (const sessionId of sessionIds) {
+            await journal.save(createEntry(sessionId));
+        }
+
+        const loaded = await journal.load();
+        expect(loaded.map(entry => entry.sessionId).sort()).toEqual([...sessionIds].sort());
+        expect(fs.readdirSync(directory)).toHaveLength(sessionIds.length);
+    });
+
+    it('removes only the entry of the given session', async () => {
+        const journal = new FileSessionJournal(directory, logger);
+        await journal.save(createEntry('tenant/a'));
+        await journal.save(createEntry('tenant_a'));
+
+        await journal.remove('tenant/a');
+
+        expect((await journal.load()).map(entry => entry.sessionId)).toEqual(['tenant_a']);
+    });
+
+    it('moves an entry written under a sanitized file name to its current path', async () => {
+        fs.writeFileSync(path.join(directory, 'tenant_a.json'), JSON.stringify(createEntry('tenant/a')));
+        const journal = new FileSessionJournal(directory, logger);
+
+        expect((await journal.load()).map(entry => entry.sessionId)).toEqual(['tenant/a']);
+
+        await journal.save({ ...createEntry('tenant/a'), state: RecordingState.RECORDING });
+        const loaded = await journal.load();
+
+        expect(loaded).toHaveLength(1);
+        expect(loaded[0].state).toBe(RecordingState.RECORDING);
+    });
+});
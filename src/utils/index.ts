@@ -3,4 +3,10 @@
  */
 
 export { Logger, ILogger } from './Logger';
-export { ConfigManager } from './ConfigManager'; 
\ No newline at end of file
+export { ConfigManager } from './ConfigManager';
+export { FileSessionJournal } from './SessionJournal';
+export { parseColor, encodeSolidColorPng, toMediaUri, isUrl, readImageSize, RgbColor } from './ImageUtils';
+export { normalizeFilterSpec, getFilterElementOptions } from './FilterUtils';
+export { getSplitOutputs, getRecordingOutputs, readOutputSizes, getTotalSize } from './OutputUtils';
+export { parseIceServerUrl, getIceServerUrls, toKurentoIceConfig, describeIceConfig, IceServerUrl } from './IceUtils';
+export { redactUri, redactSecrets, REDACTED } from './RedactUtils';